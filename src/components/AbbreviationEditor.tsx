@@ -0,0 +1,158 @@
+/**
+ * Abbreviation dictionary editor shown in settings
+ */
+
+import { useRef } from 'preact/hooks';
+import { TargetedEvent } from 'preact';
+import { Button } from './shared/Button';
+import { Abbreviation } from '../types';
+import {
+  abbreviationsToCSV,
+  abbreviationsToJSON,
+  normalizeAbbreviations,
+  parseAbbreviationsCSV,
+  parseAbbreviationsJSON
+} from '../utils/abbreviations';
+import { downloadFile, readFileAsText } from '../utils/download';
+
+interface AbbreviationEditorProps {
+  abbreviations: Abbreviation[];
+  onChange: (abbreviations: Abbreviation[]) => void;
+  onError: (message: string) => void;
+}
+
+export function AbbreviationEditor({ abbreviations, onChange, onError }: AbbreviationEditorProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const updateRow = (index: number, changes: Partial<Abbreviation>) => {
+    onChange(abbreviations.map((a, i) => (i === index ? { ...a, ...changes } : a)));
+  };
+
+  const removeRow = (index: number) => {
+    onChange(abbreviations.filter((_, i) => i !== index));
+  };
+
+  const addRow = () => {
+    onChange([...abbreviations, { abbreviation: '', expansion: '', transcription: true, generation: true }]);
+  };
+
+  const handleImport = async (e: TargetedEvent<HTMLInputElement>) => {
+    const file = e.currentTarget.files?.[0];
+    e.currentTarget.value = '';
+    if (!file) return;
+
+    try {
+      const text = await readFileAsText(file);
+      const imported = file.name.toLowerCase().endsWith('.json')
+        ? parseAbbreviationsJSON(text)
+        : parseAbbreviationsCSV(text);
+      if (imported.length === 0) {
+        onError('No abbreviations found in file');
+        return;
+      }
+      onChange(normalizeAbbreviations([...abbreviations, ...imported]));
+    } catch (error) {
+      onError(error instanceof Error ? error.message : 'Failed to import abbreviations');
+    }
+  };
+
+  const transcriptionCount = abbreviations.filter(a => a.transcription).length;
+  const generationCount = abbreviations.filter(a => a.generation).length;
+
+  return (
+    <div className="abbreviation-editor">
+      <table className="abbreviation-table">
+        <thead>
+          <tr>
+            <th>Abbreviation</th>
+            <th>Meaning</th>
+            <th title="Recognised when spoken during transcription">Transcription</th>
+            <th title="Long form is abbreviated in generated notes">Notes</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          {abbreviations.map((a, index) => (
+            <tr key={index}>
+              <td>
+                <input
+                  type="text"
+                  className="input-field"
+                  value={a.abbreviation}
+                  onInput={(e: TargetedEvent<HTMLInputElement>) => updateRow(index, { abbreviation: e.currentTarget.value })}
+                />
+              </td>
+              <td>
+                <input
+                  type="text"
+                  className="input-field"
+                  value={a.expansion}
+                  onInput={(e: TargetedEvent<HTMLInputElement>) => updateRow(index, { expansion: e.currentTarget.value })}
+                />
+              </td>
+              <td className="abbreviation-flag">
+                <input
+                  type="checkbox"
+                  checked={a.transcription}
+                  aria-label={`Use ${a.abbreviation} in transcription`}
+                  onChange={(e: TargetedEvent<HTMLInputElement>) => updateRow(index, { transcription: e.currentTarget.checked })}
+                />
+              </td>
+              <td className="abbreviation-flag">
+                <input
+                  type="checkbox"
+                  checked={a.generation}
+                  aria-label={`Use ${a.abbreviation} in note generation`}
+                  onChange={(e: TargetedEvent<HTMLInputElement>) => updateRow(index, { generation: e.currentTarget.checked })}
+                />
+              </td>
+              <td>
+                <button
+                  type="button"
+                  className="btn-close"
+                  onClick={() => removeRow(index)}
+                  aria-label={`Remove ${a.abbreviation}`}
+                >
+                  ×
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <p className="help-text">
+        Transcription ({transcriptionCount}): given as context so spoken abbreviations are recognised.
+        Notes ({generationCount}): spelled-out phrases are shortened to the abbreviation in generated notes.
+      </p>
+
+      <div className="button-group">
+        <Button className="btn btn-small btn-secondary" onClick={addRow}>
+          Add
+        </Button>
+        <Button className="btn btn-small btn-secondary" onClick={() => fileInputRef.current?.click()}>
+          Import
+        </Button>
+        <Button
+          className="btn btn-small btn-secondary"
+          onClick={() => downloadFile('abbreviations.csv', abbreviationsToCSV(abbreviations), 'text/csv')}
+        >
+          Export CSV
+        </Button>
+        <Button
+          className="btn btn-small btn-secondary"
+          onClick={() => downloadFile('abbreviations.json', abbreviationsToJSON(abbreviations), 'application/json')}
+        >
+          Export JSON
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".csv,.json,text/csv,application/json"
+          className="hidden"
+          onChange={handleImport}
+        />
+      </div>
+    </div>
+  );
+}
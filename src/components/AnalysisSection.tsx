@@ -1,70 +1,411 @@
-import { useEffect, useRef } from 'preact/hooks';
+import { useEffect, useRef, useState } from 'preact/hooks';
 import type {TargetedEvent} from 'preact';
 import { Button } from './shared/Button';
 import { Loading } from './shared/Loading';
-import { AppState } from '../types';
+import { TemplateManager } from './TemplateManager';
+import { PlaceholderInput } from './PlaceholderInput';
+import { CalculatorPanel } from './CalculatorPanel';
+import { VerificationPanel } from './VerificationPanel';
+import { SectionCopyPanel, getSectionLabel } from './SectionCopyPanel';
+import { ExportProfileSelect } from './shared/ExportProfileSelect';
+import { Storage } from '../modules/storage';
+import { AppState, ClaimCheck, ExportProfileId, NoteEditCommand, NoteIssue, PatientInfo, Template, TemplatePlaceholder } from '../types';
 import { RichTextEditor } from '../utils/rich-text-editor';
-import {TEMPLATES} from '../content/templates';
+import { htmlToMarkdown, renderMarkdown } from '../utils/markdown-renderer';
+import {
+  PLACEHOLDER_FIELD_CLASS,
+  clearPlaceholdersFromHTML,
+  findUnfilledRequired,
+  formatPlaceholderValue,
+  highlightPlaceholderFields,
+  parsePlaceholder,
+  refreshPlaceholderFields
+} from '../utils/placeholders';
+import { describeNoteIssues, getTemplateSections } from '../utils/structured-note';
+import { getNoteLines, splitNoteSections } from '../utils/note-sections';
+import {
+  CLAIM_ATTRIBUTE,
+  clearClaimMarks,
+  createVerificationSource,
+  markClaims,
+  VerificationSource,
+} from '../utils/note-verification';
+
+const EDIT_COMMANDS: Array<{ command: NoteEditCommand; label: string; title: string }> = [
+  { command: 'regenerate', label: 'Regenerate', title: 'Write the selection, or the section under the cursor, again from the transcript' },
+  { command: 'shorten', label: 'Shorten', title: 'Shorten the selection or section, keeping every finding' },
+  { command: 'client-friendly', label: 'Client-friendly', title: 'Rewrite the selection or section in plain language for the owner' },
+  { command: 'bullets', label: 'Bullets', title: 'Convert the selection or section to a bullet list' },
+];
 
 interface AnalysisProps {
   appState: AppState;
+  transcript: string;
   soapHTML: string;
+  soapMarkdown: string;
+  templates: Map<string, Template>;
   selectedTemplate: string;
   systemPrompt: string;
   templateBody: string;
   onPromptChange: (systemPrompt: string, template: string) => void;
   onTemplateChange: (templateId: string) => void;
+  onSaveTemplateAsNew: (name: string) => void;
+  onOverwriteTemplate: () => void;
+  onDeleteTemplate: () => void;
+  onExportTemplates: () => void;
+  onImportTemplates: (file: File) => void;
+  structuredNotes: boolean;
+  onStructuredNotesChange: (enabled: boolean) => void;
+  noteIssues: NoteIssue[];
+  onNoteChange: (html: string, markdown: string) => void;
+  // Rewrite part of the note, resolving to replacement HTML or null on failure
+  onEditNote: (command: NoteEditCommand, text: string, sectionTitle?: string) => Promise<string | null>;
+  // The editor differs from the latest saved version
+  hasNoteEdits: boolean;
+  keepEdits: boolean;
+  onKeepEditsChange: (keep: boolean) => void;
+  versionCount: number;
+  onOpenNoteHistory: () => void;
+  patient: PatientInfo;
   onGenerateSOAP: () => Promise<void>;
-  onCopy: (html: string, text: string) => Promise<void>;
+  onStopGeneration: () => void;
+  exportProfile: ExportProfileId;
+  onExportProfileChange: (profile: ExportProfileId) => void;
+  onPreviewExport: (html: string) => void;
+  // Copy HTML with the export profile, naming what was copied in the confirmation
+  onCopy: (html: string, label?: string) => Promise<void>;
+  onCopyMarkdown: (markdown: string) => Promise<void>;
+  onPrint: (html: string) => void;
+  onSavePDF: (html: string) => Promise<void>;
 }
 
 export function AnalysisSection({
   appState,
+  transcript,
   soapHTML,
+  soapMarkdown,
+  templates,
   selectedTemplate,
   systemPrompt,
   templateBody,
   onPromptChange,
   onTemplateChange,
+  onSaveTemplateAsNew,
+  onOverwriteTemplate,
+  onDeleteTemplate,
+  onExportTemplates,
+  onImportTemplates,
+  structuredNotes,
+  onStructuredNotesChange,
+  noteIssues,
+  onNoteChange,
+  onEditNote,
+  hasNoteEdits,
+  keepEdits,
+  onKeepEditsChange,
+  versionCount,
+  onOpenNoteHistory,
+  patient,
   onGenerateSOAP,
+  onStopGeneration,
+  exportProfile,
+  onExportProfileChange,
+  onPreviewExport,
   onCopy,
+  onCopyMarkdown,
+  onPrint,
+  onSavePDF,
 }: AnalysisProps) {
   const editorRef = useRef<HTMLDivElement>(null);
   const toolbarRef = useRef<HTMLDivElement>(null);
   const richTextEditorRef = useRef<RichTextEditor | null>(null);
+  // Last HTML reported from typing in the editor, which needn't be set back into it
+  const editedHTMLRef = useRef<string | null>(null);
+  const [activeField, setActiveField] = useState<{ element: HTMLElement; placeholder: TemplatePlaceholder } | null>(null);
+  const [unfilledFields, setUnfilledFields] = useState<string[]>([]);
+  const [showCalculators, setShowCalculators] = useState<boolean>(false);
+  // Transcript check of the current note, while its panel is open
+  const [claimChecks, setClaimChecks] = useState<ClaimCheck[] | null>(null);
+  const [selectedClaim, setSelectedClaim] = useState<number | null>(null);
+  // What the open checks were made against, to check the note again as it changes
+  const claimSourceRef = useRef<VerificationSource | null>(null);
+  const selectedClaimRef = useRef<number | null>(null);
+  // Edit command waiting on the provider, and a hint when one had nothing to act on
+  const [editingCommand, setEditingCommand] = useState<NoteEditCommand | null>(null);
+  const [editHint, setEditHint] = useState<string | null>(null);
+  // Copy-by-section panel, and the section the next "copy next" copies
+  const [showSectionCopy, setShowSectionCopy] = useState<boolean>(false);
+  const [nextSection, setNextSection] = useState<number>(0);
+  // Latest "copy next" handler, for the document-wide shortcut
+  const copyNextSectionRef = useRef<() => void>(() => {});
+  // Markdown being edited in the source view, or null for the formatted view
+  const [markdownSource, setMarkdownSource] = useState<string | null>(null);
 
   const isGenerating = appState === AppState.GENERATING;
+  const isSourceView = markdownSource !== null;
   const isTranscriptReady = appState === AppState.TRANSCRIPT_READY || appState === AppState.ANALYSIS_READY;
   const hasContent = soapHTML.length > 0;
+  const currentTemplate = templates.get(selectedTemplate);
+  const isTemplateModified = templateBody !== (currentTemplate?.content ?? '');
+  const sectionCount = getTemplateSections(templateBody).length;
+  const noteSections = splitNoteSections(soapHTML);
 
   // Initialize RichTextEditor when component mounts
   useEffect(() => {
     if (editorRef.current && toolbarRef.current && !richTextEditorRef.current) {
       richTextEditorRef.current = new RichTextEditor(
         editorRef.current,
-        toolbarRef.current
+        toolbarRef.current,
+        { decorate: decorateEditor }
       );
     }
+    return () => {
+      richTextEditorRef.current?.destroy();
+      richTextEditorRef.current = null;
+    };
   }, []);
 
   // Update editor content when soapHTML changes
   useEffect(() => {
-    if (richTextEditorRef.current && soapHTML) {
+    if (soapHTML === editedHTMLRef.current) {
+      return;
+    }
+    editedHTMLRef.current = null;
+    if (richTextEditorRef.current) {
       richTextEditorRef.current.setHTML(soapHTML);
+      setActiveField(null);
+      setNextSection(0);
+      setMarkdownSource(null);
+      updateUnfilledFields();
+    }
+    // Follow the text while it streams in
+    if (isGenerating && editorRef.current) {
+      editorRef.current.scrollTop = editorRef.current.scrollHeight;
     }
   }, [soapHTML]);
 
+  // Check a finished note against the transcript; edits are checked as they're made
+  useEffect(() => {
+    if (isGenerating || !hasContent || !transcript.trim()) {
+      handleCloseVerification();
+    } else if (soapHTML !== editedHTMLRef.current) {
+      checkClaims();
+    }
+  }, [soapHTML, isGenerating]);
+
+  // Alt+Shift+C copies the next section while the note is on screen
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      // The key code, as Option changes the typed character on macOS
+      if (!e.altKey || !e.shiftKey || e.ctrlKey || e.metaKey || e.code !== 'KeyC') return;
+      if (!editorRef.current || editorRef.current.closest('[hidden]')) return;
+      e.preventDefault();
+      copyNextSectionRef.current();
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
   const handleTemplateChange = (e: TargetedEvent<HTMLSelectElement>) => {
     onTemplateChange(e.currentTarget.value);
   };
 
-  const handleCopy = async () => {
+  const updateUnfilledFields = () => {
+    const text = richTextEditorRef.current?.getText() ?? '';
+    setUnfilledFields(findUnfilledRequired(text).map(placeholder => placeholder.label));
+  };
+
+  const checkClaims = () => {
+    if (!editorRef.current) return;
+    claimSourceRef.current = createVerificationSource(transcript, templateBody, Storage.getAbbreviations());
+    selectedClaimRef.current = null;
+    recheckClaims(editorRef.current);
+  };
+
+  /**
+   * Mark the note's lines again with the open checks' transcript, keeping
+   * the selected line
+   */
+  const recheckClaims = (root: HTMLElement) => {
+    const source = claimSourceRef.current;
+    if (!source) return;
+
+    setClaimChecks(markClaims(root, source));
+    const selected = selectedClaimRef.current;
+    const element = selected !== null ? root.querySelector(`[${CLAIM_ATTRIBUTE}="${selected}"]`) : null;
+    element?.classList.add('claim-selected');
+    selectedClaimRef.current = element ? selected : null;
+    setSelectedClaim(selectedClaimRef.current);
+  };
+
+  // Each render of the editor replaces its content, so highlights and marks are added again
+  const decorateEditor = (root: HTMLElement) => {
+    highlightPlaceholderFields(root);
+    recheckClaims(root);
+  };
+
+  const handleCloseVerification = () => {
+    if (editorRef.current) {
+      clearClaimMarks(editorRef.current);
+    }
+    claimSourceRef.current = null;
+    selectedClaimRef.current = null;
+    setClaimChecks(null);
+    setSelectedClaim(null);
+  };
+
+  const selectClaim = (index: number | null) => {
+    const editor = editorRef.current;
+    if (!editor) return;
+
+    editor.querySelectorAll('.claim-selected').forEach(element => element.classList.remove('claim-selected'));
+    const element = index !== null ? editor.querySelector(`[${CLAIM_ATTRIBUTE}="${index}"]`) : null;
+    element?.classList.add('claim-selected');
+    element?.scrollIntoView({ block: 'nearest' });
+    selectedClaimRef.current = element ? index : null;
+    setSelectedClaim(selectedClaimRef.current);
+  };
+
+  const handleEditorInput = () => {
+    setEditHint(null);
+    if (editorRef.current) {
+      refreshPlaceholderFields(editorRef.current);
+      recheckClaims(editorRef.current);
+    }
+    updateUnfilledFields();
+
     if (richTextEditorRef.current) {
       const html = richTextEditorRef.current.getHTML();
-      const text = richTextEditorRef.current.getText();
-      await onCopy(html, text);
+      editedHTMLRef.current = html;
+      onNoteChange(html, richTextEditorRef.current.getMarkdown());
+    }
+  };
+
+  const toggleSourceView = () => {
+    setActiveField(null);
+    setMarkdownSource(markdownSource === null ? soapMarkdown : null);
+  };
+
+  // Markdown typed in the source view is rendered into the editor as it changes
+  const handleMarkdownInput = (e: TargetedEvent<HTMLTextAreaElement>) => {
+    const markdown = e.currentTarget.value;
+    setMarkdownSource(markdown);
+    if (richTextEditorRef.current) {
+      richTextEditorRef.current.setHTML(renderMarkdown(markdown));
+      handleEditorInput();
+    }
+  };
+
+  // Clicking a highlighted field opens an input for it; clicking a checked line shows its evidence
+  const handleEditorClick = (e: MouseEvent) => {
+    if (claimChecks) {
+      const claim = (e.target as HTMLElement).closest(`[${CLAIM_ATTRIBUTE}]`);
+      selectClaim(claim ? Number(claim.getAttribute(CLAIM_ATTRIBUTE)) : null);
+    }
+
+    const field = (e.target as HTMLElement).closest<HTMLElement>(`.${PLACEHOLDER_FIELD_CLASS}`);
+    const placeholder = field && parsePlaceholder(field.textContent ?? '');
+    setActiveField(field && placeholder ? { element: field, placeholder } : null);
+  };
+
+  const handleFillField = (value: string) => {
+    if (activeField && richTextEditorRef.current) {
+      richTextEditorRef.current.replaceNodeWithText(
+        activeField.element,
+        formatPlaceholderValue(activeField.placeholder, value)
+      );
+    }
+    setActiveField(null);
+    updateUnfilledFields();
+  };
+
+  const handleInsertCalculation = (text: string) => {
+    richTextEditorRef.current?.insertTextAtCursor(text);
+  };
+
+  const handleEditCommand = async (command: NoteEditCommand) => {
+    const editor = richTextEditorRef.current;
+    const target = editor?.getEditRange();
+    if (!editor || !target) {
+      setEditHint('Select part of the note, or click inside a section, first.');
+      return;
+    }
+
+    const text = getNoteLines(target.html).join('\n');
+    if (!text.trim()) {
+      setEditHint('The selection has no text to rewrite.');
+      return;
+    }
+
+    setEditHint(null);
+    setEditingCommand(command);
+    // The range is only valid for the note as it is, so it can't be edited while waiting
+    editor.setReadOnly(true);
+    let html: string | null;
+    try {
+      html = await onEditNote(command, text, target.sectionTitle);
+    } finally {
+      editor.setReadOnly(false);
+      setEditingCommand(null);
+    }
+
+    if (html !== null && !editor.replaceRange(target, html)) {
+      setEditHint('The note was replaced while the edit was running, so the edit was not applied.');
+    }
+  };
+
+  // Note as exported: with unfilled fields left blank
+  const getExportHTML = () =>
+    clearPlaceholdersFromHTML(richTextEditorRef.current?.getHTML() ?? soapHTML);
+
+  // Whether to go ahead with copying text that has required fields left empty
+  const confirmUnfilled = (text: string, label?: string) => {
+    const unfilled = findUnfilledRequired(text);
+    return unfilled.length === 0 || confirm(
+      `Required fields${label ? ` in ${label}` : ''} are still empty: ${unfilled.map(p => p.label).join(', ')}.\n\nCopy anyway? Empty fields are copied as blanks.`
+    );
+  };
+
+  const handleCopy = async () => {
+    if (richTextEditorRef.current) {
+      if (!confirmUnfilled(richTextEditorRef.current.getText())) {
+        return;
+      }
+
+      await onCopy(getExportHTML());
+    }
+  };
+
+  // Copy one section without its heading, for a records field of its own
+  const copySection = async (index: number) => {
+    const editor = richTextEditorRef.current;
+    const section = splitNoteSections(editor?.getHTML() ?? soapHTML)[index];
+    if (!section) return;
+
+    const label = getSectionLabel(section);
+    if (!confirmUnfilled(getNoteLines(section.body).join('\n'), label)) {
+      return;
+    }
+
+    setNextSection(index + 1 < noteSections.length ? index + 1 : 0);
+    await onCopy(clearPlaceholdersFromHTML(section.body), label);
+  };
+
+  // Markdown as exported: written from the note with unfilled fields left blank
+  const handleCopyMarkdown = async () => {
+    const markdown = markdownSource ?? soapMarkdown;
+    if (!confirmUnfilled(markdown)) {
+      return;
     }
+
+    await onCopyMarkdown(htmlToMarkdown(clearPlaceholdersFromHTML(renderMarkdown(markdown))));
+  };
+
+  const copyNextSection = () => {
+    if (isGenerating || noteSections.length === 0) return;
+    copySection(nextSection < noteSections.length ? nextSection : 0);
   };
+  copyNextSectionRef.current = copyNextSection;
 
   return (
     <div className="soap-section">
@@ -82,7 +423,7 @@ export function AnalysisSection({
         </div>
       </div>
 
-      {isGenerating && (
+      {isGenerating && !hasContent && (
         <Loading message="Generating..." />
       )}
 
@@ -94,7 +435,7 @@ export function AnalysisSection({
             value={selectedTemplate}
             onChange={handleTemplateChange}
           >
-            {[...TEMPLATES.entries()].map(([id, template]) => (
+            {[...templates.entries()].map(([id, template]) => (
               <option key={id} value={id}>
                 {template.name}
               </option>
@@ -107,18 +448,85 @@ export function AnalysisSection({
             value={templateBody}
             onInput={(e: TargetedEvent<HTMLTextAreaElement>) => onPromptChange(systemPrompt, e.currentTarget.value)}
           />
+          <p className="help-text">
+            Fill-in fields: {'{{Name}}'}, {'{{Weight:number}}'}, {'{{Recheck:date}}'}, {'{{Side:choice(Left|Right)}}'}. Add ? after the name for optional fields.
+          </p>
+          <TemplateManager
+            isCustom={!!currentTemplate?.custom}
+            isModified={isTemplateModified}
+            onSaveAsNew={onSaveTemplateAsNew}
+            onOverwrite={onOverwriteTemplate}
+            onDelete={onDeleteTemplate}
+            onExport={onExportTemplates}
+            onImport={onImportTemplates}
+          />
+        </div>
+
+        <div className="generate-controls">
+          {isGenerating ? (
+            <Button
+              className="btn btn-danger"
+              onClick={onStopGeneration}
+            >
+              Stop
+            </Button>
+          ) : (
+            <Button
+              className="btn btn-primary"
+              onClick={onGenerateSOAP}
+              disabled={!isTranscriptReady}
+            >
+              {hasContent ? 'Regenerate' : 'Generate'}
+            </Button>
+          )}
+          <label
+            className="checkbox-label"
+            title={sectionCount > 0
+              ? `Return JSON with the template's ${sectionCount} "##" sections and flag any left empty`
+              : 'The template needs "##" section headings for structured output'}
+          >
+            <input
+              type="checkbox"
+              checked={structuredNotes && sectionCount > 0}
+              disabled={isGenerating || sectionCount === 0}
+              onChange={(e: TargetedEvent<HTMLInputElement>) => onStructuredNotesChange(e.currentTarget.checked)}
+            />
+            Structured output
+          </label>
+          {hasNoteEdits && (
+            <label
+              className="checkbox-label"
+              title="Sections you edited by hand are kept as they are; the rest of the note is regenerated"
+            >
+              <input
+                type="checkbox"
+                checked={keepEdits}
+                disabled={isGenerating}
+                onChange={(e: TargetedEvent<HTMLInputElement>) => onKeepEditsChange(e.currentTarget.checked)}
+              />
+              Keep my edits
+            </label>
+          )}
+          <Button
+            className="btn btn-small btn-secondary"
+            onClick={onOpenNoteHistory}
+            disabled={isGenerating || versionCount === 0}
+            title="Compare and restore earlier versions of the note"
+          >
+            {`History (${versionCount})`}
+          </Button>
         </div>
 
-        <Button
-          className="btn btn-primary"
-          onClick={onGenerateSOAP}
-          disabled={!isTranscriptReady || isGenerating}
-        >
-          {hasContent ? 'Regenerate' : 'Generate'}
-        </Button>
+        {noteIssues.length > 0 && (
+          <div className="note-issues">
+            {describeNoteIssues(noteIssues).map(message => (
+              <p key={message}>⚠️ {message}</p>
+            ))}
+          </div>
+        )}
 
         {/* Formatting Toolbar */}
-        <div id="soap-toolbar" className="editor-toolbar" ref={toolbarRef}>
+        <div id="soap-toolbar" className={`editor-toolbar ${isSourceView ? 'source-view' : ''}`} ref={toolbarRef}>
           <div className="toolbar-group">
             <button type="button" className="toolbar-btn" data-command="bold" title="Bold (Ctrl+B)">
               <strong>B</strong>
@@ -163,18 +571,154 @@ export function AnalysisSection({
               Clear Format
             </button>
           </div>
+          <div className="toolbar-separator"></div>
+          <div className="toolbar-group">
+            <button
+              type="button"
+              className="toolbar-btn"
+              title="Check each line of the note against the transcript"
+              onClick={checkClaims}
+              disabled={!hasContent || isGenerating || isSourceView || !transcript.trim()}
+            >
+              Check
+            </button>
+            <button
+              type="button"
+              className={`toolbar-btn ${showCalculators ? 'active' : ''}`}
+              title="Nutrition, fluid and dose calculators"
+              onClick={() => setShowCalculators(!showCalculators)}
+            >
+              Calculators
+            </button>
+            <button
+              type="button"
+              className={`toolbar-btn ${showSectionCopy ? 'active' : ''}`}
+              title="Copy the note one section at a time (Alt+Shift+C copies the next section)"
+              onClick={() => setShowSectionCopy(!showSectionCopy)}
+              disabled={!hasContent}
+            >
+              Sections
+            </button>
+            <button
+              type="button"
+              className={`toolbar-btn ${isSourceView ? 'active' : ''}`}
+              title="Show and edit the note as Markdown"
+              onClick={toggleSourceView}
+              disabled={isGenerating || (!hasContent && !isSourceView)}
+            >
+              Markdown
+            </button>
+          </div>
+          <div className="toolbar-separator"></div>
+          <div className="toolbar-group">
+            {EDIT_COMMANDS.map(({ command, label, title }) => (
+              <button
+                key={command}
+                type="button"
+                className={`toolbar-btn ${editingCommand === command ? 'active' : ''}`}
+                title={title}
+                // Keep the editor's selection when the button is pressed
+                onMouseDown={(e: MouseEvent) => e.preventDefault()}
+                onClick={() => handleEditCommand(command)}
+                disabled={!hasContent || isGenerating || isSourceView || editingCommand !== null || (command === 'regenerate' && !transcript.trim())}
+              >
+                {editingCommand === command ? 'Working...' : label}
+              </button>
+            ))}
+          </div>
         </div>
 
+        {editHint && (
+          <p className="help-text edit-hint">{editHint}</p>
+        )}
+
+        {showCalculators && (
+          <CalculatorPanel
+            key={`${patient.weight}${patient.weightUnit}${patient.species}`}
+            patient={patient}
+            onInsert={handleInsertCalculation}
+            onClose={() => setShowCalculators(false)}
+          />
+        )}
+
+        {showSectionCopy && hasContent && (
+          <SectionCopyPanel
+            sections={noteSections}
+            nextIndex={nextSection < noteSections.length ? nextSection : 0}
+            onCopy={copySection}
+            onCopyNext={copyNextSection}
+            onClose={() => setShowSectionCopy(false)}
+          />
+        )}
+
         {/* Editor */}
-        <div
-          id="soap-editor"
-          className="soap-editor"
-          contentEditable={true}
-          ref={editorRef}
-        ></div>
+        <div className="editor-body">
+          <div
+            id="soap-editor"
+            className="soap-editor"
+            contentEditable={true}
+            hidden={isSourceView}
+            ref={editorRef}
+            onInput={handleEditorInput}
+            onClick={handleEditorClick}
+          ></div>
+
+          {isSourceView && (
+            <textarea
+              className="input-field markdown-source"
+              aria-label="Note as Markdown"
+              spellcheck={false}
+              value={markdownSource}
+              onInput={handleMarkdownInput}
+            />
+          )}
+
+          {claimChecks && (
+            <VerificationPanel
+              checks={claimChecks}
+              selected={selectedClaim}
+              onSelect={selectClaim}
+              onRecheck={checkClaims}
+              onClose={handleCloseVerification}
+            />
+          )}
+        </div>
+
+        {activeField && (
+          <PlaceholderInput
+            key={activeField.placeholder.token}
+            placeholder={activeField.placeholder}
+            anchor={activeField.element.getBoundingClientRect()}
+            onSubmit={handleFillField}
+            onCancel={() => setActiveField(null)}
+          />
+        )}
 
         {/* Fixed footer with action buttons */}
         <div className="soap-footer">
+          {unfilledFields.length > 0 && (
+            <span className="unfilled-fields" title={unfilledFields.join(', ')}>
+              {unfilledFields.length} required field{unfilledFields.length === 1 ? '' : 's'} to fill in
+            </span>
+          )}
+          <Button className="btn btn-secondary" onClick={() => onPrint(getExportHTML())} disabled={!hasContent}>
+            Print
+          </Button>
+          <Button className="btn btn-secondary" onClick={() => onSavePDF(getExportHTML())} disabled={!hasContent}>
+            Save PDF
+          </Button>
+          <ExportProfileSelect value={exportProfile} onChange={onExportProfileChange} />
+          <Button className="btn btn-secondary" onClick={() => onPreviewExport(getExportHTML())} disabled={!hasContent}>
+            Preview
+          </Button>
+          <Button
+            className="btn btn-secondary"
+            onClick={handleCopyMarkdown}
+            disabled={!hasContent}
+            title="Copy the note as Markdown text"
+          >
+            Copy Markdown
+          </Button>
           <Button
             className="btn btn-primary"
             onClick={handleCopy}
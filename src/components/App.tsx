@@ -1,54 +1,338 @@
-import { useEffect, useState } from 'preact/hooks';
+import { useEffect, useRef, useState } from 'preact/hooks';
 import { Header } from './Header';
 import { AlertContainer } from './AlertContainer';
 import { TranscriptSection } from './TranscriptSection';
 import { AnalysisSection } from './AnalysisSection';
 import { SettingsModal } from './SettingsModal';
+import { SessionHistory } from './SessionHistory';
+import { RecoveryPrompt } from './RecoveryPrompt';
+import { LockScreen } from './LockScreen';
+import { PatientPanel } from './PatientPanel';
+import { NoteHistory } from './NoteHistory';
+import { DischargeSection } from './DischargeSection';
+import { ExportPreview } from './ExportPreview';
 import { Storage } from '../modules/storage';
-import { GeminiClient } from '../modules/gemini-client';
-import { AudioRecorder } from '../modules/audio-recorder';
-import { renderMarkdown } from '../utils/markdown-renderer';
-import { copyHTMLToClipboard } from '../utils/clipboard';
-import { AlertType, AppState } from '../types';
+import { SessionStore } from '../modules/session-store';
+import { TemplateLibrary } from '../modules/template-library';
+import { LLMProvider, PROVIDER_IDS, createProvider, createProviderFromSettings } from '../modules/llm-provider';
+import { AudioRecorder, DEFAULT_SEGMENT_SECONDS } from '../modules/audio-recorder';
+import { TranscriptionQueue } from '../modules/transcription-queue';
+import { RecordingBuffer } from '../modules/recording-buffer';
+import { Vault } from '../modules/vault';
+import { htmlToMarkdown, renderMarkdown } from '../utils/markdown-renderer';
+import { canCopyFormat, copyHTMLToClipboard, copyTextToClipboard } from '../utils/clipboard';
+import { getExportFileContent, getExportProfile } from '../utils/export-profiles';
+import { downloadFile, readFileAsText } from '../utils/download';
+import { PrintDocumentOptions, buildPrintDocument, createPDF, printDocument } from '../utils/print-export';
+import { createAudioSegment, fileToAudioSegment, getAudioExtension, sortAudioFiles, validateAudioFile } from '../utils/audio-files';
+import { exportAsWav } from '../utils/wav-encoder';
+import { describeNoteIssues, getTemplateSections, structuredNoteToMarkdown, validateStructuredNote } from '../utils/structured-note';
+import { createPatient, hasPatientDetails } from '../utils/patient';
+import { addNoteVersion, createNoteVersion, isSameNote, mergeNoteEdits } from '../utils/note-history';
+import { formatSpeakerTurns, getSpeakers, renameSpeakerInSegment, renameSpeakerInText } from '../utils/speakers';
+import { Abbreviation, AlertType, AppSettings, AppState, AudioSegment, DischargeInstructions, ExportProfileId, NoteEditCommand, NoteIssue, NoteRequest, NoteVersion, PatientInfo, ProviderId, ProviderOptions, SegmentProgress, Session, SessionSummary, Template, TemplateSection, UnfinishedRecording } from '../types';
 import { DEFAULT_PROMPT } from "../content/prompt";
-import { getTemplateById } from "../content/templates";
+import { DISCHARGE_PROMPT, DISCHARGE_TEMPLATES } from '../content/discharge';
+
+// Note a regeneration merges hand edits from: the version they were made to, and the edited note
+interface NoteMerge {
+  base: string;
+  edited: string;
+}
+
+type OutputTab = 'note' | 'discharge';
+
+function createDischarge(): DischargeInstructions {
+  return {
+    systemPrompt: DISCHARGE_PROMPT,
+    templateId: 'general',
+    templateBody: DISCHARGE_TEMPLATES.get('general')?.content ?? '',
+    markdown: '',
+    html: '',
+  };
+}
+
+// Interaction that counts as activity for the auto-lock timer
+const ACTIVITY_EVENTS = ['pointerdown', 'keydown', 'mousemove', 'wheel'] as const;
 
 export function App() {
   // Application state
   const [appState, setAppState] = useState<AppState>(AppState.IDLE);
   const [transcript, setTranscript] = useState<string>('');
   const [soapMarkdown, setSOAPMarkdown] = useState<string>('');
+  // The note as last rendered, for async handlers whose closures hold an older one
+  const soapMarkdownRef = useRef<string>('');
+  soapMarkdownRef.current = soapMarkdown;
   const [soapHTML, setSOAPHTML] = useState<string>('');
   const [selectedTemplate, setSelectedTemplate] = useState<string>('none');
   const [systemPrompt, setSystemPrompt] = useState<string>(DEFAULT_PROMPT);
   const [templateBody, setTemplateBody] = useState<string>('');
+  const [templates, setTemplates] = useState<Map<string, Template>>(() => TemplateLibrary.getAll());
+  // Unsaved template edits, kept per template while switching between them
+  const [templateDrafts, setTemplateDrafts] = useState<Record<string, string>>({});
+  const [audio, setAudio] = useState<AudioSegment[]>([]);
+  const [patient, setPatient] = useState<PatientInfo>(() => createPatient());
+  const [diarize, setDiarize] = useState<boolean>(() => Storage.getDiarizationEnabled());
+  const [structuredNotes, setStructuredNotes] = useState<boolean>(() => Storage.getStructuredNotesEnabled());
+  // Problems found in the last structured note
+  const [noteIssues, setNoteIssues] = useState<NoteIssue[]>([]);
+  const [noteVersions, setNoteVersions] = useState<NoteVersion[]>([]);
+  // Keep hand-edited sections when regenerating
+  const [keepEdits, setKeepEdits] = useState<boolean>(true);
+  const [discharge, setDischarge] = useState<DischargeInstructions>(() => createDischarge());
+  const [isGeneratingDischarge, setIsGeneratingDischarge] = useState<boolean>(false);
+  const [outputTab, setOutputTab] = useState<OutputTab>('note');
+
+  // Session state
+  const [session, setSession] = useState<Session>(() => SessionStore.create());
+  const [sessions, setSessions] = useState<SessionSummary[]>([]);
+  const saveTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Session as it is in the store, which is saved even once it has been cleared
+  const storedSessionIdRef = useRef<string | null>(null);
+  // The latest session is being read on startup; anything entered meanwhile is kept instead
+  const isRestoringRef = useRef<boolean>(false);
+  const changedWhileRestoringRef = useRef<boolean>(false);
+  const generationAbortRef = useRef<AbortController | null>(null);
+  const dischargeAbortRef = useRef<AbortController | null>(null);
+  const transcriptionQueueRef = useRef<TranscriptionQueue | null>(null);
+  const [transcriptionProgress, setTranscriptionProgress] = useState<SegmentProgress[]>([]);
+  const recordingIdRef = useRef<string | null>(null);
+  const [unfinishedRecording, setUnfinishedRecording] = useState<UnfinishedRecording | null>(null);
 
   // UI state
   const [alertMessage, setAlertMessage] = useState<string | null>(null);
   const [alertType, setAlertType] = useState<AlertType>('info');
   const [isSettingsOpen, setIsSettingsOpen] = useState<boolean>(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState<boolean>(false);
+  const [isNoteHistoryOpen, setIsNoteHistoryOpen] = useState<boolean>(false);
+  const [exportProfile, setExportProfile] = useState<ExportProfileId>(() => Storage.getExportProfile());
+  // Note or discharge instructions open in the export preview
+  const [exportPreview, setExportPreview] = useState<{ title: string; html: string } | null>(null);
+  const [isLocked, setIsLocked] = useState<boolean>(() => Vault.isEnabled() && !Vault.isUnlocked());
+  const [isIdle, setIsIdle] = useState<boolean>(false);
+  const [autoLockMinutes, setAutoLockMinutes] = useState<number>(() => Storage.getAutoLockMinutes());
 
   // Instances
-  const [geminiClient, setGeminiClient] = useState<GeminiClient | null>(null);
+  const [provider, setProvider] = useState<LLMProvider | null>(null);
   const [audioRecorder] = useState<AudioRecorder>(new AudioRecorder());
 
-  // Initialize on mount
+  // Initialize on mount; encrypted data has to wait for the passphrase
+  useEffect(() => {
+    if (!isLocked) {
+      initialize();
+    }
+  }, []);
+
+  // Lock an encrypted vault after a period without interaction
   useEffect(() => {
-    // Load API key and initialize client
-    const key = Storage.getApiKey();
+    if (isLocked || !Vault.isEnabled() || autoLockMinutes <= 0) {
+      return;
+    }
 
-    if (key) {
-      setGeminiClient(new GeminiClient(key));
+    let timer = setTimeout(() => setIsIdle(true), autoLockMinutes * 60 * 1000);
+    const handleActivity = () => {
+      clearTimeout(timer);
+      setIsIdle(false);
+      timer = setTimeout(() => setIsIdle(true), autoLockMinutes * 60 * 1000);
+    };
+
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, handleActivity, { passive: true }));
+    return () => {
+      clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, handleActivity));
+    };
+  }, [isLocked, autoLockMinutes]);
+
+  // Recording, transcription and generation are never interrupted; lock once they finish
+  useEffect(() => {
+    if (isIdle && !isLocked && !isBusy()) {
+      lock();
+    }
+  }, [isIdle, appState, isGeneratingDischarge]);
+
+  function initialize() {
+    // Load API key and initialize provider
+    const configured = createProviderFromSettings();
+
+    if (configured) {
+      setProvider(configured);
     } else {
-      showAlert('Please configure your Gemini API key in settings', 'warning');
+      showAlert('Please configure your API key in settings', 'warning');
       setIsSettingsOpen(true);
     }
 
     setSelectedTemplate('none');
-  }, []);
 
+    restoreLatestSession().then(checkForUnfinishedRecording);
+  }
+
+  async function handleUnlock(passphrase: string): Promise<boolean> {
+    if (!(await Vault.unlock(passphrase))) {
+      return false;
+    }
+    setIsLocked(false);
+    setIsIdle(false);
+    initialize();
+    return true;
+  }
+
+  /**
+   * Save, then drop every decrypted value from memory
+   */
+  async function lock() {
+    await flushSession();
+    Vault.lock();
+    applySession(SessionStore.create());
+    setProvider(null);
+    setSessions([]);
+    setUnfinishedRecording(null);
+    setIsHistoryOpen(false);
+    setIsSettingsOpen(false);
+    setIsLocked(true);
+  }
+
+  async function handleResetAllData() {
+    try {
+      await Storage.clearAllData();
+    } catch (error) {
+      console.error('Failed to clear data:', error);
+    }
+    window.location.reload();
+  }
+
+  // Autosave the current session shortly after any change
   useEffect(() => {
-  }, [appState, transcript, soapMarkdown, soapHTML, systemPrompt, templateBody]);
+    if (!shouldSaveSession()) {
+      return;
+    }
+    if (isRestoringRef.current) {
+      changedWhileRestoringRef.current = true;
+    }
+
+    if (saveTimerRef.current) {
+      clearTimeout(saveTimerRef.current);
+    }
+    saveTimerRef.current = setTimeout(() => {
+      saveTimerRef.current = null;
+      persistSession();
+    }, 1000);
+
+    return () => {
+      if (saveTimerRef.current) {
+        clearTimeout(saveTimerRef.current);
+      }
+    };
+  }, [appState, transcript, soapMarkdown, soapHTML, systemPrompt, selectedTemplate, templateBody, audio, patient, noteVersions, discharge, session.name]);
+
+  function hasSessionContent(): boolean {
+    return transcript.length > 0 || soapHTML.length > 0 || discharge.html.length > 0 || audio.length > 0
+      || hasPatientDetails(patient);
+  }
+
+  // A session is saved once it has content, and from then on even if it is cleared
+  function shouldSaveSession(): boolean {
+    return hasSessionContent() || storedSessionIdRef.current === session.id;
+  }
+
+  function buildSession(): Session {
+    return {
+      ...session,
+      transcript,
+      soap: soapMarkdown,
+      soapHTML,
+      systemPrompt,
+      templateId: selectedTemplate,
+      templateBody,
+      audio,
+      patient,
+      noteVersions,
+      discharge,
+      state: appState,
+    };
+  }
+
+  async function persistSession(): Promise<void> {
+    try {
+      await SessionStore.save(buildSession());
+      storedSessionIdRef.current = session.id;
+      await refreshSessions();
+    } catch (error) {
+      console.error('Failed to save session:', error);
+    }
+  }
+
+  // Save pending changes immediately, e.g. before switching sessions
+  async function flushSession(): Promise<void> {
+    if (saveTimerRef.current) {
+      clearTimeout(saveTimerRef.current);
+      saveTimerRef.current = null;
+    }
+    if (shouldSaveSession()) {
+      await persistSession();
+    }
+  }
+
+  async function refreshSessions(): Promise<void> {
+    setSessions(await SessionStore.list());
+  }
+
+  async function restoreLatestSession() {
+    isRestoringRef.current = true;
+    changedWhileRestoringRef.current = false;
+    try {
+      await SessionStore.purgeOlderThan(Storage.getSessionRetentionDays());
+
+      const latest = await SessionStore.getLatest();
+      isRestoringRef.current = false;
+      if (latest && !changedWhileRestoringRef.current) {
+        openStoredSession(latest);
+      }
+      await refreshSessions();
+    } catch (error) {
+      console.error('Failed to restore session:', error);
+    } finally {
+      isRestoringRef.current = false;
+    }
+  }
+
+  function openStoredSession(loaded: Session) {
+    storedSessionIdRef.current = loaded.id;
+    applySession(loaded);
+  }
+
+  function applySession(loaded: Session) {
+    setSession(loaded);
+    setTranscript(loaded.transcript ?? '');
+    // Sessions saved before edits were kept in Markdown may hold a stale copy
+    setSOAPMarkdown(loaded.soapHTML ? htmlToMarkdown(loaded.soapHTML) : loaded.soap ?? '');
+    setSOAPHTML(loaded.soapHTML ?? '');
+    setSystemPrompt(loaded.systemPrompt ?? DEFAULT_PROMPT);
+    setSelectedTemplate(loaded.templateId ?? 'none');
+    setTemplateBody(loaded.templateBody ?? '');
+    setTemplateDrafts({});
+    setAudio(loaded.audio ?? []);
+    setPatient(loaded.patient ?? createPatient());
+    setNoteVersions(loaded.noteVersions ?? []);
+    setDischarge(loaded.discharge ?? createDischarge());
+    setIsNoteHistoryOpen(false);
+    setNoteIssues([]);
+    setAppState(getRestoredState(loaded));
+  }
+
+  // In-flight states (recording, transcribing, generating) can't survive a reload
+  function getRestoredState(loaded: Session): AppState {
+    if (loaded.soapHTML) return AppState.ANALYSIS_READY;
+    if (loaded.transcript) return AppState.TRANSCRIPT_READY;
+    return AppState.IDLE;
+  }
+
+  function isBusy(): boolean {
+    return appState === AppState.RECORDING
+      || appState === AppState.PAUSED
+      || appState === AppState.TRANSCRIBING
+      || appState === AppState.GENERATING
+      || isGeneratingDischarge;
+  }
 
   function showAlert(message: string, type: AlertType = 'info') {
     setAlertMessage(message);
@@ -60,91 +344,678 @@ export function App() {
     }, 5000);
   }
 
+  /**
+   * Queue that transcribes segments with the current provider, reporting progress
+   */
+  function createTranscriptionQueue(): TranscriptionQueue | null {
+    if (!provider) {
+      showAlert('AI provider not configured', 'error');
+      return null;
+    }
+
+    const abbreviations = Storage.getAbbreviations();
+    const queue = new TranscriptionQueue(
+      segment => transcribeSegment(provider, segment, abbreviations),
+      setTranscriptionProgress
+    );
+    transcriptionQueueRef.current = queue;
+    setTranscriptionProgress([]);
+    return queue;
+  }
+
+  /**
+   * Transcribe one segment, in diarized mode if enabled, keeping the result on the segment
+   */
+  async function transcribeSegment(activeProvider: LLMProvider,
+                                   segment: AudioSegment,
+                                   abbreviations: Abbreviation[]): Promise<string> {
+    if (diarize) {
+      const turns = await activeProvider.transcribeAudioDiarized(segment.blob, segment.mimeType, abbreviations);
+      const text = formatSpeakerTurns(turns);
+      updateAudioSegment(segment.id, { text, turns });
+      return text;
+    }
+
+    const text = await activeProvider.transcribeAudio(segment.blob, segment.mimeType, abbreviations);
+    updateAudioSegment(segment.id, { text, turns: undefined });
+    return text;
+  }
+
+  // Speaker turns go on their own lines; plain segments continue the same paragraph
+  function joinSegmentTexts(texts: string[]): string {
+    return texts.filter(text => text.length > 0).join(diarize ? '\n' : ' ');
+  }
+
+  /**
+   * Put a segment's new transcription in place of its old text in the
+   * transcript, or after it if the old text can't be found
+   */
+  function replaceSegmentText(transcript: string, segment: AudioSegment, text: string): string {
+    const previous = segment.text ?? '';
+    // Earlier segments with the same text come before this one in the transcript
+    let skip = audio.slice(0, audio.findIndex(s => s.id === segment.id)).filter(s => s.text === previous).length;
+    let index = previous ? transcript.indexOf(previous) : -1;
+    while (index !== -1 && skip > 0) {
+      const next = transcript.indexOf(previous, index + previous.length);
+      if (next === -1) break;
+      index = next;
+      skip--;
+    }
+
+    if (index === -1) {
+      return transcript ? `${transcript}\n${text}` : text;
+    }
+    return transcript.slice(0, index) + text + transcript.slice(index + previous.length);
+  }
+
+  function finishTranscriptionQueue() {
+    transcriptionQueueRef.current = null;
+    setTranscriptionProgress([]);
+  }
+
   async function handleStartRecording(_getCursorPosition: () => number) {
     try {
+      // Segments are transcribed in the background while recording continues
+      const queue = createTranscriptionQueue();
+      if (!queue) return;
+
       await audioRecorder.initialize();
-      audioRecorder.start();
+
+      // Buffer raw audio to disk so a crash doesn't lose the recording
+      const recordingId = RecordingBuffer.begin();
+      const sessionId = session.id;
+      recordingIdRef.current = recordingId;
+
+      audioRecorder.start({
+        segmentSeconds: DEFAULT_SEGMENT_SECONDS,
+        onChunk: (chunk, segmentIndex, mimeType) => {
+          RecordingBuffer.appendChunk(recordingId, sessionId, segmentIndex, chunk, mimeType)
+            .catch(error => console.error('Failed to buffer audio chunk:', error));
+        },
+        onSegment: (recorded) => {
+          const segment = createAudioSegment(recorded, 'recording');
+          setAudio(prev => [...prev, segment]);
+          queue.add(segment);
+        },
+      });
       setAppState(AppState.RECORDING);
     } catch (error) {
+      finishTranscriptionQueue();
       const errorMsg = error instanceof Error ? error.message : 'Failed to start recording';
       showAlert(errorMsg, 'error');
     }
   }
 
+  function handlePauseRecording() {
+    try {
+      audioRecorder.pause();
+      setAppState(AppState.PAUSED);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Failed to pause recording';
+      showAlert(errorMsg, 'error');
+    }
+  }
+
+  function handleResumeRecording() {
+    try {
+      audioRecorder.resume();
+      setAppState(AppState.RECORDING);
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Failed to resume recording';
+      showAlert(errorMsg, 'error');
+    }
+  }
+
+  async function discardRecordingBuffer() {
+    const recordingId = recordingIdRef.current;
+    recordingIdRef.current = null;
+    if (recordingId) {
+      await RecordingBuffer.discard(recordingId).catch(error => console.error('Failed to discard audio buffer:', error));
+    }
+  }
+
+  /**
+   * Wait for every queued segment to be transcribed (or skipped), stitch them
+   * in order and insert the text at the cursor
+   */
+  async function insertQueuedTranscription(queue: TranscriptionQueue,
+                                           getCursorPosition: () => number,
+                                           setSelectionRange: (start: number, end: number) => void) {
+    const segmentTexts = await queue.close();
+    const cursorPos = getCursorPosition();
+    const joined = joinSegmentTexts(segmentTexts);
+    const transcribedText = diarize && cursorPos > 0 ? `\n${joined}` : joined;
+    finishTranscriptionQueue();
+
+    // Insert at cursor position instead of replacing
+    setTranscript(prev => prev.slice(0, cursorPos) + transcribedText + prev.slice(cursorPos));
+    setAppState(AppState.TRANSCRIPT_READY);
+
+    // Set cursor after inserted text
+    const newCursorPos = cursorPos + transcribedText.length;
+    setTimeout(() => {
+      setSelectionRange(newCursorPos, newCursorPos);
+    }, 0);
+  }
+
   async function handleStopRecording(getCursorPosition: () => number,
                                      setSelectionRange: (start: number, end: number) => void) {
     try {
-      const audioData = await audioRecorder.stop();
+      await audioRecorder.stop();
+      audioRecorder.cleanup();
       setAppState(AppState.TRANSCRIBING);
 
-      // Transcribe audio
-      if (!geminiClient) {
-        showAlert('Gemini client not initialized', 'error');
-        setAppState(AppState.IDLE);
-        return;
+      const queue = transcriptionQueueRef.current;
+      if (!queue) {
+        throw new Error('Transcription queue not initialized');
       }
 
-      const transcribedText = await geminiClient.transcribeAudio(
-        audioData.blob,
-        audioData.mimeType,
-      );
+      await insertQueuedTranscription(queue, getCursorPosition, setSelectionRange);
+      await discardRecordingBuffer();
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Transcription failed';
+      showAlert(errorMsg, 'error');
+      audioRecorder.cleanup();
+      finishTranscriptionQueue();
+      await discardRecordingBuffer();
+      setAppState(transcript ? AppState.TRANSCRIPT_READY : AppState.IDLE);
+    }
+  }
+
+  /**
+   * Transcribe uploaded audio files in name order and insert them like a recording
+   */
+  async function handleUploadFiles(files: File[],
+                                   getCursorPosition: () => number,
+                                   setSelectionRange: (start: number, end: number) => void) {
+    const errors = files.map(validateAudioFile).filter((error): error is string => error !== null);
+    if (errors.length > 0) {
+      showAlert(errors.join(' '), 'error');
+      return;
+    }
+
+    try {
+      const queue = createTranscriptionQueue();
+      if (!queue) return;
 
-      // Insert at cursor position instead of replacing
-      const cursorPos = getCursorPosition();
-      const before = transcript.slice(0, cursorPos);
-      const after = transcript.slice(cursorPos);
-      const newTranscript = before + transcribedText + after;
+      setAppState(AppState.TRANSCRIBING);
+      const uploads = await Promise.all(sortAudioFiles(files).map(fileToAudioSegment));
+      setAudio(prev => [...prev, ...uploads]);
+      uploads.forEach(upload => queue.add(upload));
 
-      setTranscript(newTranscript);
+      await insertQueuedTranscription(queue, getCursorPosition, setSelectionRange);
+    } catch (error) {
+      finishTranscriptionQueue();
+      const errorMsg = error instanceof Error ? error.message : 'Transcription failed';
+      showAlert(errorMsg, 'error');
+      setAppState(transcript ? AppState.TRANSCRIPT_READY : AppState.IDLE);
+    }
+  }
+
+  async function checkForUnfinishedRecording() {
+    try {
+      const [unfinished] = await RecordingBuffer.findUnfinished();
+      setUnfinishedRecording(unfinished ?? null);
+    } catch (error) {
+      console.error('Failed to check for unfinished recordings:', error);
+    }
+  }
+
+  /**
+   * Transcribe a recording left behind by a crash and append it to its session
+   */
+  async function handleRecoverRecording() {
+    const recovery = unfinishedRecording;
+    if (!recovery) return;
+    setUnfinishedRecording(null);
+
+    try {
+      if (recovery.sessionId !== session.id) {
+        const owner = await SessionStore.get(recovery.sessionId);
+        if (owner) {
+          await flushSession();
+          openStoredSession(owner);
+        }
+      }
+
+      const queue = createTranscriptionQueue();
+      if (!queue) return;
+
+      setAppState(AppState.TRANSCRIBING);
+      const segments = recovery.segments.map(recovered => createAudioSegment(recovered, 'recovery'));
+      setAudio(prev => [...prev, ...segments]);
+      segments.forEach(segment => queue.add(segment));
+
+      const segmentTexts = await queue.close();
+      const transcribedText = joinSegmentTexts(segmentTexts);
+      finishTranscriptionQueue();
+
+      setTranscript(prev => (prev ? `${prev}\n${transcribedText}` : transcribedText));
       setAppState(AppState.TRANSCRIPT_READY);
+      await RecordingBuffer.discard(recovery.recordingId);
+      showAlert('Recovered recording transcribed', 'success');
+    } catch (error) {
+      finishTranscriptionQueue();
+      const errorMsg = error instanceof Error ? error.message : 'Failed to recover recording';
+      showAlert(errorMsg, 'error');
+      setAppState(transcript ? AppState.TRANSCRIPT_READY : AppState.IDLE);
+    }
 
-      // Set cursor after inserted text
-      const newCursorPos = cursorPos + transcribedText.length;
-      setTimeout(() => {
-        setSelectionRange(newCursorPos, newCursorPos);
-      }, 0);
+    await checkForUnfinishedRecording();
+  }
 
-      // Cleanup
-      audioRecorder.cleanup();
+  async function handleDiscardRecovery() {
+    const recovery = unfinishedRecording;
+    setUnfinishedRecording(null);
+    if (recovery) {
+      await RecordingBuffer.discard(recovery.recordingId).catch(error => console.error('Failed to discard audio buffer:', error));
+      await checkForUnfinishedRecording();
+    }
+  }
+
+  function handleRetrySegment(index: number) {
+    transcriptionQueueRef.current?.retry(index);
+  }
+
+  function handleSkipSegment(index: number) {
+    transcriptionQueueRef.current?.skip(index);
+  }
+
+  function updateAudioSegment(id: string, changes: Partial<AudioSegment>) {
+    setAudio(prev => prev.map(segment => (segment.id === id ? { ...segment, ...changes } : segment)));
+  }
+
+  /**
+   * Transcribe a kept segment again, replacing its previous text in the
+   * transcript (or appending it if that text has since been edited away)
+   */
+  async function handleRetranscribeSegment(id: string) {
+    const segment = audio.find(s => s.id === id);
+    if (!segment) return;
+
+    if (!provider) {
+      showAlert('AI provider not configured', 'error');
+      return;
+    }
+
+    const previousState = appState;
+    try {
+      setAppState(AppState.TRANSCRIBING);
+      const text = await transcribeSegment(provider, segment, Storage.getAbbreviations());
+
+      setTranscript(prev => replaceSegmentText(prev, segment, text));
+      setAppState(previousState === AppState.IDLE ? AppState.TRANSCRIPT_READY : previousState);
+      showAlert('Segment transcribed again', 'success');
     } catch (error) {
       const errorMsg = error instanceof Error ? error.message : 'Transcription failed';
       showAlert(errorMsg, 'error');
-      setAppState(AppState.IDLE);
+      setAppState(previousState);
+    }
+  }
+
+  function getSegmentFileName(segment: AudioSegment, extension: string): string {
+    const index = audio.findIndex(s => s.id === segment.id) + 1;
+    const base = segment.name?.replace(/\.[^.]+$/, '') ?? `${session.name} - segment ${index}`;
+    return `${base}.${extension}`;
+  }
+
+  function handleDownloadSegment(id: string) {
+    const segment = audio.find(s => s.id === id);
+    if (segment) {
+      downloadFile(getSegmentFileName(segment, getAudioExtension(segment.mimeType)), segment.blob, segment.mimeType);
+    }
+  }
+
+  /**
+   * Export one segment, or every segment joined in order, as WAV
+   */
+  async function handleExportWav(id?: string) {
+    const segments = id ? audio.filter(s => s.id === id) : audio;
+    if (segments.length === 0) return;
+
+    try {
+      const wav = await exportAsWav(segments.map(s => s.blob));
+      const filename = id ? getSegmentFileName(segments[0], 'wav') : `${session.name}.wav`;
+      downloadFile(filename, wav, 'audio/wav');
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Failed to export audio';
+      showAlert(errorMsg, 'error');
     }
   }
 
+  function handleDeleteSegment(id: string) {
+    setAudio(prev => prev.filter(segment => segment.id !== id));
+  }
+
+  function handleDiarizeChange(enabled: boolean) {
+    setDiarize(enabled);
+    Storage.setDiarizationEnabled(enabled);
+  }
+
+  /**
+   * Rename a speaker throughout the transcript and the kept speaker turns;
+   * renaming to an existing label merges the two speakers
+   */
+  function handleRenameSpeaker(from: string, to: string) {
+    setTranscript(prev => renameSpeakerInText(prev, from, to));
+    setAudio(prev => prev.map(segment => renameSpeakerInSegment(segment, from, to)));
+  }
+
+  // Speakers that still label at least one transcript line
+  function getTranscriptSpeakers(): string[] {
+    return getSpeakers(audio).filter(speaker => transcript.includes(`${speaker}:`));
+  }
+
   async function handleGenerateNote() {
+    // Put back if generation fails or is stopped before any text arrives
+    const previous = { markdown: soapMarkdown, html: soapHTML };
+    let streamed = '';
+    const restorePreviousNote = () => {
+      setSOAPMarkdown(previous.markdown);
+      setSOAPHTML(previous.html);
+    };
+
     try {
       setAppState(AppState.GENERATING);
 
-      if (!geminiClient) {
-        showAlert('Gemini client not initialized', 'error');
+      if (!provider) {
+        showAlert('AI provider not configured', 'error');
         setAppState(AppState.TRANSCRIPT_READY);
         return;
       }
 
-      const soapText = await geminiClient.generateNote(
+      const controller = new AbortController();
+      generationAbortRef.current = controller;
+      setNoteIssues([]);
+
+      // Hand edits are saved as a version before the editor is overwritten
+      const latest = noteVersions[noteVersions.length - 1];
+      const edited = soapHTML;
+      const hasEdits = edited.length > 0 && (!latest || !isSameNote(latest.html, edited));
+      if (hasEdits) {
+        setNoteVersions(prev => addNoteVersion(prev, createNoteVersion(edited, 'edited', soapMarkdown)));
+      }
+      const merge = keepEdits && hasEdits && latest ? { base: latest.html, edited } : null;
+
+      const request: NoteRequest = {
         transcript,
         systemPrompt,
-        templateBody
+        templateContent: templateBody,
+        abbreviations: Storage.getAbbreviations(),
+        speakers: getTranscriptSpeakers(),
+        patient,
+      };
+
+      const sections = getTemplateSections(templateBody);
+      if (structuredNotes && sections.length > 0) {
+        await generateStructuredNote(provider, request, sections, controller.signal, merge);
+        return;
+      }
+
+      // Stream the note into the editor as it arrives
+      setSOAPMarkdown('');
+      setSOAPHTML('');
+      const soapText = await provider.generateNoteStream(
+        request,
+        (partial) => {
+          streamed = partial;
+          setSOAPMarkdown(partial);
+          setSOAPHTML(renderMarkdown(partial));
+        },
+        controller.signal
       );
 
-      setSOAPMarkdown(soapText);
-      const html = renderMarkdown(soapText);
+      if (!soapText) {
+        restorePreviousNote();
+        if (controller.signal.aborted) {
+          showAlert('Generation stopped', 'info');
+        } else {
+          showAlert('No note was generated', 'warning');
+        }
+        setAppState(previous.markdown ? AppState.ANALYSIS_READY : AppState.TRANSCRIPT_READY);
+      } else if (controller.signal.aborted) {
+        setSOAPMarkdown(soapText);
+        setSOAPHTML(renderMarkdown(soapText));
+        showAlert('Generation stopped', 'info');
+        setAppState(AppState.ANALYSIS_READY);
+      } else {
+        finishGeneratedNote(soapText, merge);
+        setAppState(AppState.ANALYSIS_READY);
+      }
+    } catch (error) {
+      const aborted = generationAbortRef.current?.signal.aborted ?? false;
+      if (aborted) {
+        showAlert('Generation stopped', 'info');
+      } else {
+        const errorMsg = error instanceof Error ? error.message : 'Generation failed';
+        showAlert(errorMsg, 'error');
+      }
+      // A stopped note keeps the text that streamed; a failed one is not kept
+      const kept = aborted ? streamed : '';
+      if (!kept) {
+        restorePreviousNote();
+      }
+      setAppState(kept || previous.markdown ? AppState.ANALYSIS_READY : AppState.TRANSCRIPT_READY);
+    } finally {
+      generationAbortRef.current = null;
+    }
+  }
+
+  /**
+   * Generate the note as JSON, check every template section was filled and
+   * only then render it into the editor
+   */
+  async function generateStructuredNote(activeProvider: LLMProvider,
+                                        request: NoteRequest,
+                                        sections: TemplateSection[],
+                                        signal: AbortSignal,
+                                        merge: NoteMerge | null) {
+    const raw = await activeProvider.generateStructuredNote(request, sections, signal);
+    if (signal.aborted) {
+      showAlert('Generation stopped', 'info');
+      setAppState(soapMarkdownRef.current ? AppState.ANALYSIS_READY : AppState.TRANSCRIPT_READY);
+      return;
+    }
+
+    const result = validateStructuredNote(raw, sections);
+    finishGeneratedNote(structuredNoteToMarkdown(result.sections), merge);
+    setNoteIssues(result.issues);
+    setAppState(AppState.ANALYSIS_READY);
+
+    if (result.issues.length > 0) {
+      showAlert(describeNoteIssues(result.issues).join('. '), 'warning');
+    }
+  }
+
+  /**
+   * Show a newly generated note and add it to the history, merging in the
+   * hand-edited sections of the previous note if asked to
+   */
+  function finishGeneratedNote(markdown: string, merge: NoteMerge | null) {
+    const html = renderMarkdown(markdown);
+    setSOAPMarkdown(markdown);
+    setNoteVersions(prev => addNoteVersion(prev, createNoteVersion(html, 'generated', markdown)));
+
+    if (!merge) {
       setSOAPHTML(html);
-      setAppState(AppState.ANALYSIS_READY);
+      return;
+    }
+
+    const merged = mergeNoteEdits(merge.base, merge.edited, html);
+    setSOAPHTML(merged.html);
+    setSOAPMarkdown(htmlToMarkdown(merged.html));
+    setNoteVersions(prev => addNoteVersion(prev, createNoteVersion(merged.html, 'merged', htmlToMarkdown(merged.html))));
+    if (merged.kept.length > 0) {
+      showAlert(`Kept your edits to: ${merged.kept.map(heading => heading || 'Introduction').join(', ')}`, 'info');
+    }
+  }
+
+  /**
+   * Rewrite part of the note with the provider
+   * @returns Replacement HTML, or null if the edit failed
+   */
+  async function handleEditNote(command: NoteEditCommand, text: string, sectionTitle?: string): Promise<string | null> {
+    if (!provider) {
+      showAlert('AI provider not configured', 'error');
+      return null;
+    }
+
+    try {
+      const markdown = await provider.editNote({
+        transcript,
+        systemPrompt,
+        templateContent: templateBody,
+        abbreviations: Storage.getAbbreviations(),
+        speakers: getTranscriptSpeakers(),
+        patient,
+        command,
+        text,
+        sectionTitle,
+      });
+      return renderMarkdown(markdown);
     } catch (error) {
-      const errorMsg = error instanceof Error ? error.message : 'Generation failed';
+      const errorMsg = error instanceof Error ? error.message : 'Edit failed';
       showAlert(errorMsg, 'error');
-      setAppState(AppState.TRANSCRIPT_READY);
+      return null;
+    }
+  }
+
+  function handleNoteChange(html: string, markdown: string) {
+    setSOAPHTML(html);
+    setSOAPMarkdown(markdown);
+  }
+
+  /**
+   * Put an earlier version back in the editor, saving the current note first
+   */
+  function handleRestoreVersion(id: string) {
+    const version = noteVersions.find(v => v.id === id);
+    if (!version) return;
+
+    setNoteVersions(prev => addNoteVersion(
+      addNoteVersion(prev, createNoteVersion(soapHTML, 'edited', soapMarkdown)),
+      createNoteVersion(version.html, 'restored', version.markdown)
+    ));
+    setSOAPMarkdown(version.markdown ?? htmlToMarkdown(version.html));
+    setSOAPHTML(version.html);
+    setNoteIssues([]);
+    setAppState(AppState.ANALYSIS_READY);
+    setIsNoteHistoryOpen(false);
+    showAlert('Version restored', 'success');
+  }
+
+  function handleStructuredNotesChange(enabled: boolean) {
+    setStructuredNotes(enabled);
+    Storage.setStructuredNotesEnabled(enabled);
+  }
+
+  function handleStopGeneration() {
+    generationAbortRef.current?.abort();
+  }
+
+  async function handleGenerateDischarge() {
+    if (!provider) {
+      showAlert('AI provider not configured', 'error');
+      return;
+    }
+
+    const controller = new AbortController();
+    dischargeAbortRef.current = controller;
+    setIsGeneratingDischarge(true);
+
+    // Put back if generation fails or is stopped before any text arrives
+    const previous = { markdown: discharge.markdown, html: discharge.html };
+    let streamed = '';
+    const restorePreviousDischarge = () => setDischarge(prev => ({ ...prev, ...previous }));
+
+    const request: NoteRequest = {
+      transcript,
+      systemPrompt: discharge.systemPrompt,
+      templateContent: discharge.templateBody,
+      // Owners get terms spelled out, so the record's abbreviations aren't used
+      abbreviations: [],
+      speakers: getTranscriptSpeakers(),
+      patient,
+    };
+
+    try {
+      setDischarge(prev => ({ ...prev, markdown: '', html: '' }));
+      const markdown = await provider.generateNoteStream(
+        request,
+        (partial) => {
+          streamed = partial;
+          setDischarge(prev => ({ ...prev, markdown: partial, html: renderMarkdown(partial) }));
+        },
+        controller.signal
+      );
+      if (markdown) {
+        setDischarge(prev => ({ ...prev, markdown, html: renderMarkdown(markdown) }));
+      } else {
+        restorePreviousDischarge();
+      }
+      if (controller.signal.aborted) {
+        showAlert('Generation stopped', 'info');
+      } else if (!markdown) {
+        showAlert('No instructions were generated', 'warning');
+      }
+    } catch (error) {
+      if (controller.signal.aborted) {
+        showAlert('Generation stopped', 'info');
+      } else {
+        const errorMsg = error instanceof Error ? error.message : 'Generation failed';
+        showAlert(errorMsg, 'error');
+      }
+      // A stopped discharge keeps the text that streamed; a failed one is not kept
+      if (!controller.signal.aborted || !streamed) {
+        restorePreviousDischarge();
+      }
+    } finally {
+      dischargeAbortRef.current = null;
+      setIsGeneratingDischarge(false);
     }
   }
 
-  async function handleCopySOAP(html: string, text: string) {
+  function handleDischargeTemplateChange(templateId: string) {
+    setDischarge(prev => ({
+      ...prev,
+      templateId,
+      templateBody: DISCHARGE_TEMPLATES.get(templateId)?.content ?? '',
+    }));
+  }
+
+  function getExportOptions(title: string, html: string): PrintDocumentOptions {
+    return { title, html, patient, letterhead: Storage.getLetterhead() };
+  }
+
+  function getExportFilename(title: string, extension: string): string {
+    return `${title} - ${patient.name.trim() || session.name}.${extension}`;
+  }
+
+  function handlePrint(title: string, html: string) {
+    printDocument(buildPrintDocument(getExportOptions(title, html)));
+  }
+
+  async function handleSavePDF(title: string, html: string) {
+    try {
+      downloadFile(getExportFilename(title, 'pdf'), await createPDF(getExportOptions(title, html)));
+    } catch (error) {
+      console.error('PDF export failed:', error);
+      showAlert('Failed to create PDF', 'error');
+    }
+  }
+
+  function handleDownloadDischarge(html: string) {
+    const title = 'Discharge Instructions';
+    downloadFile(getExportFilename(title, 'html'), buildPrintDocument(getExportOptions(title, html)), 'text/html');
+  }
+
+  async function handleCopySOAP(html: string, label?: string) {
     try {
-      const success = await copyHTMLToClipboard(html, text);
-      if (success) {
-        showAlert('Copied to clipboard!', 'success');
+      const success = await copyHTMLToClipboard(html, exportProfile);
+      if (success && exportProfile === 'rtf' && !canCopyFormat('text/rtf')) {
+        showAlert('This browser cannot copy RTF, so plain text was copied. Save the RTF file from the preview instead.', 'warning');
+      } else if (success) {
+        showAlert(label ? `Copied ${label} to clipboard!` : 'Copied to clipboard!', 'success');
       } else {
         showAlert('Failed to copy to clipboard', 'error');
       }
@@ -153,6 +1024,24 @@ export function App() {
     }
   }
 
+  async function handleCopyMarkdown(markdown: string) {
+    if (await copyTextToClipboard(markdown)) {
+      showAlert('Copied Markdown to clipboard!', 'success');
+    } else {
+      showAlert('Failed to copy to clipboard', 'error');
+    }
+  }
+
+  function handleExportProfileChange(profile: ExportProfileId) {
+    setExportProfile(profile);
+    Storage.setExportProfile(profile);
+  }
+
+  function handleDownloadExport(title: string, html: string) {
+    const profile = getExportProfile(exportProfile);
+    downloadFile(getExportFilename(title, profile.extension), getExportFileContent(profile.format(html)), profile.mimeType);
+  }
+
   function handleSettingsOpen() {
     setIsSettingsOpen(true);
   }
@@ -161,22 +1050,196 @@ export function App() {
     setIsSettingsOpen(false);
   }
 
-  function handleSettingsSave(newApiKey: string) {
-    Storage.setApiKey(newApiKey);
+  function handleSettingsSave(settings: AppSettings) {
+    PROVIDER_IDS.forEach(id => Storage.setApiKey(settings.apiKeys[id], id));
+    Storage.setProviderSettings(settings.providerSettings);
+    Storage.setSessionRetentionDays(settings.sessionRetentionDays);
+    Storage.setAbbreviations(settings.abbreviations);
+    Storage.setAutoLockMinutes(settings.autoLockMinutes);
+    Storage.setLetterhead(settings.letterhead);
+    setAutoLockMinutes(Storage.getAutoLockMinutes());
 
-    setGeminiClient(new GeminiClient(newApiKey));
+    setProvider(createProviderFromSettings());
 
     showAlert('Settings saved!', 'success');
   }
 
+  async function handleEnableEncryption(passphrase: string): Promise<boolean> {
+    try {
+      await flushSession();
+      await Storage.enableEncryption(passphrase);
+      showAlert('Encryption enabled', 'success');
+      return true;
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Failed to enable encryption';
+      showAlert(errorMsg, 'error');
+      return false;
+    }
+  }
+
+  async function handleDisableEncryption(): Promise<boolean> {
+    try {
+      await flushSession();
+      await Storage.disableEncryption();
+      showAlert('Encryption disabled', 'success');
+      return true;
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Failed to disable encryption';
+      showAlert(errorMsg, 'error');
+      return false;
+    }
+  }
+
+  async function handleLockNow() {
+    if (isBusy()) {
+      showAlert('Finish the current recording or generation first', 'warning');
+      return;
+    }
+    await lock();
+  }
+
+  async function handleNewSession() {
+    if (isBusy()) {
+      showAlert('Finish the current recording or generation first', 'warning');
+      return;
+    }
+    await flushSession();
+    applySession(SessionStore.create());
+    setIsHistoryOpen(false);
+  }
+
+  async function handleOpenSession(id: string) {
+    if (isBusy()) {
+      showAlert('Finish the current recording or generation first', 'warning');
+      return;
+    }
+    try {
+      await flushSession();
+      const loaded = await SessionStore.get(id);
+      if (!loaded) {
+        showAlert('Session not found', 'error');
+        return;
+      }
+      openStoredSession(loaded);
+      setIsHistoryOpen(false);
+    } catch (error) {
+      showAlert('Failed to open session', 'error');
+    }
+  }
+
+  async function handleRenameSession(id: string, name: string) {
+    try {
+      if (id === session.id) {
+        setSession(prev => ({ ...prev, name }));
+      }
+      await SessionStore.rename(id, name);
+      await refreshSessions();
+    } catch (error) {
+      // The current session may not have been saved yet
+      if (id !== session.id) {
+        showAlert('Failed to rename session', 'error');
+      }
+    }
+  }
+
+  async function handleDuplicateSession(id: string) {
+    try {
+      await flushSession();
+      await SessionStore.duplicate(id);
+      await refreshSessions();
+    } catch (error) {
+      showAlert('Failed to duplicate session', 'error');
+    }
+  }
+
+  async function handleDeleteSession(id: string) {
+    try {
+      await SessionStore.delete(id);
+      if (id === session.id) {
+        if (saveTimerRef.current) {
+          clearTimeout(saveTimerRef.current);
+          saveTimerRef.current = null;
+        }
+        applySession(SessionStore.create());
+      }
+      await refreshSessions();
+    } catch (error) {
+      showAlert('Failed to delete session', 'error');
+    }
+  }
+
   function handleTemplateChange(templateId: string) {
+    const drafts = { ...templateDrafts };
+    if (templateBody !== (templates.get(selectedTemplate)?.content ?? '')) {
+      drafts[selectedTemplate] = templateBody;
+    } else {
+      delete drafts[selectedTemplate];
+    }
+    setTemplateDrafts(drafts);
+
     setSelectedTemplate(templateId);
-    setTemplateBody(getTemplateById(templateId)?.content ?? '');
+    setTemplateBody(drafts[templateId] ?? templates.get(templateId)?.content ?? '');
+  }
+
+  function clearTemplateDraft(templateId: string) {
+    setTemplateDrafts(prev => {
+      const { [templateId]: _discarded, ...rest } = prev;
+      return rest;
+    });
+  }
+
+  function handleSaveTemplateAsNew(name: string) {
+    try {
+      const id = TemplateLibrary.create(name, templateBody);
+      clearTemplateDraft(selectedTemplate);
+      setTemplates(TemplateLibrary.getAll());
+      setSelectedTemplate(id);
+      showAlert(`Template "${name}" saved`, 'success');
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Failed to save template';
+      showAlert(errorMsg, 'error');
+    }
+  }
+
+  function handleOverwriteTemplate() {
+    try {
+      TemplateLibrary.update(selectedTemplate, templateBody);
+      clearTemplateDraft(selectedTemplate);
+      setTemplates(TemplateLibrary.getAll());
+      showAlert('Template saved', 'success');
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Failed to save template';
+      showAlert(errorMsg, 'error');
+    }
+  }
+
+  function handleDeleteTemplate() {
+    TemplateLibrary.delete(selectedTemplate);
+    clearTemplateDraft(selectedTemplate);
+    setTemplates(TemplateLibrary.getAll());
+    setSelectedTemplate('none');
+    setTemplateBody('');
+    showAlert('Template deleted', 'success');
   }
 
-  async function handleTestApiKey(testKey: string): Promise<boolean> {
+  function handleExportTemplates() {
+    downloadFile('templates.json', TemplateLibrary.exportJSON(), 'application/json');
+  }
+
+  async function handleImportTemplates(file: File) {
     try {
-      const client = new GeminiClient(testKey);
+      const count = TemplateLibrary.importJSON(await readFileAsText(file));
+      setTemplates(TemplateLibrary.getAll());
+      showAlert(`Imported ${count} template(s)`, 'success');
+    } catch (error) {
+      const errorMsg = error instanceof Error ? error.message : 'Failed to import templates';
+      showAlert(errorMsg, 'error');
+    }
+  }
+
+  async function handleTestApiKey(id: ProviderId, testKey: string, options: ProviderOptions): Promise<boolean> {
+    try {
+      const client = createProvider(id, testKey, options);
       return await client.testApiKey();
     } catch (error) {
       return false;
@@ -185,7 +1248,10 @@ export function App() {
 
   return (
     <div className="app-container">
-      <Header onSettingsClick={handleSettingsOpen} />
+      <Header
+        onSettingsClick={handleSettingsOpen}
+        onHistoryClick={() => setIsHistoryOpen(!isHistoryOpen)}
+      />
 
       <AlertContainer
         message={alertMessage}
@@ -193,43 +1259,185 @@ export function App() {
         onClose={() => setAlertMessage(null)}
       />
 
+      {unfinishedRecording && (
+        <RecoveryPrompt
+          recording={unfinishedRecording}
+          onRecover={handleRecoverRecording}
+          onDiscard={handleDiscardRecovery}
+        />
+      )}
+
       <div className="two-column-layout">
         <div className="left-column">
+          <PatientPanel
+            key={session.id}
+            patient={patient}
+            onChange={setPatient}
+          />
           <TranscriptSection
             appState={appState}
             transcript={transcript}
             onTranscriptChange={setTranscript}
             onStartRecording={handleStartRecording}
             onStopRecording={handleStopRecording}
+            onPauseRecording={handlePauseRecording}
+            onResumeRecording={handleResumeRecording}
+            onUploadFiles={handleUploadFiles}
+            transcriptionProgress={transcriptionProgress}
+            onRetrySegment={handleRetrySegment}
+            onSkipSegment={handleSkipSegment}
+            audio={audio}
+            onRetranscribeSegment={handleRetranscribeSegment}
+            onDownloadSegment={handleDownloadSegment}
+            onExportWav={handleExportWav}
+            onDeleteSegment={handleDeleteSegment}
+            diarize={diarize}
+            onDiarizeChange={handleDiarizeChange}
+            speakers={getTranscriptSpeakers()}
+            onRenameSpeaker={handleRenameSpeaker}
           />
         </div>
 
         <div className="right-column">
-          <AnalysisSection
-            appState={appState}
-            soapHTML={soapHTML}
-            selectedTemplate={selectedTemplate}
-            systemPrompt={systemPrompt}
-            templateBody={templateBody}
-            onPromptChange={
-              (systemPrompt, templateBody) => {
-                setSystemPrompt(systemPrompt);
-                setTemplateBody(templateBody);
+          <div className="output-tabs" role="tablist">
+            <button
+              type="button"
+              role="tab"
+              aria-selected={outputTab === 'note'}
+              className={`output-tab ${outputTab === 'note' ? 'active' : ''}`}
+              onClick={() => setOutputTab('note')}
+            >
+              Medical Record
+            </button>
+            <button
+              type="button"
+              role="tab"
+              aria-selected={outputTab === 'discharge'}
+              className={`output-tab ${outputTab === 'discharge' ? 'active' : ''}`}
+              onClick={() => setOutputTab('discharge')}
+            >
+              Discharge Instructions
+            </button>
+          </div>
+
+          {/* Both stay mounted so each editor keeps its undo history for the session */}
+          <div className="output-panel" hidden={outputTab !== 'note'}>
+            <AnalysisSection
+              key={session.id}
+              appState={appState}
+              transcript={transcript}
+              soapHTML={soapHTML}
+              soapMarkdown={soapMarkdown}
+              templates={templates}
+              selectedTemplate={selectedTemplate}
+              systemPrompt={systemPrompt}
+              templateBody={templateBody}
+              onPromptChange={
+                (systemPrompt, templateBody) => {
+                  setSystemPrompt(systemPrompt);
+                  setTemplateBody(templateBody);
+                }
               }
-            }
-            onTemplateChange={handleTemplateChange}
-            onGenerateSOAP={handleGenerateNote}
-            onCopy={handleCopySOAP}
-          />
+              onTemplateChange={handleTemplateChange}
+              onSaveTemplateAsNew={handleSaveTemplateAsNew}
+              onOverwriteTemplate={handleOverwriteTemplate}
+              onDeleteTemplate={handleDeleteTemplate}
+              onExportTemplates={handleExportTemplates}
+              onImportTemplates={handleImportTemplates}
+              structuredNotes={structuredNotes}
+              onStructuredNotesChange={handleStructuredNotesChange}
+              noteIssues={noteIssues}
+              onNoteChange={handleNoteChange}
+              onEditNote={handleEditNote}
+              hasNoteEdits={soapHTML.length > 0 && noteVersions.length > 0 && soapHTML !== noteVersions[noteVersions.length - 1].html}
+              keepEdits={keepEdits}
+              onKeepEditsChange={setKeepEdits}
+              versionCount={noteVersions.length}
+              onOpenNoteHistory={() => setIsNoteHistoryOpen(true)}
+              patient={patient}
+              onGenerateSOAP={handleGenerateNote}
+              onStopGeneration={handleStopGeneration}
+              exportProfile={exportProfile}
+              onExportProfileChange={handleExportProfileChange}
+              onPreviewExport={(html) => setExportPreview({ title: 'Medical Record', html })}
+              onCopy={handleCopySOAP}
+              onCopyMarkdown={handleCopyMarkdown}
+              onPrint={(html) => handlePrint('Medical Record', html)}
+              onSavePDF={(html) => handleSavePDF('Medical Record', html)}
+            />
+          </div>
+          <div className="output-panel" hidden={outputTab !== 'discharge'}>
+            <DischargeSection
+              key={session.id}
+              html={discharge.html}
+              templates={DISCHARGE_TEMPLATES}
+              selectedTemplate={discharge.templateId}
+              systemPrompt={discharge.systemPrompt}
+              templateBody={discharge.templateBody}
+              isGenerating={isGeneratingDischarge}
+              canGenerate={transcript.trim().length > 0}
+              onPromptChange={
+                (systemPrompt, templateBody) => setDischarge(prev => ({ ...prev, systemPrompt, templateBody }))
+              }
+              onTemplateChange={handleDischargeTemplateChange}
+              onGenerate={handleGenerateDischarge}
+              onStop={() => dischargeAbortRef.current?.abort()}
+              onChange={(html) => setDischarge(prev => ({ ...prev, html }))}
+              exportProfile={exportProfile}
+              onExportProfileChange={handleExportProfileChange}
+              onPreviewExport={(html) => setExportPreview({ title: 'Discharge Instructions', html })}
+              onCopy={handleCopySOAP}
+              onPrint={(html) => handlePrint('Discharge Instructions', html)}
+              onSavePDF={(html) => handleSavePDF('Discharge Instructions', html)}
+              onDownload={handleDownloadDischarge}
+            />
+          </div>
         </div>
       </div>
 
+      <SessionHistory
+        isOpen={isHistoryOpen}
+        sessions={sessions}
+        currentSessionId={session.id}
+        onClose={() => setIsHistoryOpen(false)}
+        onNew={handleNewSession}
+        onOpen={handleOpenSession}
+        onRename={handleRenameSession}
+        onDuplicate={handleDuplicateSession}
+        onDelete={handleDeleteSession}
+      />
+
+      <NoteHistory
+        isOpen={isNoteHistoryOpen}
+        versions={noteVersions}
+        currentHTML={soapHTML}
+        onRestore={handleRestoreVersion}
+        onClose={() => setIsNoteHistoryOpen(false)}
+      />
+
+      <ExportPreview
+        isOpen={exportPreview !== null}
+        html={exportPreview?.html ?? ''}
+        profileId={exportProfile}
+        onProfileChange={handleExportProfileChange}
+        onCopy={() => handleCopySOAP(exportPreview?.html ?? '')}
+        onDownload={() => exportPreview && handleDownloadExport(exportPreview.title, exportPreview.html)}
+        onClose={() => setExportPreview(null)}
+      />
+
       <SettingsModal
         isOpen={isSettingsOpen}
         onClose={handleSettingsClose}
         onSave={handleSettingsSave}
         onTestApiKey={handleTestApiKey}
+        onEnableEncryption={handleEnableEncryption}
+        onDisableEncryption={handleDisableEncryption}
+        onLock={handleLockNow}
       />
+
+      {isLocked && (
+        <LockScreen onUnlock={handleUnlock} onReset={handleResetAllData} />
+      )}
     </div>
   );
 }
@@ -0,0 +1,112 @@
+/**
+ * Audio kept with the session, one player per recorded or uploaded segment
+ */
+
+import { useEffect, useState } from 'preact/hooks';
+import { Button } from './shared/Button';
+import { AudioSegment } from '../types';
+
+interface AudioSegmentListProps {
+  audio: AudioSegment[];
+  disabled: boolean;
+  onRetranscribe: (id: string) => void;
+  onDownload: (id: string) => void;
+  onExportWav: (id?: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const SOURCE_LABELS: Record<AudioSegment['source'], string> = {
+  recording: 'Recording',
+  upload: 'Upload',
+  recovery: 'Recovered',
+};
+
+export function AudioSegmentList({
+  audio,
+  disabled,
+  onRetranscribe,
+  onDownload,
+  onExportWav,
+  onDelete
+}: AudioSegmentListProps) {
+  const [isExpanded, setIsExpanded] = useState<boolean>(false);
+  const [urls, setUrls] = useState<Record<string, string>>({});
+
+  // Object URLs are only created while the list is open and released when it closes
+  useEffect(() => {
+    if (!isExpanded) return;
+
+    const created = Object.fromEntries(audio.map(segment => [segment.id, URL.createObjectURL(segment.blob)]));
+    setUrls(created);
+    return () => Object.values(created).forEach(url => URL.revokeObjectURL(url));
+  }, [isExpanded, audio]);
+
+  if (audio.length === 0) {
+    return null;
+  }
+
+  const totalSeconds = audio.reduce((total, segment) => total + segment.duration, 0);
+
+  const formatDuration = (seconds: number): string => {
+    const rounded = Math.round(seconds);
+    return `${Math.floor(rounded / 60)}:${String(rounded % 60).padStart(2, '0')}`;
+  };
+
+  const handleDelete = (id: string) => {
+    if (confirm('Delete this audio segment? Its transcript text is kept.')) {
+      onDelete(id);
+    }
+  };
+
+  return (
+    <div className="audio-segments">
+      <div className="audio-segments-header">
+        <button
+          type="button"
+          className="audio-segments-toggle"
+          onClick={() => setIsExpanded(!isExpanded)}
+          aria-expanded={isExpanded}
+        >
+          {isExpanded ? '▾' : '▸'} Audio ({audio.length} segment{audio.length === 1 ? '' : 's'}, {formatDuration(totalSeconds)})
+        </button>
+        {isExpanded && (
+          <Button className="btn btn-small btn-secondary" onClick={() => onExportWav()} disabled={disabled}>
+            Export All as WAV
+          </Button>
+        )}
+      </div>
+
+      {isExpanded && (
+        <ul className="audio-segment-list">
+          {audio.map((segment, index) => (
+            <li key={segment.id} className="audio-segment">
+              <div className="audio-segment-info">
+                <span className="audio-segment-name">
+                  {segment.name ?? `Segment ${index + 1}`}
+                </span>
+                <span className="audio-segment-meta">
+                  {SOURCE_LABELS[segment.source]} · {formatDuration(segment.duration)} · {new Date(segment.createdAt).toLocaleTimeString()}
+                </span>
+              </div>
+              {urls[segment.id] && <audio controls preload="none" src={urls[segment.id]}></audio>}
+              <div className="audio-segment-actions">
+                <Button className="btn btn-small btn-secondary" onClick={() => onRetranscribe(segment.id)} disabled={disabled}>
+                  Re-transcribe
+                </Button>
+                <Button className="btn btn-small btn-secondary" onClick={() => onDownload(segment.id)}>
+                  Download
+                </Button>
+                <Button className="btn btn-small btn-secondary" onClick={() => onExportWav(segment.id)} disabled={disabled}>
+                  WAV
+                </Button>
+                <Button className="btn btn-small btn-secondary" onClick={() => handleDelete(segment.id)} disabled={disabled}>
+                  Delete
+                </Button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
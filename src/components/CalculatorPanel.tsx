@@ -0,0 +1,338 @@
+/**
+ * Nutrition, fluid and dosing calculators; results are inserted into the
+ * note at the cursor
+ */
+
+import { useState } from 'preact/hooks';
+import { TargetedEvent } from 'preact';
+import { Button } from './shared/Button';
+import { PatientInfo } from '../types';
+import { DIETS } from '../content/diets';
+import { FORMULARY } from '../content/formulary';
+import {
+  MER_FACTORS,
+  calculateDose,
+  calculateFeeding,
+  calculateFluidRate,
+  calculateRER,
+  feedingsPerDay,
+  formatKg,
+  getPatientWeightKg
+} from '../utils/calculators';
+
+type CalculatorTab = 'nutrition' | 'fluids' | 'dosing';
+
+const RER_FRACTIONS = [
+  { label: '1/4', value: 0.25 },
+  { label: '1/3', value: 1 / 3 },
+  { label: '1/2', value: 0.5 },
+  { label: '2/3', value: 2 / 3 },
+  { label: '3/4', value: 0.75 },
+  { label: 'Full', value: 1 },
+];
+
+const FEEDING_INTERVALS = [2, 4, 6, 8];
+
+const CUSTOM_DRUG = 'custom';
+
+interface CalculatorPanelProps {
+  patient: PatientInfo;
+  onInsert: (text: string) => void;
+  onClose: () => void;
+}
+
+function parsePositive(text: string): number | undefined {
+  const value = parseFloat(text);
+  return Number.isFinite(value) && value > 0 ? value : undefined;
+}
+
+function parseNonNegative(text: string): number {
+  const value = parseFloat(text);
+  return Number.isFinite(value) && value > 0 ? value : 0;
+}
+
+export function CalculatorPanel({ patient, onInsert, onClose }: CalculatorPanelProps) {
+  const patientWeightKg = getPatientWeightKg(patient);
+  const [tab, setTab] = useState<CalculatorTab>('nutrition');
+  const [weightText, setWeightText] = useState<string>(
+    patientWeightKg !== undefined ? String(Math.round(patientWeightKg * 100) / 100) : ''
+  );
+  const [isCat, setIsCat] = useState<boolean>(/feline|cat/i.test(patient.species));
+
+  // Nutrition
+  const [merFactor, setMerFactor] = useState<number>(0);
+  const [fraction, setFraction] = useState<number>(0);
+  const [feedingInterval, setFeedingInterval] = useState<number>(4);
+  const [dietIndex, setDietIndex] = useState<number>(0);
+
+  // Fluids
+  const [dehydrationText, setDehydrationText] = useState<string>('0');
+  const [replaceHoursText, setReplaceHoursText] = useState<string>('24');
+  const [lossesText, setLossesText] = useState<string>('0');
+
+  // Dosing
+  const [drugName, setDrugName] = useState<string>(FORMULARY[0].name);
+  const [doseText, setDoseText] = useState<string>(String(FORMULARY[0].doseMin));
+  const [concentrationText, setConcentrationText] = useState<string>(String(FORMULARY[0].concentration));
+
+  const weightKg = parsePositive(weightText);
+  const drug = FORMULARY.find(d => d.name === drugName);
+  const diets = DIETS.filter(diet => !diet.species || diet.species === (isCat ? 'Feline' : 'Canine'));
+  const diet = diets[Math.min(dietIndex, diets.length - 1)];
+
+  const handleDrugChange = (e: TargetedEvent<HTMLSelectElement>) => {
+    const name = e.currentTarget.value;
+    const selected = FORMULARY.find(d => d.name === name);
+    setDrugName(name);
+    if (selected) {
+      setDoseText(String(selected.doseMin));
+      setConcentrationText(String(selected.concentration));
+    }
+  };
+
+  const getResults = (): string[] => {
+    if (weightKg === undefined) return [];
+
+    if (tab === 'nutrition') {
+      const rer = calculateRER(weightKg);
+      const mer = MER_FACTORS[merFactor];
+      const rerFraction = RER_FRACTIONS[fraction];
+      const kcalPerDay = Math.round(rer * rerFraction.value);
+      const feeding = calculateFeeding(kcalPerDay, feedingsPerDay(feedingInterval), diet.kcalPerMl);
+      return [
+        `RER = ${rer} kcal/d (${formatKg(weightKg)})`,
+        `MER = ${Math.round(rer * mer.factor)} kcal/d (${mer.factor} × RER, ${mer.label.toLowerCase()})`,
+        `${rerFraction.label === 'Full' ? '' : `${rerFraction.label} `}RER = ${kcalPerDay} kcal/d = ${feeding.kcalPerFeeding} kcal/feeding q${feedingInterval}h`
+          + ` = ${feeding.mlPerFeeding} mL ${diet.name} (${diet.kcalPerMl} kcal/mL) per feeding`,
+      ];
+    }
+
+    if (tab === 'fluids') {
+      const dehydrationPercent = parseNonNegative(dehydrationText);
+      const replaceHours = parseNonNegative(replaceHoursText);
+      const losses = parseNonNegative(lossesText);
+      const fluids = calculateFluidRate({
+        weightKg,
+        isCat,
+        dehydrationPercent,
+        replaceHours,
+        ongoingLossesMlPerDay: losses,
+      });
+      const parts = [`maintenance ${fluids.maintenanceMlPerDay} mL/d (${fluids.maintenanceMlPerHour} mL/h)`];
+      if (fluids.deficitMl > 0 && replaceHours > 0) {
+        parts.push(`${dehydrationPercent}% deficit ${fluids.deficitMl} mL over ${replaceHours} h`);
+      }
+      if (losses > 0) {
+        parts.push(`ongoing losses ${losses} mL/d`);
+      }
+      return [
+        `IVF ${fluids.mlPerHour} mL/h (${formatKg(weightKg)}: ${parts.join(' + ')})`,
+      ];
+    }
+
+    const dose = parsePositive(doseText);
+    const concentration = parsePositive(concentrationText);
+    if (dose === undefined || concentration === undefined) return [];
+    const result = calculateDose(weightKg, dose, concentration);
+    const name = drug?.name ?? 'Drug';
+    return [
+      `${name} ${dose} mg/kg = ${result.mg} mg = ${result.ml} mL (${concentration} mg/mL)${drug ? ` ${drug.routes}` : ''}`,
+    ];
+  };
+
+  const results = getResults();
+
+  return (
+    <div className="calculator-panel">
+      <div className="calculator-header">
+        <div className="calculator-tabs">
+          {(['nutrition', 'fluids', 'dosing'] as CalculatorTab[]).map(id => (
+            <button
+              key={id}
+              type="button"
+              className={`calculator-tab ${tab === id ? 'active' : ''}`}
+              onClick={() => setTab(id)}
+            >
+              {id === 'nutrition' ? 'Nutrition' : id === 'fluids' ? 'Fluids' : 'Dosing'}
+            </button>
+          ))}
+        </div>
+        <button type="button" className="btn-close" onClick={onClose} aria-label="Close calculators">×</button>
+      </div>
+
+      <div className="calculator-fields">
+        <label>
+          Weight (kg)
+          <input
+            type="number"
+            className="input-field"
+            min="0"
+            step="any"
+            value={weightText}
+            onInput={(e: TargetedEvent<HTMLInputElement>) => setWeightText(e.currentTarget.value)}
+          />
+        </label>
+        <label>
+          Species
+          <select
+            className="input-field"
+            value={isCat ? 'cat' : 'dog'}
+            onChange={(e: TargetedEvent<HTMLSelectElement>) => setIsCat(e.currentTarget.value === 'cat')}
+          >
+            <option value="dog">Dog</option>
+            <option value="cat">Cat</option>
+          </select>
+        </label>
+
+        {tab === 'nutrition' && (
+          <>
+            <label>
+              MER
+              <select
+                className="input-field"
+                value={merFactor}
+                onChange={(e: TargetedEvent<HTMLSelectElement>) => setMerFactor(Number(e.currentTarget.value))}
+              >
+                {MER_FACTORS.map((factor, index) => (
+                  <option key={factor.label} value={index}>{factor.label} ({factor.factor})</option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Feeding
+              <select
+                className="input-field"
+                value={fraction}
+                onChange={(e: TargetedEvent<HTMLSelectElement>) => setFraction(Number(e.currentTarget.value))}
+              >
+                {RER_FRACTIONS.map((option, index) => (
+                  <option key={option.label} value={index}>{option.label} RER</option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Every
+              <select
+                className="input-field"
+                value={feedingInterval}
+                onChange={(e: TargetedEvent<HTMLSelectElement>) => setFeedingInterval(Number(e.currentTarget.value))}
+              >
+                {FEEDING_INTERVALS.map(hours => (
+                  <option key={hours} value={hours}>q{hours}h</option>
+                ))}
+              </select>
+            </label>
+            <label>
+              Diet
+              <select
+                className="input-field"
+                value={diets.indexOf(diet)}
+                onChange={(e: TargetedEvent<HTMLSelectElement>) => setDietIndex(Number(e.currentTarget.value))}
+              >
+                {diets.map((option, index) => (
+                  <option key={option.name} value={index}>{option.name} ({option.kcalPerMl} kcal/mL)</option>
+                ))}
+              </select>
+            </label>
+          </>
+        )}
+
+        {tab === 'fluids' && (
+          <>
+            <label>
+              Dehydration (%)
+              <input
+                type="number"
+                className="input-field"
+                min="0"
+                max="15"
+                step="any"
+                value={dehydrationText}
+                onInput={(e: TargetedEvent<HTMLInputElement>) => setDehydrationText(e.currentTarget.value)}
+              />
+            </label>
+            <label>
+              Replace over (h)
+              <input
+                type="number"
+                className="input-field"
+                min="1"
+                step="any"
+                value={replaceHoursText}
+                onInput={(e: TargetedEvent<HTMLInputElement>) => setReplaceHoursText(e.currentTarget.value)}
+              />
+            </label>
+            <label>
+              Ongoing losses (mL/d)
+              <input
+                type="number"
+                className="input-field"
+                min="0"
+                step="any"
+                value={lossesText}
+                onInput={(e: TargetedEvent<HTMLInputElement>) => setLossesText(e.currentTarget.value)}
+              />
+            </label>
+          </>
+        )}
+
+        {tab === 'dosing' && (
+          <>
+            <label>
+              Drug
+              <select className="input-field" value={drugName} onChange={handleDrugChange}>
+                {FORMULARY.map(option => (
+                  <option key={option.name} value={option.name}>{option.name}</option>
+                ))}
+                <option value={CUSTOM_DRUG}>Other…</option>
+              </select>
+            </label>
+            <label>
+              Dose (mg/kg)
+              <input
+                type="number"
+                className="input-field"
+                min="0"
+                step="any"
+                value={doseText}
+                onInput={(e: TargetedEvent<HTMLInputElement>) => setDoseText(e.currentTarget.value)}
+              />
+            </label>
+            <label>
+              Concentration (mg/mL)
+              <input
+                type="number"
+                className="input-field"
+                min="0"
+                step="any"
+                value={concentrationText}
+                onInput={(e: TargetedEvent<HTMLInputElement>) => setConcentrationText(e.currentTarget.value)}
+              />
+            </label>
+          </>
+        )}
+      </div>
+
+      {tab === 'dosing' && drug && (
+        <p className="help-text">
+          Typical dose {drug.doseMin === drug.doseMax ? drug.doseMin : `${drug.doseMin}–${drug.doseMax}`} mg/kg {drug.routes}. Check against your clinic's formulary.
+        </p>
+      )}
+
+      {weightKg === undefined ? (
+        <p className="help-text">Enter a weight, or add one to the patient details.</p>
+      ) : (
+        <ul className="calculator-results">
+          {results.map(result => (
+            <li key={result}>
+              <span>{result}</span>
+              <Button className="btn btn-small btn-secondary" onClick={() => onInsert(result)}>
+                Insert
+              </Button>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,216 @@
+/**
+ * Client discharge instructions: generated from the same transcript and
+ * patient details as the note, with their own prompt, templates and editor
+ */
+
+import { useEffect, useRef } from 'preact/hooks';
+import type {TargetedEvent} from 'preact';
+import { Button } from './shared/Button';
+import { Loading } from './shared/Loading';
+import { ExportProfileSelect } from './shared/ExportProfileSelect';
+import { ExportProfileId, Template } from '../types';
+import { RichTextEditor } from '../utils/rich-text-editor';
+
+interface DischargeProps {
+  html: string;
+  templates: Map<string, Template>;
+  selectedTemplate: string;
+  systemPrompt: string;
+  templateBody: string;
+  isGenerating: boolean;
+  canGenerate: boolean;
+  onPromptChange: (systemPrompt: string, template: string) => void;
+  onTemplateChange: (templateId: string) => void;
+  onGenerate: () => Promise<void>;
+  onStop: () => void;
+  onChange: (html: string) => void;
+  exportProfile: ExportProfileId;
+  onExportProfileChange: (profile: ExportProfileId) => void;
+  onPreviewExport: (html: string) => void;
+  onCopy: (html: string) => Promise<void>;
+  onPrint: (html: string) => void;
+  onSavePDF: (html: string) => Promise<void>;
+  onDownload: (html: string) => void;
+}
+
+export function DischargeSection({
+  html,
+  templates,
+  selectedTemplate,
+  systemPrompt,
+  templateBody,
+  isGenerating,
+  canGenerate,
+  onPromptChange,
+  onTemplateChange,
+  onGenerate,
+  onStop,
+  onChange,
+  exportProfile,
+  onExportProfileChange,
+  onPreviewExport,
+  onCopy,
+  onPrint,
+  onSavePDF,
+  onDownload,
+}: DischargeProps) {
+  const editorRef = useRef<HTMLDivElement>(null);
+  const toolbarRef = useRef<HTMLDivElement>(null);
+  const richTextEditorRef = useRef<RichTextEditor | null>(null);
+  // Last HTML reported from typing in the editor, which needn't be set back into it
+  const editedHTMLRef = useRef<string | null>(null);
+
+  const hasContent = html.length > 0;
+
+  useEffect(() => {
+    if (editorRef.current && toolbarRef.current && !richTextEditorRef.current) {
+      richTextEditorRef.current = new RichTextEditor(editorRef.current, toolbarRef.current);
+    }
+    return () => {
+      richTextEditorRef.current?.destroy();
+      richTextEditorRef.current = null;
+    };
+  }, []);
+
+  useEffect(() => {
+    if (html === editedHTMLRef.current) {
+      return;
+    }
+    editedHTMLRef.current = null;
+    richTextEditorRef.current?.setHTML(html);
+    if (isGenerating && editorRef.current) {
+      editorRef.current.scrollTop = editorRef.current.scrollHeight;
+    }
+  }, [html]);
+
+  const handleInput = () => {
+    if (richTextEditorRef.current) {
+      const edited = richTextEditorRef.current.getHTML();
+      editedHTMLRef.current = edited;
+      onChange(edited);
+    }
+  };
+
+  const getEditorHTML = () => richTextEditorRef.current?.getHTML() ?? html;
+
+
+  return (
+    <div className="soap-section discharge-section">
+      <div className="soap-header">
+        <div className="form-group">
+          <textarea
+            className="input-field"
+            rows={6}
+            value={systemPrompt}
+            onInput={(e: TargetedEvent<HTMLTextAreaElement>) => onPromptChange(e.currentTarget.value, templateBody)}
+          />
+        </div>
+      </div>
+
+      {isGenerating && !hasContent && (
+        <Loading message="Generating..." />
+      )}
+
+      <div className="soap-content">
+        <div className="form-group">
+          <select
+            className="input-field"
+            value={selectedTemplate}
+            onChange={(e: TargetedEvent<HTMLSelectElement>) => onTemplateChange(e.currentTarget.value)}
+          >
+            {[...templates.entries()].map(([id, template]) => (
+              <option key={id} value={id}>
+                {template.name}
+              </option>
+            ))}
+          </select>
+          <textarea
+            className="input-field"
+            rows={6}
+            value={templateBody}
+            onInput={(e: TargetedEvent<HTMLTextAreaElement>) => onPromptChange(systemPrompt, e.currentTarget.value)}
+          />
+        </div>
+
+        <div className="generate-controls">
+          {isGenerating ? (
+            <Button className="btn btn-danger" onClick={onStop}>
+              Stop
+            </Button>
+          ) : (
+            <Button className="btn btn-primary" onClick={onGenerate} disabled={!canGenerate}>
+              {hasContent ? 'Regenerate' : 'Generate'}
+            </Button>
+          )}
+        </div>
+
+        <div className="editor-toolbar" ref={toolbarRef}>
+          <div className="toolbar-group">
+            <button type="button" className="toolbar-btn" data-command="bold" title="Bold (Ctrl+B)">
+              <strong>B</strong>
+            </button>
+            <button type="button" className="toolbar-btn" data-command="italic" title="Italic (Ctrl+I)">
+              <em>I</em>
+            </button>
+            <button type="button" className="toolbar-btn" data-command="underline" title="Underline (Ctrl+U)">
+              <u>U</u>
+            </button>
+          </div>
+          <div className="toolbar-separator"></div>
+          <div className="toolbar-group">
+            <button type="button" className="toolbar-btn" data-command="insertUnorderedList" title="Bullet List">
+              • List
+            </button>
+            <button type="button" className="toolbar-btn" data-command="insertOrderedList" title="Numbered List">
+              1. List
+            </button>
+          </div>
+          <div className="toolbar-separator"></div>
+          <div className="toolbar-group">
+            <button type="button" className="toolbar-btn" data-command="formatBlock" data-value="h2" title="Heading">
+              H
+            </button>
+            <button type="button" className="toolbar-btn" data-command="formatBlock" data-value="p" title="Paragraph">
+              P
+            </button>
+          </div>
+          <div className="toolbar-separator"></div>
+          <div className="toolbar-group">
+            <button type="button" className="toolbar-btn" data-command="undo" title="Undo (Ctrl+Z)">
+              ↶
+            </button>
+            <button type="button" className="toolbar-btn" data-command="redo" title="Redo (Ctrl+Y)">
+              ↷
+            </button>
+          </div>
+        </div>
+
+        <div
+          className="soap-editor"
+          contentEditable={true}
+          ref={editorRef}
+          onInput={handleInput}
+        ></div>
+
+        <div className="soap-footer">
+          <Button className="btn btn-secondary" onClick={() => onDownload(getEditorHTML())} disabled={!hasContent}>
+            Download HTML
+          </Button>
+          <Button className="btn btn-secondary" onClick={() => onPrint(getEditorHTML())} disabled={!hasContent}>
+            Print
+          </Button>
+          <Button className="btn btn-secondary" onClick={() => onSavePDF(getEditorHTML())} disabled={!hasContent}>
+            Save PDF
+          </Button>
+          <ExportProfileSelect value={exportProfile} onChange={onExportProfileChange} />
+          <Button className="btn btn-secondary" onClick={() => onPreviewExport(getEditorHTML())} disabled={!hasContent}>
+            Preview
+          </Button>
+          <Button className="btn btn-primary" onClick={() => onCopy(getEditorHTML())} disabled={!hasContent}>
+            Copy to Clipboard
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
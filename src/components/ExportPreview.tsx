@@ -0,0 +1,62 @@
+/**
+ * Preview of the note as an export profile writes it, before copying
+ */
+
+import { Button } from './shared/Button';
+import { ExportProfileSelect } from './shared/ExportProfileSelect';
+import { ExportProfileId } from '../types';
+import { getExportProfile } from '../utils/export-profiles';
+
+interface ExportPreviewProps {
+  isOpen: boolean;
+  html: string;
+  profileId: ExportProfileId;
+  onProfileChange: (profile: ExportProfileId) => void;
+  onCopy: () => Promise<void>;
+  onDownload: () => void;
+  onClose: () => void;
+}
+
+export function ExportPreview({ isOpen, html, profileId, onProfileChange, onCopy, onDownload, onClose }: ExportPreviewProps) {
+  if (!isOpen) {
+    return null;
+  }
+
+  const profile = getExportProfile(profileId);
+  const output = profile.format(html);
+
+  return (
+    <div className="modal">
+      <div className="modal-content export-preview">
+        <div className="modal-header">
+          <h2>Export Preview</h2>
+          <button className="btn-close" onClick={onClose} aria-label="Close export preview">
+            ×
+          </button>
+        </div>
+
+        <div className="modal-body">
+          <div className="export-preview-controls">
+            <ExportProfileSelect value={profileId} onChange={onProfileChange} />
+            <p className="help-text">{profile.description}</p>
+          </div>
+
+          {output.html ? (
+            <div className="export-preview-output" dangerouslySetInnerHTML={{ __html: output.html }} />
+          ) : (
+            <pre className="export-preview-output">{output.rtf ?? output.text}</pre>
+          )}
+        </div>
+
+        <div className="modal-footer">
+          <Button className="btn btn-secondary" onClick={onDownload}>
+            {`Save .${profile.extension}`}
+          </Button>
+          <Button className="btn btn-primary" onClick={onCopy}>
+            Copy to Clipboard
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,22 +1,33 @@
 /**
- * Floating settings button
+ * Floating settings and session history buttons
  */
 
 import { Button } from './shared/Button';
 
 interface HeaderProps {
   onSettingsClick: () => void;
+  onHistoryClick: () => void;
 }
 
-export function Header({ onSettingsClick }: HeaderProps) {
+export function Header({ onSettingsClick, onHistoryClick }: HeaderProps) {
   return (
-    <Button
-      className="settings-button"
-      onClick={onSettingsClick}
-      title="Settings"
-      ariaLabel="Open settings"
-    >
-      ⚙️
-    </Button>
+    <>
+      <Button
+        className="history-button"
+        onClick={onHistoryClick}
+        title="Session history"
+        ariaLabel="Open session history"
+      >
+        🗂️
+      </Button>
+      <Button
+        className="settings-button"
+        onClick={onSettingsClick}
+        title="Settings"
+        ariaLabel="Open settings"
+      >
+        ⚙️
+      </Button>
+    </>
   );
 }
@@ -0,0 +1,75 @@
+/**
+ * Passphrase prompt shown while encrypted data is locked
+ */
+
+import { useState } from 'preact/hooks';
+import { TargetedEvent } from 'preact';
+import { Button } from './shared/Button';
+
+interface LockScreenProps {
+  onUnlock: (passphrase: string) => Promise<boolean>;
+  onReset: () => void;
+}
+
+export function LockScreen({ onUnlock, onReset }: LockScreenProps) {
+  const [passphrase, setPassphrase] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+  const [isUnlocking, setIsUnlocking] = useState<boolean>(false);
+
+  const handleSubmit = async (e: TargetedEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (!passphrase) return;
+
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      if (!(await onUnlock(passphrase))) {
+        setError('Incorrect passphrase');
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to unlock');
+    } finally {
+      setIsUnlocking(false);
+      setPassphrase('');
+    }
+  };
+
+  const handleReset = () => {
+    if (confirm('Erase all API keys, sessions and settings stored on this computer? This cannot be undone.')) {
+      onReset();
+    }
+  };
+
+  return (
+    <div className="modal lock-screen">
+      <div className="modal-content">
+        <div className="modal-header">
+          <h2>🔒 Locked</h2>
+        </div>
+        <form className="modal-body" onSubmit={handleSubmit}>
+          <div className="form-group">
+            <label htmlFor="unlock-passphrase">Passphrase</label>
+            <input
+              type="password"
+              id="unlock-passphrase"
+              className="input-field"
+              autoComplete="current-password"
+              autoFocus
+              value={passphrase}
+              onInput={(e: TargetedEvent<HTMLInputElement>) => setPassphrase(e.currentTarget.value)}
+            />
+            {error && <p className="help-text error">{error}</p>}
+          </div>
+          <div className="lock-screen-actions">
+            <Button type="submit" className="btn btn-primary" disabled={isUnlocking || !passphrase}>
+              {isUnlocking ? 'Unlocking...' : 'Unlock'}
+            </Button>
+            <button type="button" className="link-button" onClick={handleReset}>
+              Forgot passphrase? Erase all data
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
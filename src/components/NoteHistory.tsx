@@ -0,0 +1,127 @@
+/**
+ * Version history of the session's note, with a diff of each version
+ * against the current note or the version before it
+ */
+
+import { useState } from 'preact/hooks';
+import { TargetedEvent } from 'preact';
+import { Button } from './shared/Button';
+import { DiffLine, NoteVersion, NoteVersionSource } from '../types';
+import { diffLines } from '../utils/diff';
+import { getNoteLines } from '../utils/note-sections';
+
+interface NoteHistoryProps {
+  isOpen: boolean;
+  versions: NoteVersion[];
+  currentHTML: string;
+  onRestore: (id: string) => void;
+  onClose: () => void;
+}
+
+type Comparison = 'current' | 'previous';
+
+const SOURCE_LABELS: Record<NoteVersionSource, string> = {
+  generated: 'Generated',
+  edited: 'Edited by hand',
+  merged: 'Regenerated, edits kept',
+  restored: 'Restored',
+};
+
+function DiffView({ lines }: { lines: DiffLine[] }) {
+  if (lines.every(line => line.operation === 'equal')) {
+    return <p className="help-text">No differences.</p>;
+  }
+
+  return (
+    <div className="note-diff">
+      {lines.map((line, index) => (
+        <div key={index} className={`diff-line diff-${line.words ? 'changed' : line.operation}`}>
+          {line.words
+            ? line.words.map((word, i) => <span key={i} className={`diff-${word.operation}`}>{word.text}</span>)
+            : line.text}
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function NoteHistory({ isOpen, versions, currentHTML, onRestore, onClose }: NoteHistoryProps) {
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [comparison, setComparison] = useState<Comparison>('current');
+
+  if (!isOpen) {
+    return null;
+  }
+
+  // Latest version until another is picked
+  const selected = versions.find(version => version.id === selectedId) ?? versions[versions.length - 1];
+  const selectedPosition = selected ? versions.indexOf(selected) : -1;
+  const previous = selectedPosition > 0 ? versions[selectedPosition - 1] : undefined;
+
+  const getDiff = (): DiffLine[] => {
+    if (!selected) return [];
+    if (comparison === 'current') {
+      return diffLines(getNoteLines(currentHTML), getNoteLines(selected.html));
+    }
+    return diffLines(getNoteLines(previous?.html ?? ''), getNoteLines(selected.html));
+  };
+
+  const handleRestore = () => {
+    if (selected && confirm('Replace the current note with this version? The current note is kept in the history.')) {
+      onRestore(selected.id);
+    }
+  };
+
+  return (
+    <div className="modal">
+      <div className="modal-content note-history">
+        <div className="modal-header">
+          <h2>Note History</h2>
+          <button className="btn-close" onClick={onClose} aria-label="Close note history">
+            ×
+          </button>
+        </div>
+
+        <div className="modal-body">
+          {versions.length === 0 ? (
+            <p className="help-text">No versions yet. A version is saved each time a note is generated, and before hand edits are replaced.</p>
+          ) : (
+            <div className="note-history-layout">
+              <ul className="note-version-list">
+                {[...versions].reverse().map(version => (
+                  <li key={version.id}>
+                    <button
+                      type="button"
+                      className={`note-version ${version === selected ? 'active' : ''}`}
+                      onClick={() => setSelectedId(version.id)}
+                    >
+                      <span className="note-version-source">{SOURCE_LABELS[version.source]}</span>
+                      <span className="note-version-date">{new Date(version.createdAt).toLocaleString()}</span>
+                    </button>
+                  </li>
+                ))}
+              </ul>
+
+              <div className="note-history-diff">
+                <div className="note-history-controls">
+                  <select
+                    className="input-field"
+                    value={comparison}
+                    onChange={(e: TargetedEvent<HTMLSelectElement>) => setComparison(e.currentTarget.value as Comparison)}
+                  >
+                    <option value="current">Changes restoring it would make to the current note</option>
+                    <option value="previous">Changes from the previous version</option>
+                  </select>
+                  <Button className="btn btn-small btn-primary" onClick={handleRestore} disabled={!selected}>
+                    Restore
+                  </Button>
+                </div>
+                <DiffView lines={getDiff()} />
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+/**
+ * Patient and client details for the session, used as context when
+ * generating the note
+ */
+
+import { useState } from 'preact/hooks';
+import { TargetedEvent } from 'preact';
+import { PatientInfo, WeightUnit } from '../types';
+import { SEXES, SPECIES, formatWeight, hasPatientDetails } from '../utils/patient';
+
+interface PatientPanelProps {
+  patient: PatientInfo;
+  onChange: (patient: PatientInfo) => void;
+}
+
+function parseWeight(text: string): number | undefined {
+  const weight = parseFloat(text);
+  return Number.isFinite(weight) && weight > 0 ? weight : undefined;
+}
+
+export function PatientPanel({ patient, onChange }: PatientPanelProps) {
+  const [isExpanded, setIsExpanded] = useState<boolean>(() => !hasPatientDetails(patient));
+  // Kept as typed so partial numbers like "12." aren't reformatted mid-entry
+  const [weightText, setWeightText] = useState<string>(patient.weight?.toString() ?? '');
+
+  const update = (changes: Partial<PatientInfo>) => {
+    onChange({ ...patient, ...changes });
+  };
+
+  const handleText = (field: 'name' | 'species' | 'breed' | 'sex' | 'age' | 'clientName') =>
+    (e: TargetedEvent<HTMLInputElement | HTMLSelectElement>) => update({ [field]: e.currentTarget.value });
+
+  const handleWeight = (e: TargetedEvent<HTMLInputElement>) => {
+    setWeightText(e.currentTarget.value);
+    update({ weight: parseWeight(e.currentTarget.value) });
+  };
+
+  const summary = [
+    patient.name,
+    patient.species,
+    patient.breed,
+    patient.sex,
+    patient.age,
+    formatWeight(patient),
+    patient.clientName && `Client: ${patient.clientName}`,
+  ].filter(value => value.trim().length > 0).join(' · ');
+
+  return (
+    <div className="patient-panel">
+      <button
+        type="button"
+        className="patient-panel-toggle"
+        onClick={() => setIsExpanded(!isExpanded)}
+        aria-expanded={isExpanded}
+      >
+        {isExpanded ? '▾' : '▸'} Patient{!isExpanded && summary ? `: ${summary}` : ''}
+      </button>
+
+      {isExpanded && (
+        <div className="patient-fields">
+          <label>
+            Patient name
+            <input type="text" className="input-field" value={patient.name} onInput={handleText('name')} />
+          </label>
+          <label>
+            Species
+            <input
+              type="text"
+              className="input-field"
+              list="patient-species"
+              value={patient.species}
+              onInput={handleText('species')}
+            />
+            <datalist id="patient-species">
+              {SPECIES.map(species => <option key={species} value={species} />)}
+            </datalist>
+          </label>
+          <label>
+            Breed
+            <input type="text" className="input-field" value={patient.breed} onInput={handleText('breed')} />
+          </label>
+          <label>
+            Sex
+            <select className="input-field" value={patient.sex} onChange={handleText('sex')}>
+              <option value="">—</option>
+              {SEXES.map(sex => <option key={sex} value={sex}>{sex}</option>)}
+            </select>
+          </label>
+          <label>
+            Age
+            <input
+              type="text"
+              className="input-field"
+              placeholder="e.g. 4 years"
+              value={patient.age}
+              onInput={handleText('age')}
+            />
+          </label>
+          <label>
+            Weight
+            <span className="patient-weight">
+              <input
+                type="number"
+                className="input-field"
+                min="0"
+                step="any"
+                value={weightText}
+                onInput={handleWeight}
+              />
+              <select
+                className="input-field"
+                value={patient.weightUnit}
+                onChange={(e: TargetedEvent<HTMLSelectElement>) => update({ weightUnit: e.currentTarget.value as WeightUnit })}
+              >
+                <option value="kg">kg</option>
+                <option value="lb">lb</option>
+              </select>
+            </span>
+          </label>
+          <label className="patient-client">
+            Client name
+            <input type="text" className="input-field" value={patient.clientName} onInput={handleText('clientName')} />
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,79 @@
+/**
+ * Popover for filling in a template field by hand, with an input matching
+ * the field's type
+ */
+
+import { useEffect, useRef, useState } from 'preact/hooks';
+import { TargetedEvent } from 'preact';
+import { Button } from './shared/Button';
+import { TemplatePlaceholder } from '../types';
+
+interface PlaceholderInputProps {
+  placeholder: TemplatePlaceholder;
+  // Viewport position of the field being filled
+  anchor: DOMRect;
+  onSubmit: (value: string) => void;
+  onCancel: () => void;
+}
+
+export function PlaceholderInput({ placeholder, anchor, onSubmit, onCancel }: PlaceholderInputProps) {
+  const [value, setValue] = useState<string>(placeholder.options[0] ?? '');
+  const inputRef = useRef<HTMLInputElement & HTMLSelectElement>(null);
+
+  useEffect(() => {
+    inputRef.current?.focus();
+  }, []);
+
+  const handleSubmit = (e: TargetedEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    if (value.trim()) {
+      onSubmit(value);
+    }
+  };
+
+  const handleKeyDown = (e: KeyboardEvent) => {
+    if (e.key === 'Escape') {
+      e.preventDefault();
+      onCancel();
+    }
+  };
+
+  const handleInput = (e: TargetedEvent<HTMLInputElement | HTMLSelectElement>) => {
+    setValue(e.currentTarget.value);
+  };
+
+  return (
+    <form
+      className="placeholder-input"
+      style={{ top: `${anchor.bottom + 4}px`, left: `${anchor.left}px` }}
+      onSubmit={handleSubmit}
+      onKeyDown={handleKeyDown}
+    >
+      <label>{placeholder.label}{placeholder.required ? ' *' : ''}</label>
+      {placeholder.type === 'choice' && placeholder.options.length > 0 ? (
+        <select ref={inputRef} className="input-field" value={value} onChange={handleInput}>
+          {placeholder.options.map(option => (
+            <option key={option} value={option}>{option}</option>
+          ))}
+        </select>
+      ) : (
+        <input
+          ref={inputRef}
+          className="input-field"
+          type={placeholder.type === 'number' ? 'number' : placeholder.type === 'date' ? 'date' : 'text'}
+          step={placeholder.type === 'number' ? 'any' : undefined}
+          value={value}
+          onInput={handleInput}
+        />
+      )}
+      <div className="placeholder-input-actions">
+        <Button type="submit" className="btn btn-small btn-primary" disabled={!value.trim()}>
+          Fill
+        </Button>
+        <Button className="btn btn-small btn-secondary" onClick={onCancel}>
+          Cancel
+        </Button>
+      </div>
+    </form>
+  );
+}
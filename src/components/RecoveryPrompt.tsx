@@ -0,0 +1,37 @@
+/**
+ * Banner offering to recover a recording interrupted by a crash or reload
+ */
+
+import { Button } from './shared/Button';
+import { UnfinishedRecording } from '../types';
+
+interface RecoveryPromptProps {
+  recording: UnfinishedRecording;
+  onRecover: () => void;
+  onDiscard: () => void;
+}
+
+export function RecoveryPrompt({ recording, onRecover, onDiscard }: RecoveryPromptProps) {
+  const seconds = recording.segments.reduce((total, segment) => total + segment.duration, 0);
+  const length = `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+
+  const handleDiscard = () => {
+    if (confirm('Discard the unfinished recording? The audio will be lost.')) {
+      onDiscard();
+    }
+  };
+
+  return (
+    <div className="recovery-prompt">
+      <span>
+        An unfinished recording from {new Date(recording.startedAt).toLocaleString()} ({length}) was found.
+      </span>
+      <Button className="btn btn-small btn-primary" onClick={onRecover}>
+        Recover &amp; Transcribe
+      </Button>
+      <Button className="btn btn-small btn-secondary" onClick={handleDiscard}>
+        Discard
+      </Button>
+    </div>
+  );
+}
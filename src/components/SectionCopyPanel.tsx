@@ -0,0 +1,64 @@
+/**
+ * Panel for copying the note one section at a time, for records systems
+ * with a separate field for each part of the note
+ */
+
+import { Button } from './shared/Button';
+import { NoteHTMLSection } from '../utils/note-sections';
+
+interface SectionCopyPanelProps {
+  sections: NoteHTMLSection[];
+  // Section the "copy next" button and shortcut copy
+  nextIndex: number;
+  onCopy: (index: number) => void;
+  onCopyNext: () => void;
+  onClose: () => void;
+}
+
+/**
+ * Name shown for a section, including the text before the first heading
+ */
+export function getSectionLabel(section: NoteHTMLSection): string {
+  return section.heading || 'Opening text';
+}
+
+export function SectionCopyPanel({ sections, nextIndex, onCopy, onCopyNext, onClose }: SectionCopyPanelProps) {
+  const next = sections[nextIndex];
+
+  return (
+    <div className="section-copy-panel">
+      <div className="section-copy-header">
+        <strong>Copy by section</strong>
+        <button type="button" className="btn-close" onClick={onClose} aria-label="Close copy by section">×</button>
+      </div>
+
+      {sections.length > 0 ? (
+        <>
+          <div className="section-copy-list">
+            {sections.map((section, index) => (
+              <button
+                key={`${index}-${section.heading}`}
+                type="button"
+                className={`section-copy-btn ${index === nextIndex ? 'next' : ''}`}
+                title={`Copy ${getSectionLabel(section)} without its heading`}
+                onClick={() => onCopy(index)}
+              >
+                {getSectionLabel(section)}
+              </button>
+            ))}
+          </div>
+          <div className="section-copy-next">
+            <Button className="btn btn-small btn-primary" onClick={onCopyNext} disabled={!next}>
+              {next ? `Copy next: ${getSectionLabel(next)}` : 'Copy next'}
+            </Button>
+            <span className="help-text">
+              Alt+Shift+C copies the next section, {nextIndex + 1} of {sections.length}
+            </span>
+          </div>
+        </>
+      ) : (
+        <p className="help-text">The note has no sections to copy.</p>
+      )}
+    </div>
+  );
+}
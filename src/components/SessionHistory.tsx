@@ -0,0 +1,137 @@
+/**
+ * Session history sidebar
+ * Lists saved consults and lets the user reopen, rename, duplicate or delete them
+ */
+
+import { useState } from 'preact/hooks';
+import { TargetedEvent } from 'preact';
+import { Button } from './shared/Button';
+import { SessionSummary } from '../types';
+
+interface SessionHistoryProps {
+  isOpen: boolean;
+  sessions: SessionSummary[];
+  currentSessionId: string | null;
+  onClose: () => void;
+  onNew: () => void;
+  onOpen: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+export function SessionHistory({
+  isOpen,
+  sessions,
+  currentSessionId,
+  onClose,
+  onNew,
+  onOpen,
+  onRename,
+  onDuplicate,
+  onDelete
+}: SessionHistoryProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [editingName, setEditingName] = useState<string>('');
+
+  if (!isOpen) {
+    return <aside id="session-sidebar" className="session-sidebar hidden"></aside>;
+  }
+
+  const startRename = (session: SessionSummary) => {
+    setEditingId(session.id);
+    setEditingName(session.name);
+  };
+
+  const commitRename = () => {
+    const name = editingName.trim();
+    if (editingId && name) {
+      onRename(editingId, name);
+    }
+    setEditingId(null);
+  };
+
+  const handleRenameKeyDown = (e: KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      commitRename();
+    } else if (e.key === 'Escape') {
+      setEditingId(null);
+    }
+  };
+
+  const handleDelete = (session: SessionSummary) => {
+    if (confirm(`Delete "${session.name}"? This cannot be undone.`)) {
+      onDelete(session.id);
+    }
+  };
+
+  const formatDate = (iso?: string): string => {
+    return iso ? new Date(iso).toLocaleString() : '';
+  };
+
+  return (
+    <aside id="session-sidebar" className="session-sidebar">
+      <div className="session-sidebar-header">
+        <h2>Sessions</h2>
+        <button
+          className="btn-close"
+          onClick={onClose}
+          aria-label="Close session history"
+        >
+          ×
+        </button>
+      </div>
+
+      <Button className="btn btn-primary btn-small" onClick={onNew}>
+        New Session
+      </Button>
+
+      {sessions.length === 0 ? (
+        <p className="help-text">No saved sessions yet.</p>
+      ) : (
+        <ul className="session-list">
+          {sessions.map(session => (
+            <li
+              key={session.id}
+              className={`session-item ${session.id === currentSessionId ? 'active' : ''}`}
+            >
+              {editingId === session.id ? (
+                <input
+                  type="text"
+                  className="input-field"
+                  value={editingName}
+                  autoFocus
+                  onInput={(e: TargetedEvent<HTMLInputElement>) => setEditingName(e.currentTarget.value)}
+                  onKeyDown={handleRenameKeyDown}
+                  onBlur={commitRename}
+                />
+              ) : (
+                <button
+                  type="button"
+                  className="session-open"
+                  onClick={() => onOpen(session.id)}
+                  title="Open session"
+                >
+                  <span className="session-name">{session.name}</span>
+                  <span className="session-date">{formatDate(session.timestamp ?? session.createdAt)}</span>
+                </button>
+              )}
+              <div className="session-actions">
+                <button type="button" className="toolbar-btn" onClick={() => startRename(session)}>
+                  Rename
+                </button>
+                <button type="button" className="toolbar-btn" onClick={() => onDuplicate(session.id)}>
+                  Duplicate
+                </button>
+                <button type="button" className="toolbar-btn" onClick={() => handleDelete(session)}>
+                  Delete
+                </button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </aside>
+  );
+}
@@ -2,32 +2,71 @@
  * Settings modal component
  */
 
-import { useState, useEffect } from 'preact/hooks';
+import { useState, useEffect, useRef } from 'preact/hooks';
 import { TargetedEvent } from 'preact';
 import { Button } from './shared/Button';
+import { AbbreviationEditor } from './AbbreviationEditor';
 import { Storage } from '../modules/storage';
+import { Vault } from '../modules/vault';
+import { PROVIDERS } from '../modules/llm-provider';
+import { Abbreviation, AppSettings, ClinicLetterhead, ProviderId, ProviderOptions, ProviderSettings } from '../types';
+import { normalizeAbbreviations } from '../utils/abbreviations';
+import { readFileAsDataURL } from '../utils/download';
+
+// Logos are kept in local storage, so they must stay small
+const MAX_LOGO_BYTES = 200 * 1024;
 
 interface SettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onSave: (apiKey: string) => void;
-  onTestApiKey: (apiKey: string) => Promise<boolean>;
+  onSave: (settings: AppSettings) => void;
+  onTestApiKey: (provider: ProviderId, apiKey: string, options: ProviderOptions) => Promise<boolean>;
+  onEnableEncryption: (passphrase: string) => Promise<boolean>;
+  onDisableEncryption: () => Promise<boolean>;
+  onLock: () => void;
 }
 
 export function SettingsModal({
   isOpen,
   onClose,
   onSave,
-  onTestApiKey
+  onTestApiKey,
+  onEnableEncryption,
+  onDisableEncryption,
+  onLock
 }: SettingsModalProps) {
-  const [apiKey, setApiKey] = useState<string>('');
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(() => Storage.getProviderSettings());
+  const [apiKeys, setApiKeys] = useState<Record<ProviderId, string>>({ gemini: '', openai: '' });
+  const [retentionDays, setRetentionDays] = useState<number>(0);
+  const [abbreviations, setAbbreviations] = useState<Abbreviation[]>([]);
+  const [abbreviationError, setAbbreviationError] = useState<string | null>(null);
   const [testResult, setTestResult] = useState<string | null>(null);
+  const [autoLockMinutes, setAutoLockMinutes] = useState<number>(0);
+  const [isEncrypted, setIsEncrypted] = useState<boolean>(false);
+  const [passphrase, setPassphrase] = useState<string>('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState<string>('');
+  const [passphraseError, setPassphraseError] = useState<string | null>(null);
+  const [isUpdatingEncryption, setIsUpdatingEncryption] = useState<boolean>(false);
+  const [letterhead, setLetterhead] = useState<ClinicLetterhead>(() => Storage.getLetterhead());
+  const [logoError, setLogoError] = useState<string | null>(null);
+  const logoInputRef = useRef<HTMLInputElement>(null);
 
   // Load settings when modal opens
   useEffect(() => {
     if (isOpen) {
-      setApiKey(Storage.getApiKey());
+      setProviderSettings(Storage.getProviderSettings());
+      setApiKeys({ gemini: Storage.getApiKey('gemini'), openai: Storage.getApiKey('openai') });
+      setRetentionDays(Storage.getSessionRetentionDays());
+      setAbbreviations(Storage.getAbbreviations());
+      setAbbreviationError(null);
       setTestResult(null);
+      setAutoLockMinutes(Storage.getAutoLockMinutes());
+      setIsEncrypted(Vault.isEnabled());
+      setPassphrase('');
+      setConfirmPassphrase('');
+      setPassphraseError(null);
+      setLetterhead(Storage.getLetterhead());
+      setLogoError(null);
     }
   }, [isOpen]);
 
@@ -35,21 +74,101 @@ export function SettingsModal({
     return <div id="settings-modal" className="modal hidden"></div>;
   }
 
+  const provider = providerSettings.provider;
+  const providerInfo = PROVIDERS[provider];
+  const options = providerSettings.options[provider];
+  const apiKey = apiKeys[provider];
+
+  const handleProviderChange = (e: TargetedEvent<HTMLSelectElement>) => {
+    setProviderSettings({ ...providerSettings, provider: e.currentTarget.value as ProviderId });
+    setTestResult(null);
+  };
+
+  const handleOptionChange = (changes: Partial<ProviderOptions>) => {
+    setProviderSettings({
+      ...providerSettings,
+      options: { ...providerSettings.options, [provider]: { ...options, ...changes } },
+    });
+    setTestResult(null);
+  };
+
   const handleApiKeyChange = (e: TargetedEvent<HTMLInputElement>) => {
-    setApiKey(e.currentTarget.value);
+    setApiKeys({ ...apiKeys, [provider]: e.currentTarget.value });
     setTestResult(null);
   };
 
   const handleTestApiKey = async () => {
-    const isValid = await onTestApiKey(apiKey);
+    const isValid = await onTestApiKey(provider, apiKey, options);
     setTestResult(isValid ? 'API key is valid!' : 'API key test failed');
   };
 
   const handleSave = () => {
-    onSave(apiKey);
+    onSave({
+      providerSettings,
+      apiKeys,
+      sessionRetentionDays: retentionDays,
+      abbreviations: normalizeAbbreviations(abbreviations),
+      autoLockMinutes,
+      letterhead,
+    });
     onClose();
   };
 
+  const handleLogoChange = async (e: TargetedEvent<HTMLInputElement>) => {
+    const input = e.currentTarget;
+    const file = input.files?.[0];
+    input.value = '';
+    if (!file) return;
+
+    if (!['image/png', 'image/jpeg'].includes(file.type)) {
+      setLogoError('Use a PNG or JPEG image');
+      return;
+    }
+    if (file.size > MAX_LOGO_BYTES) {
+      setLogoError('Use an image under 200 KB');
+      return;
+    }
+
+    try {
+      setLetterhead({ ...letterhead, logo: await readFileAsDataURL(file) });
+      setLogoError(null);
+    } catch (error) {
+      setLogoError(error instanceof Error ? error.message : 'Failed to read image');
+    }
+  };
+
+  const handleEnableEncryption = async () => {
+    if (passphrase.length < 8) {
+      setPassphraseError('Use a passphrase of at least 8 characters');
+      return;
+    }
+    if (passphrase !== confirmPassphrase) {
+      setPassphraseError('Passphrases do not match');
+      return;
+    }
+
+    setIsUpdatingEncryption(true);
+    const enabled = await onEnableEncryption(passphrase);
+    setIsUpdatingEncryption(false);
+    if (enabled) {
+      setIsEncrypted(true);
+      setPassphrase('');
+      setConfirmPassphrase('');
+      setPassphraseError(null);
+    }
+  };
+
+  const handleDisableEncryption = async () => {
+    if (!confirm('Store API keys and sessions unencrypted on this computer?')) return;
+
+    setIsUpdatingEncryption(true);
+    const disabled = await onDisableEncryption();
+    setIsUpdatingEncryption(false);
+    if (disabled) {
+      setIsEncrypted(false);
+    }
+  };
+
   return (
     <div id="settings-modal" className="modal">
       <div className="modal-content">
@@ -66,15 +185,76 @@ export function SettingsModal({
         </div>
 
         <div className="modal-body">
+          {/* Provider */}
+          <div className="form-group">
+            <label htmlFor="provider-select">AI Provider</label>
+            <select
+              id="provider-select"
+              className="input-field"
+              value={provider}
+              onChange={handleProviderChange}
+            >
+              {Object.entries(PROVIDERS).map(([id, info]) => (
+                <option key={id} value={id}>{info.name}</option>
+              ))}
+            </select>
+          </div>
+
+          {provider === 'openai' && (
+            <div className="form-group">
+              <label htmlFor="base-url-input">Server URL</label>
+              <input
+                type="url"
+                id="base-url-input"
+                className="input-field"
+                placeholder={PROVIDERS.openai.defaultOptions.baseUrl}
+                value={options.baseUrl ?? ''}
+                onInput={(e: TargetedEvent<HTMLInputElement>) => handleOptionChange({ baseUrl: e.currentTarget.value })}
+              />
+              <p className="help-text">
+                Any server implementing the OpenAI API, e.g. http://localhost:8080/v1 for a local llama.cpp server
+              </p>
+            </div>
+          )}
+
+          {/* Models */}
+          <div className="form-group">
+            <label htmlFor="transcription-model-input">Transcription Model</label>
+            <input
+              type="text"
+              id="transcription-model-input"
+              className="input-field"
+              list="model-suggestions"
+              placeholder={providerInfo.defaultOptions.transcriptionModel}
+              value={options.transcriptionModel}
+              onInput={(e: TargetedEvent<HTMLInputElement>) => handleOptionChange({ transcriptionModel: e.currentTarget.value })}
+            />
+          </div>
+          <div className="form-group">
+            <label htmlFor="analysis-model-input">Note Generation Model</label>
+            <input
+              type="text"
+              id="analysis-model-input"
+              className="input-field"
+              list="model-suggestions"
+              placeholder={providerInfo.defaultOptions.analysisModel}
+              value={options.analysisModel}
+              onInput={(e: TargetedEvent<HTMLInputElement>) => handleOptionChange({ analysisModel: e.currentTarget.value })}
+            />
+            <datalist id="model-suggestions">
+              {providerInfo.models.map(model => <option key={model} value={model} />)}
+            </datalist>
+          </div>
+
           {/* API Key */}
           <div className="form-group">
-            <label htmlFor="api-key-input">Gemini API Key</label>
+            <label htmlFor="api-key-input">{provider === 'gemini' ? 'Gemini API Key' : 'API Key'}</label>
             <div className="input-with-button">
               <input
                 type="password"
                 id="api-key-input"
                 className="input-field"
-                placeholder="Enter your Gemini API key"
+                placeholder={providerInfo.requiresApiKey ? 'Enter your API key' : 'Optional for local servers'}
                 value={apiKey}
                 onInput={handleApiKeyChange}
               />
@@ -90,13 +270,167 @@ export function SettingsModal({
                 {testResult}
               </p>
             )}
+            {provider === 'gemini' && (
+              <p className="help-text">
+                Get your API key from{' '}
+                <a href="https://aistudio.google.com/apikey" target="_blank" rel="noopener noreferrer">
+                  Google AI Studio
+                </a>
+              </p>
+            )}
+          </div>
+
+          {/* Session retention */}
+          <div className="form-group">
+            <label htmlFor="retention-input">Keep sessions for (days)</label>
+            <input
+              type="number"
+              id="retention-input"
+              className="input-field"
+              min={0}
+              value={retentionDays}
+              onInput={(e: TargetedEvent<HTMLInputElement>) => setRetentionDays(parseInt(e.currentTarget.value, 10) || 0)}
+            />
+            <p className="help-text">
+              Sessions not updated within this many days are deleted on startup. Use 0 to keep them forever.
+            </p>
+          </div>
+
+          {/* Encryption */}
+          <div className="form-group">
+            <label>Passphrase Encryption</label>
+            {isEncrypted ? (
+              <div>
+                <p className="help-text success">
+                  API keys and saved sessions are encrypted with your passphrase.
+                </p>
+                <div className="encryption-actions">
+                  <Button className="btn btn-small btn-secondary" onClick={onLock}>
+                    Lock Now
+                  </Button>
+                  <Button
+                    className="btn btn-small btn-secondary"
+                    onClick={handleDisableEncryption}
+                    disabled={isUpdatingEncryption}
+                  >
+                    Disable Encryption
+                  </Button>
+                </div>
+                <label htmlFor="auto-lock-input">Lock after inactivity (minutes)</label>
+                <input
+                  type="number"
+                  id="auto-lock-input"
+                  className="input-field"
+                  min={0}
+                  value={autoLockMinutes}
+                  onInput={(e: TargetedEvent<HTMLInputElement>) => setAutoLockMinutes(parseInt(e.currentTarget.value, 10) || 0)}
+                />
+                <p className="help-text">Use 0 to stay unlocked until the page is closed.</p>
+              </div>
+            ) : (
+              <div>
+                <input
+                  type="password"
+                  className="input-field"
+                  placeholder="New passphrase"
+                  autoComplete="new-password"
+                  value={passphrase}
+                  onInput={(e: TargetedEvent<HTMLInputElement>) => setPassphrase(e.currentTarget.value)}
+                />
+                <input
+                  type="password"
+                  className="input-field"
+                  placeholder="Confirm passphrase"
+                  autoComplete="new-password"
+                  value={confirmPassphrase}
+                  onInput={(e: TargetedEvent<HTMLInputElement>) => setConfirmPassphrase(e.currentTarget.value)}
+                />
+                <Button
+                  className="btn btn-small btn-secondary"
+                  onClick={handleEnableEncryption}
+                  disabled={isUpdatingEncryption || !passphrase}
+                >
+                  Enable Encryption
+                </Button>
+                {passphraseError && (
+                  <p className="help-text error">{passphraseError}</p>
+                )}
+                <p className="help-text">
+                  Encrypts API keys and saved sessions on this computer. The passphrase is needed at every start and cannot be recovered.
+                </p>
+              </div>
+            )}
+          </div>
+
+          {/* Letterhead */}
+          <div className="form-group">
+            <label htmlFor="clinic-name-input">Clinic Letterhead</label>
+            <input
+              type="text"
+              id="clinic-name-input"
+              className="input-field"
+              placeholder="Clinic name"
+              value={letterhead.name}
+              onInput={(e: TargetedEvent<HTMLInputElement>) => setLetterhead({ ...letterhead, name: e.currentTarget.value })}
+            />
+            <textarea
+              className="input-field"
+              rows={3}
+              placeholder="Address"
+              value={letterhead.address}
+              onInput={(e: TargetedEvent<HTMLTextAreaElement>) => setLetterhead({ ...letterhead, address: e.currentTarget.value })}
+            />
+            <input
+              type="tel"
+              className="input-field"
+              placeholder="Phone"
+              value={letterhead.phone}
+              onInput={(e: TargetedEvent<HTMLInputElement>) => setLetterhead({ ...letterhead, phone: e.currentTarget.value })}
+            />
+            <div className="letterhead-logo">
+              {letterhead.logo && <img src={letterhead.logo} alt="Clinic logo" />}
+              <Button className="btn btn-small btn-secondary" onClick={() => logoInputRef.current?.click()}>
+                {letterhead.logo ? 'Change Logo' : 'Add Logo'}
+              </Button>
+              {letterhead.logo && (
+                <Button
+                  className="btn btn-small btn-secondary"
+                  onClick={() => setLetterhead({ ...letterhead, logo: undefined })}
+                >
+                  Remove Logo
+                </Button>
+              )}
+            </div>
+            <input
+              ref={logoInputRef}
+              type="file"
+              accept="image/png,image/jpeg"
+              className="hidden"
+              onChange={handleLogoChange}
+            />
+            {logoError && (
+              <p className="help-text error">{logoError}</p>
+            )}
             <p className="help-text">
-              Get your API key from{' '}
-              <a href="https://aistudio.google.com/apikey" target="_blank" rel="noopener noreferrer">
-                Google AI Studio
-              </a>
+              Printed at the top of exported notes and discharge instructions. Logos must be PNG or JPEG, under 200 KB.
             </p>
           </div>
+
+          {/* Abbreviations */}
+          <div className="form-group">
+            <label>Abbreviations</label>
+            <AbbreviationEditor
+              abbreviations={abbreviations}
+              onChange={(updated) => {
+                setAbbreviations(updated);
+                setAbbreviationError(null);
+              }}
+              onError={setAbbreviationError}
+            />
+            {abbreviationError && (
+              <p className="help-text error">{abbreviationError}</p>
+            )}
+          </div>
         </div>
 
         <div className="modal-footer">
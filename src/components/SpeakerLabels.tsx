@@ -0,0 +1,55 @@
+/**
+ * Speakers found in a diarized transcript, renameable in place
+ */
+
+import { TargetedEvent } from 'preact';
+
+interface SpeakerLabelsProps {
+  speakers: string[];
+  disabled: boolean;
+  onRename: (from: string, to: string) => void;
+}
+
+export function SpeakerLabels({ speakers, disabled, onRename }: SpeakerLabelsProps) {
+  if (speakers.length === 0) {
+    return null;
+  }
+
+  const commit = (speaker: string, input: HTMLInputElement) => {
+    const name = input.value.trim().replace(/:/g, '');
+    if (name && name !== speaker) {
+      onRename(speaker, name);
+    } else {
+      input.value = speaker;
+    }
+  };
+
+  const handleKeyDown = (speaker: string, e: TargetedEvent<HTMLInputElement, KeyboardEvent>) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      e.currentTarget.blur();
+    } else if (e.key === 'Escape') {
+      e.currentTarget.value = speaker;
+      e.currentTarget.blur();
+    }
+  };
+
+  return (
+    <div className="speaker-labels">
+      <span className="speaker-labels-title">Speakers:</span>
+      {speakers.map(speaker => (
+        <input
+          key={speaker}
+          type="text"
+          className="speaker-label-input"
+          defaultValue={speaker}
+          size={Math.max(speaker.length, 6)}
+          disabled={disabled}
+          title="Rename this speaker throughout the transcript"
+          onBlur={(e: TargetedEvent<HTMLInputElement, FocusEvent>) => commit(speaker, e.currentTarget)}
+          onKeyDown={(e: TargetedEvent<HTMLInputElement, KeyboardEvent>) => handleKeyDown(speaker, e)}
+        />
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,87 @@
+/**
+ * Template library controls shown under the template selector
+ */
+
+import { useRef } from 'preact/hooks';
+import { TargetedEvent } from 'preact';
+import { Button } from './shared/Button';
+
+interface TemplateManagerProps {
+  isCustom: boolean;
+  isModified: boolean;
+  onSaveAsNew: (name: string) => void;
+  onOverwrite: () => void;
+  onDelete: () => void;
+  onExport: () => void;
+  onImport: (file: File) => void;
+}
+
+export function TemplateManager({
+  isCustom,
+  isModified,
+  onSaveAsNew,
+  onOverwrite,
+  onDelete,
+  onExport,
+  onImport
+}: TemplateManagerProps) {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const handleSaveAsNew = () => {
+    const name = prompt('Template name:');
+    if (name && name.trim()) {
+      onSaveAsNew(name.trim());
+    }
+  };
+
+  const handleDelete = () => {
+    if (confirm('Delete this template? This cannot be undone.')) {
+      onDelete();
+    }
+  };
+
+  const handleFileChange = (e: TargetedEvent<HTMLInputElement>) => {
+    const file = e.currentTarget.files?.[0];
+    if (file) {
+      onImport(file);
+    }
+    e.currentTarget.value = '';
+  };
+
+  return (
+    <div className="template-manager">
+      {isModified && <span className="template-modified">Modified</span>}
+      <Button className="btn btn-small btn-secondary" onClick={handleSaveAsNew}>
+        Save as New
+      </Button>
+      <Button
+        className="btn btn-small btn-secondary"
+        onClick={onOverwrite}
+        disabled={!isCustom || !isModified}
+        title={isCustom ? 'Overwrite this template' : 'Built-in templates cannot be overwritten'}
+      >
+        Save
+      </Button>
+      <Button
+        className="btn btn-small btn-secondary"
+        onClick={handleDelete}
+        disabled={!isCustom}
+      >
+        Delete
+      </Button>
+      <Button className="btn btn-small btn-secondary" onClick={onExport}>
+        Export
+      </Button>
+      <Button className="btn btn-small btn-secondary" onClick={() => fileInputRef.current?.click()}>
+        Import
+      </Button>
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={handleFileChange}
+      />
+    </div>
+  );
+}
@@ -2,7 +2,10 @@ import { useRef, useState } from 'preact/hooks';
 import { TargetedEvent } from 'preact';
 import { Button } from './shared/Button';
 import { Loading } from './shared/Loading';
-import { AppState } from '../types';
+import { AudioSegmentList } from './AudioSegmentList';
+import { SpeakerLabels } from './SpeakerLabels';
+import { AppState, AudioSegment, SegmentProgress } from '../types';
+import { ACCEPTED_AUDIO_TYPES } from '../utils/audio-files';
 
 interface TranscriptSectionProps {
   appState: AppState;
@@ -10,6 +13,21 @@ interface TranscriptSectionProps {
   onTranscriptChange: (value: string) => void;
   onStartRecording: (getCursorPosition: () => number) => Promise<void>;
   onStopRecording: (getCursorPosition: () => number, setSelectionRange: (start: number, end: number) => void) => Promise<void>;
+  onPauseRecording: () => void;
+  onResumeRecording: () => void;
+  onUploadFiles: (files: File[], getCursorPosition: () => number, setSelectionRange: (start: number, end: number) => void) => Promise<void>;
+  transcriptionProgress: SegmentProgress[];
+  onRetrySegment: (index: number) => void;
+  onSkipSegment: (index: number) => void;
+  audio: AudioSegment[];
+  onRetranscribeSegment: (id: string) => void;
+  onDownloadSegment: (id: string) => void;
+  onExportWav: (id?: string) => void;
+  onDeleteSegment: (id: string) => void;
+  diarize: boolean;
+  onDiarizeChange: (enabled: boolean) => void;
+  speakers: string[];
+  onRenameSpeaker: (from: string, to: string) => void;
 }
 
 export function TranscriptSection({
@@ -17,11 +35,29 @@ export function TranscriptSection({
   transcript,
   onTranscriptChange,
   onStartRecording,
-  onStopRecording
+  onStopRecording,
+  onPauseRecording,
+  onResumeRecording,
+  onUploadFiles,
+  transcriptionProgress,
+  onRetrySegment,
+  onSkipSegment,
+  audio,
+  onRetranscribeSegment,
+  onDownloadSegment,
+  onExportWav,
+  onDeleteSegment,
+  diarize,
+  onDiarizeChange,
+  speakers,
+  onRenameSpeaker
 }: TranscriptSectionProps) {
-  const isRecording = appState === AppState.RECORDING;
+  const isPaused = appState === AppState.PAUSED;
+  const isRecording = appState === AppState.RECORDING || isPaused;
   const isTranscribing = appState === AppState.TRANSCRIBING;
   const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [isDragging, setIsDragging] = useState<boolean>(false);
   const [recordingTime, setRecordingTime] = useState<number>(0);
   const [intervalId, setIntervalId] = useState<NodeJS.Timeout | null>(null);
 
@@ -38,25 +74,76 @@ export function TranscriptSection({
     onTranscriptChange(e.currentTarget.value);
   };
 
-  const handleStartRecording = async () => {
-    await onStartRecording(getCursorPosition);
-
-    // Start timer
+  const startTimer = () => {
     const id = setInterval(() => {
       setRecordingTime(prev => prev + 1);
     }, 1000);
     setIntervalId(id);
   };
 
-  const handleStopRecording = async () => {
+  const stopTimer = () => {
     if (intervalId) {
       clearInterval(intervalId);
       setIntervalId(null);
     }
+  };
+
+  const handleStartRecording = async () => {
+    await onStartRecording(getCursorPosition);
+
+    // Start timer
+    startTimer();
+  };
+
+  const handlePauseRecording = () => {
+    stopTimer();
+    onPauseRecording();
+  };
+
+  const handleResumeRecording = () => {
+    onResumeRecording();
+    startTimer();
+  };
+
+  const handleStopRecording = async () => {
+    stopTimer();
     setRecordingTime(0);
     await onStopRecording(getCursorPosition, setSelectionRange);
   };
 
+  const canUpload = !isRecording && !isTranscribing;
+
+  const handleFileChange = async (e: TargetedEvent<HTMLInputElement>) => {
+    const files = Array.from(e.currentTarget.files ?? []);
+    e.currentTarget.value = '';
+    if (files.length > 0) {
+      await onUploadFiles(files, getCursorPosition, setSelectionRange);
+    }
+  };
+
+  const handleDragOver = (e: DragEvent) => {
+    if (!canUpload || !e.dataTransfer?.types.includes('Files')) return;
+    e.preventDefault();
+    setIsDragging(true);
+  };
+
+  const handleDrop = async (e: DragEvent) => {
+    setIsDragging(false);
+    if (!canUpload || !e.dataTransfer?.files.length) return;
+    e.preventDefault();
+    await onUploadFiles(Array.from(e.dataTransfer.files), getCursorPosition, setSelectionRange);
+  };
+
+  const completedSegments = transcriptionProgress.filter(p => p.status === 'done' || p.status === 'skipped').length;
+  const failedSegments = transcriptionProgress.filter(p => p.status === 'failed');
+
+  const getLoadingMessage = (): string => {
+    if (transcriptionProgress.length <= 1) {
+      return 'Transcribing audio...';
+    }
+    return `Transcribing audio... ${completedSegments} of ${transcriptionProgress.length} segments done`;
+  };
+
   const formatTime = (seconds: number): string => {
     const mins = Math.floor(seconds / 60);
     const secs = seconds % 60;
@@ -65,37 +152,125 @@ export function TranscriptSection({
 
   return (
     <div className="transcript-section">
-      <div className="transcript-content">
+      <SpeakerLabels
+        speakers={speakers}
+        disabled={isRecording || isTranscribing}
+        onRename={onRenameSpeaker}
+      />
+
+      <div
+        className={`transcript-content ${isDragging ? 'drop-active' : ''}`}
+        onDragOver={handleDragOver}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+      >
         <textarea
           ref={textareaRef}
           id="transcript-text"
           className="transcript-editor"
           rows={6}
-          placeholder="Click 'Start Recording' to begin transcription..."
+          placeholder="Click 'Start Recording' to begin transcription, or drop audio files here..."
           value={transcript}
           onInput={handleTextAreaChange}
         />
       </div>
 
-      {isTranscribing && (
-        <Loading message="Transcribing audio..." />
+      {isTranscribing && failedSegments.length === 0 && (
+        <Loading message={getLoadingMessage()} />
+      )}
+
+      {transcriptionProgress.length > 0 && (
+        <div className="segment-progress">
+          <div className="segment-bar" aria-label="Transcription progress">
+            {transcriptionProgress.map(p => (
+              <span
+                key={p.index}
+                className={`segment-cell segment-${p.status}`}
+                title={`Segment ${p.index + 1}: ${p.status}${p.error ? ` (${p.error})` : ''}`}
+              ></span>
+            ))}
+          </div>
+          {failedSegments.map(p => (
+            <div key={p.index} className="segment-failure">
+              <span>Segment {p.index + 1} failed: {p.error}</span>
+              <Button className="btn btn-small btn-secondary" onClick={() => onRetrySegment(p.index)}>
+                Retry
+              </Button>
+              <Button className="btn btn-small btn-secondary" onClick={() => onSkipSegment(p.index)}>
+                Skip
+              </Button>
+            </div>
+          ))}
+        </div>
       )}
 
+      <AudioSegmentList
+        audio={audio}
+        disabled={isRecording || isTranscribing}
+        onRetranscribe={onRetranscribeSegment}
+        onDownload={onDownloadSegment}
+        onExportWav={onExportWav}
+        onDelete={onDeleteSegment}
+      />
+
       <div className="section-header">
         {!isRecording ? (
-          <Button
-            className="btn btn-primary"
-            onClick={handleStartRecording}
-            disabled={isTranscribing}
-          >
-            {transcript.length > 0 ? 'Insert Recording' : 'Start Recording'}
-          </Button>
+          <div className="recording-controls-inline">
+            <Button
+              className="btn btn-primary"
+              onClick={handleStartRecording}
+              disabled={isTranscribing}
+            >
+              {transcript.length > 0 ? 'Insert Recording' : 'Start Recording'}
+            </Button>
+            <Button
+              className="btn btn-secondary"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={!canUpload}
+              title="Transcribe audio files (MP3, WAV, OGG, WebM, M4A...)"
+            >
+              Upload Audio
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={ACCEPTED_AUDIO_TYPES}
+              multiple
+              className="hidden"
+              onChange={handleFileChange}
+            />
+            <label className="checkbox-label" title="Transcribe as speaker turns, e.g. Veterinarian and Owner">
+              <input
+                type="checkbox"
+                checked={diarize}
+                disabled={isTranscribing}
+                onChange={(e: TargetedEvent<HTMLInputElement>) => onDiarizeChange(e.currentTarget.checked)}
+              />
+              Label speakers
+            </label>
+          </div>
         ) : (
           <div className="recording-controls-inline">
             <div className="recording-status-inline">
-              <div className="status-indicator recording"></div>
+              <div className={`status-indicator ${isPaused ? 'paused' : 'recording'}`}></div>
               <span className="recording-timer">{formatTime(recordingTime)}</span>
+              {isPaused && <span className="recording-paused">Paused</span>}
             </div>
+            {isPaused ? (
+              <Button
+                className="btn btn-secondary"
+                onClick={handleResumeRecording}
+              >
+                Resume
+              </Button>
+            ) : (
+              <Button
+                className="btn btn-secondary"
+                onClick={handlePauseRecording}
+              >
+                Pause
+              </Button>
+            )}
             <Button
               className="btn btn-danger"
               onClick={handleStopRecording}
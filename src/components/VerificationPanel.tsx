@@ -0,0 +1,89 @@
+/**
+ * Side panel listing note lines the transcript doesn't back up, with the
+ * transcript evidence for the selected line
+ */
+
+import { Button } from './shared/Button';
+import { ClaimCheck, ClaimSupport } from '../types';
+
+interface VerificationPanelProps {
+  checks: ClaimCheck[];
+  selected: number | null;
+  onSelect: (index: number) => void;
+  onRecheck: () => void;
+  onClose: () => void;
+}
+
+const SUPPORT_LABELS: Record<ClaimSupport, string> = {
+  supported: 'Supported',
+  partial: 'Partly supported',
+  unsupported: 'Not found in transcript',
+  boilerplate: 'Template text',
+};
+
+export function VerificationPanel({ checks, selected, onSelect, onRecheck, onClose }: VerificationPanelProps) {
+  const count = (support: ClaimSupport) => checks.filter(check => check.support === support).length;
+  const flagged = checks
+    .map((check, index) => ({ check, index }))
+    .filter(({ check }) => check.support === 'unsupported' || check.support === 'partial');
+  const current = selected !== null ? checks[selected] : undefined;
+
+  return (
+    <aside className="verification-panel">
+      <div className="verification-header">
+        <strong>Transcript check</strong>
+        <button type="button" className="btn-close" onClick={onClose} aria-label="Close transcript check">×</button>
+      </div>
+
+      <p className="verification-summary">
+        <span className="claim-count claim-unsupported">{count('unsupported')} unsupported</span>
+        <span className="claim-count claim-partial">{count('partial')} partial</span>
+        <span className="claim-count claim-boilerplate">{count('boilerplate')} template</span>
+      </p>
+
+      {current ? (
+        <div className="verification-detail">
+          <p className={`claim-status claim-${current.support}`}>{SUPPORT_LABELS[current.support]}</p>
+          <blockquote className="claim-text">{current.text}</blockquote>
+
+          {current.templateLine && (
+            <>
+              <h4>Template</h4>
+              <blockquote>{current.templateLine}</blockquote>
+            </>
+          )}
+
+          <h4>Transcript evidence</h4>
+          {current.evidence.length > 0 ? (
+            current.evidence.map(span => (
+              <blockquote key={span.start} className="claim-evidence">{span.text}</blockquote>
+            ))
+          ) : (
+            <p className="help-text">No matching transcript text.</p>
+          )}
+
+          {current.unmatched.length > 0 && current.support !== 'boilerplate' && (
+            <p className="help-text">Not in transcript: {current.unmatched.join(', ')}</p>
+          )}
+        </div>
+      ) : flagged.length > 0 ? (
+        <ul className="verification-list">
+          {flagged.map(({ check, index }) => (
+            <li key={index}>
+              <button type="button" className={`claim-link claim-${check.support}`} onClick={() => onSelect(index)}>
+                {check.text}
+              </button>
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="help-text">Every line matches the transcript or the template.</p>
+      )}
+
+      <p className="help-text">Click a line in the note to see its evidence. Matching is by shared words, so review flagged lines rather than deleting them outright.</p>
+      <Button className="btn btn-small btn-secondary" onClick={onRecheck}>
+        Check Again
+      </Button>
+    </aside>
+  );
+}
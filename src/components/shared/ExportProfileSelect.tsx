@@ -0,0 +1,32 @@
+/**
+ * Dropdown of export profiles for copying the note
+ */
+
+import type {TargetedEvent} from 'preact';
+import { ExportProfileId } from '../../types';
+import { EXPORT_PROFILES } from '../../utils/export-profiles';
+
+interface ExportProfileSelectProps {
+  value: ExportProfileId;
+  onChange: (profile: ExportProfileId) => void;
+  disabled?: boolean;
+}
+
+export function ExportProfileSelect({ value, onChange, disabled = false }: ExportProfileSelectProps) {
+  return (
+    <select
+      className="input-field export-profile-select"
+      value={value}
+      disabled={disabled}
+      title="Format for the system the note is pasted into"
+      aria-label="Export format"
+      onChange={(e: TargetedEvent<HTMLSelectElement>) => onChange(e.currentTarget.value as ExportProfileId)}
+    >
+      {EXPORT_PROFILES.map(profile => (
+        <option key={profile.id} value={profile.id}>
+          {profile.name}
+        </option>
+      ))}
+    </select>
+  );
+}
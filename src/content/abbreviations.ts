@@ -1,11 +1,14 @@
+import {Abbreviation} from '../types';
+
 /**
- * Common abbreviations used in transcriptions/records that will be passed to LLM as context.
+ * Default abbreviations used in transcriptions/records that will be passed to LLM as context.
+ * Users can edit their own list in settings.
  */
-export const abbreviations = new Map([
-  ["LBVC", "Loomis Basin Veterinary Clinic"],
-  ["C/S/V/D", "coughing/sneezing/vomiting/diarrhea"],
-  ["P", "patient"],
-  ["O", "owner"],
-  ["AUS", "Abdominal ultrasound"],
-  ["NPO", "nothing by mouth"],
-]);
+export const DEFAULT_ABBREVIATIONS: Abbreviation[] = [
+  {abbreviation: "LBVC", expansion: "Loomis Basin Veterinary Clinic", transcription: true, generation: true},
+  {abbreviation: "C/S/V/D", expansion: "coughing/sneezing/vomiting/diarrhea", transcription: true, generation: true},
+  {abbreviation: "P", expansion: "patient", transcription: true, generation: true},
+  {abbreviation: "O", expansion: "owner", transcription: true, generation: true},
+  {abbreviation: "AUS", expansion: "Abdominal ultrasound", transcription: true, generation: true},
+  {abbreviation: "NPO", expansion: "nothing by mouth", transcription: true, generation: true},
+];
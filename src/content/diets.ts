@@ -0,0 +1,11 @@
+import {Diet} from '../types';
+
+/**
+ * Liquid diets used for NG/E-tube feeding, with their energy density
+ */
+export const DIETS: Diet[] = [
+  {name: "RC GI Low Fat Liquid", kcalPerMl: 0.9},
+  {name: "RC Recovery Liquid", kcalPerMl: 0.9},
+  {name: "RC Renal Liquid (dog)", kcalPerMl: 1.3, species: "Canine"},
+  {name: "RC Renal Liquid (cat)", kcalPerMl: 0.9, species: "Feline"},
+];
@@ -0,0 +1,90 @@
+/**
+ * Prompt and templates for client discharge instructions, written for the
+ * owner rather than the medical record
+ */
+
+import {Template} from '../types';
+
+export const DISCHARGE_PROMPT = `
+You are a veterinary medical assistant writing take-home discharge instructions for a pet's owner.
+Use the visit transcript to write the instructions in the format of the template.
+
+Write in plain, warm language an owner without medical training can follow.
+Explain medical terms and do not use abbreviations.
+Give medications with the dose, how often, for how long and what to do about a missed dose, exactly as stated in the transcript.
+Only include information from the transcript; leave out sections that do not apply.
+Format your response in clean Markdown with clear section headers.
+`.trim();
+
+export const DISCHARGE_TEMPLATES: Map<string, Template> = new Map([
+  ['general',
+    {
+      name: 'General Discharge',
+      content: `
+## Why [PatientName] was seen today
+- Reason for the visit and what we found, in plain language
+
+## Medications
+- Name, what it is for, how much, how often and for how long
+
+## Care at home
+- Feeding, activity and anything else to do at home
+
+## When to call us
+- Signs that mean [PatientName] should be seen sooner
+
+## Follow-up
+- Recheck appointments or test results to expect
+`.trim(),
+    }],
+  ['surgery',
+    {
+      name: 'After Surgery',
+      content: `
+## [PatientName]'s procedure
+- What was done today and how it went
+
+## Medications
+- Pain relief and other medications: how much, how often, for how long
+
+## Incision care
+- Keep the incision clean and dry; cone or recovery suit instructions
+- Check the incision twice a day for redness, swelling or discharge
+
+## Activity
+- Rest and lead-walks only; how long to restrict activity
+
+## Feeding
+- When and how much to feed tonight and over the next days
+
+## When to call us
+- Bleeding, an open incision, not eating, vomiting, or being very quiet
+
+## Follow-up
+- Suture removal or recheck date
+`.trim(),
+    }],
+  ['gastrointestinal',
+    {
+      name: 'Vomiting & Diarrhoea',
+      content: `
+## Why [PatientName] was seen today
+- Summary of the stomach or bowel upset and likely cause
+
+## Feeding
+- Bland or prescription diet, amounts and how to go back to the usual food
+
+## Medications
+- Name, what it is for, how much, how often and for how long
+
+## Water
+- Keep fresh water available; how to encourage drinking
+
+## When to call us
+- Blood in vomit or stool, not keeping water down, weakness, or no improvement in the time given
+
+## Follow-up
+- Recheck or test results to expect
+`.trim(),
+    }],
+]);
@@ -0,0 +1,21 @@
+import {FormularyDrug} from '../types';
+
+/**
+ * Injectable drugs available in the dosing calculator.
+ * Doses are typical canine/feline ranges; always check them against the clinic's own formulary.
+ */
+export const FORMULARY: FormularyDrug[] = [
+  {name: "Acepromazine", concentration: 10, doseMin: 0.01, doseMax: 0.05, routes: "IV/IM/SC"},
+  {name: "Buprenorphine", concentration: 0.3, doseMin: 0.01, doseMax: 0.02, routes: "IV/IM"},
+  {name: "Butorphanol", concentration: 10, doseMin: 0.2, doseMax: 0.4, routes: "IV/IM/SC"},
+  {name: "Cefazolin", concentration: 100, doseMin: 22, doseMax: 22, routes: "IV"},
+  {name: "Dexamethasone SP", concentration: 4, doseMin: 0.1, doseMax: 0.2, routes: "IV/IM/SC"},
+  {name: "Dexmedetomidine", concentration: 0.5, doseMin: 0.001, doseMax: 0.005, routes: "IV/IM"},
+  {name: "Famotidine", concentration: 10, doseMin: 0.5, doseMax: 1, routes: "IV/SC"},
+  {name: "Furosemide", concentration: 50, doseMin: 1, doseMax: 2, routes: "IV/IM/SC"},
+  {name: "Hydromorphone", concentration: 2, doseMin: 0.05, doseMax: 0.1, routes: "IV/IM/SC"},
+  {name: "Maropitant", concentration: 10, doseMin: 1, doseMax: 1, routes: "IV/SC"},
+  {name: "Meloxicam", concentration: 5, doseMin: 0.1, doseMax: 0.2, routes: "IV/SC"},
+  {name: "Methadone", concentration: 10, doseMin: 0.1, doseMax: 0.3, routes: "IV/IM"},
+  {name: "Ondansetron", concentration: 2, doseMin: 0.1, doseMax: 0.2, routes: "IV"},
+];
@@ -25,10 +25,10 @@ export const TEMPLATES: Map<string, Template> = new Map([
       content: `
 ## CURRENT TREATMENTS:
 1. Fluids
-2. Nutrition: RER = ____kcal/d, feeding RC GI LF liquid (0.9kcal/mL) or RC Recovery (0.9kcal/mL) or RC renal liquid (1.3 kcal/mL dog, 0.9kcal/mL cat)
-   * 1/4 RER = _____kcal/d = _____kcal/feeding q4h via NG
-   * Aspirate NG tube prior to feeding, follow feedings with ____ mL H2O via NG
-   * Offer bland diet to face prior to tube feeding, skip if eats at least ____ kcal on own
+2. Nutrition: RER = {{RER:number}} kcal/d, feeding RC GI LF liquid (0.9kcal/mL) or RC Recovery (0.9kcal/mL) or RC renal liquid (1.3 kcal/mL dog, 0.9kcal/mL cat)
+   * 1/4 RER = {{1/4 RER:number}} kcal/d = {{kcal per feeding:number}} kcal/feeding q4h via NG
+   * Aspirate NG tube prior to feeding, follow feedings with {{Water flush (mL):number}} mL H2O via NG
+   * Offer bland diet to face prior to tube feeding, skip if eats at least {{Voluntary intake threshold (kcal)?:number}} kcal on own
 ## DIAGNOSTICS:
 * Heska CPP:
 * PCV/TS:
@@ -40,7 +40,7 @@ export const TEMPLATES: Map<string, Template> = new Map([
   * NOVA:
 * 3v AXR / CXR / WBXR report:
 * Lactate:
-* Doppler / Cardell BP (#__ cuff on ___L unless otherwise specified) :
+* Doppler / Cardell BP (#{{Cuff size?:number}} cuff on {{Cuff limb?:choice(RF|LF|RH|LH)}} unless otherwise specified) :
   *
   * UA:
 * FIRSTrack UMIC:
@@ -49,7 +49,7 @@ export const TEMPLATES: Map<string, Template> = new Map([
 ## PROBLEM LIST:
 1.
 AM ASSESSMENT / OWNER COMMUNICATION:
-TTO ([ClientFirstName], phone) @ ___ : ___
+TTO ([ClientFirstName], phone) @ {{Call time}}
 `.trim(),
     }],
   ['inpatient-plan', {
@@ -73,7 +73,7 @@ TTO ([ClientFirstName], phone) @ ___ : ___
 Discussed vaccine schedule and vaccine reactions.
 Recommended monthly flea/tick/heartworm
 Recommend heartworm testing.
-Recommend performing dental cleaning in _
+Recommend performing dental cleaning in {{Dental cleaning timeframe?:choice(3 months|6 months|1 year)}}
 Recommend screening labwork.
 
 ## Diagnostics:
@@ -100,7 +100,7 @@ OK to refill preventative products with annual exam.
 
 - Discussed vaccine schedule and vaccine reactions.
 - Recommended monthly flea/tick/heartworm
-- Recommend performing dental cleaning in _
+- Recommend performing dental cleaning in {{Dental cleaning timeframe?:choice(3 months|6 months|1 year)}}
 - Recommend screening labwork.
 
 ## Diagnostics:
@@ -5,12 +5,40 @@
 
 import { AudioData } from '../types';
 
+// Long consults are split so each request stays small and can be retried alone
+export const DEFAULT_SEGMENT_SECONDS = 120;
+
+// Data is flushed from MediaRecorder this often so it can be buffered to disk
+const CHUNK_INTERVAL_MS = 1000;
+
+export interface RecordingOptions {
+  onTimeUpdate?: (elapsed: number) => void;
+  // Called with each chunk of raw data as it is recorded, for crash-safe buffering
+  onChunk?: (chunk: Blob, segmentIndex: number, mimeType: string) => void;
+  // Called as each segment finishes, in order
+  onSegment?: (segment: AudioData, index: number) => void;
+  // Split the recording into segments of this length; 0 or unset records one segment
+  segmentSeconds?: number;
+}
+
 export class AudioRecorder {
   private mediaRecorder: MediaRecorder | null = null;
   private audioChunks: Blob[] = [];
   private stream: MediaStream | null = null;
+  private mimeType: string = '';
   private startTime: number | null = null;
+  private segmentStartTime: number | null = null;
+  private segmentIndex = 0;
+  // Time spent paused, excluded from durations and the timer
+  private pausedAt: number | null = null;
+  private pausedMs = 0;
+  private segmentPausedMs = 0;
+  private segmentRemainingMs: number | null = null;
   private timerInterval: NodeJS.Timeout | null = null;
+  private segmentTimer: NodeJS.Timeout | null = null;
+  private options: RecordingOptions = {};
+  private segments: AudioData[] = [];
+  private pendingSegments: Promise<void>[] = [];
 
   /**
    * Check if browser supports audio recording
@@ -41,15 +69,9 @@ export class AudioRecorder {
       });
 
       // Create MediaRecorder with supported mime type
-      const mimeType = this.getSupportedMimeType();
-      this.mediaRecorder = new MediaRecorder(this.stream, { mimeType });
-
-      // Set up event handlers
-      this.mediaRecorder.ondataavailable = (event: BlobEvent) => {
-        if (event.data.size > 0) {
-          this.audioChunks.push(event.data);
-        }
-      };
+      this.mimeType = this.getSupportedMimeType();
+      this.audioChunks = [];
+      this.mediaRecorder = this.createRecorder(this.audioChunks, 0);
 
       return true;
     } catch (error) {
@@ -87,10 +109,38 @@ export class AudioRecorder {
     return ''; // Use browser default
   }
 
+  /**
+   * Create a MediaRecorder that collects its data into the given array
+   */
+  private createRecorder(chunks: Blob[], segmentIndex: number): MediaRecorder {
+    if (!this.stream) {
+      throw new Error('Recorder not initialized. Call initialize() first.');
+    }
+
+    const recorder = new MediaRecorder(this.stream, { mimeType: this.mimeType });
+    recorder.ondataavailable = (event: BlobEvent) => {
+      if (event.data.size > 0) {
+        chunks.push(event.data);
+        this.options.onChunk?.(event.data, segmentIndex, recorder.mimeType || 'audio/webm');
+      }
+    };
+    return recorder;
+  }
+
+  /**
+   * Milliseconds recorded since the given start, excluding paused time
+   */
+  private getActiveMs(since: number, pausedMs: number): number {
+    const now = this.pausedAt ?? Date.now();
+    return now - since - pausedMs;
+  }
+
   /**
    * Start recording
+   * With a segment length set, the recording is split into independently
+   * decodable segments which are reported through onSegment as they finish
    */
-  start(onTimeUpdate?: (elapsed: number) => void): void {
+  start(options: RecordingOptions = {}): void {
     if (!this.mediaRecorder) {
       throw new Error('Recorder not initialized. Call initialize() first.');
     }
@@ -99,67 +149,168 @@ export class AudioRecorder {
       throw new Error('Recording already in progress.');
     }
 
-    this.audioChunks = [];
+    this.options = options;
+    this.segments = [];
+    this.pendingSegments = [];
+    this.segmentIndex = 0;
+    this.pausedAt = null;
+    this.pausedMs = 0;
+    this.segmentPausedMs = 0;
     this.startTime = Date.now();
+    this.segmentStartTime = this.startTime;
 
     // Start timer updates
+    const { onTimeUpdate } = options;
     if (onTimeUpdate) {
       this.timerInterval = setInterval(() => {
         if (this.startTime) {
-          const elapsed = Math.floor((Date.now() - this.startTime) / 1000);
+          const elapsed = Math.floor(this.getActiveMs(this.startTime, this.pausedMs) / 1000);
           onTimeUpdate(elapsed);
         }
       }, 1000);
     }
 
-    this.mediaRecorder.start();
+    this.mediaRecorder.start(CHUNK_INTERVAL_MS);
+    this.scheduleSegmentRotation();
   }
 
   /**
-   * Stop recording and return audio blob
+   * Pause recording; the current segment continues on resume
    */
-  async stop(): Promise<AudioData> {
+  pause(): void {
     if (!this.mediaRecorder || this.mediaRecorder.state !== 'recording') {
-      throw new Error('No active recording to stop.');
+      throw new Error('No active recording to pause.');
     }
 
-    // Clear timer
-    if (this.timerInterval) {
-      clearInterval(this.timerInterval);
-      this.timerInterval = null;
+    this.mediaRecorder.pause();
+    this.pausedAt = Date.now();
+
+    if (this.segmentTimer) {
+      clearTimeout(this.segmentTimer);
+      this.segmentTimer = null;
+      const segmentMs = (this.options.segmentSeconds ?? 0) * 1000;
+      this.segmentRemainingMs = Math.max(0, segmentMs - this.getActiveMs(this.segmentStartTime ?? this.pausedAt, this.segmentPausedMs));
     }
+  }
 
-    return new Promise((resolve, reject) => {
-      if (!this.mediaRecorder) {
-        reject(new Error('MediaRecorder not initialized'));
-        return;
-      }
+  /**
+   * Resume a paused recording
+   */
+  resume(): void {
+    if (!this.mediaRecorder || this.mediaRecorder.state !== 'paused' || this.pausedAt === null) {
+      throw new Error('No paused recording to resume.');
+    }
 
-      this.mediaRecorder.onstop = () => {
-        if (!this.mediaRecorder || !this.startTime) {
-          reject(new Error('Recording state invalid'));
-          return;
-        }
+    const pausedFor = Date.now() - this.pausedAt;
+    this.pausedMs += pausedFor;
+    this.segmentPausedMs += pausedFor;
+    this.pausedAt = null;
+
+    this.mediaRecorder.resume();
+    this.scheduleSegmentRotation(this.segmentRemainingMs ?? undefined);
+    this.segmentRemainingMs = null;
+  }
 
-        const mimeType = this.mediaRecorder.mimeType || 'audio/webm';
-        const audioBlob = new Blob(this.audioChunks, { type: mimeType });
-        const duration = Math.floor((Date.now() - this.startTime) / 1000);
+  private scheduleSegmentRotation(delayMs?: number): void {
+    const { segmentSeconds } = this.options;
+    if (segmentSeconds && segmentSeconds > 0) {
+      this.segmentTimer = setTimeout(() => this.rotateSegment(), delayMs ?? segmentSeconds * 1000);
+    }
+  }
+
+  /**
+   * Finish the current segment and immediately continue in a new one
+   */
+  private rotateSegment(): void {
+    const finished = this.mediaRecorder;
+    if (!finished || finished.state !== 'recording') return;
 
-        resolve({
-          blob: audioBlob,
+    const index = this.segmentIndex++;
+    const chunks = this.audioChunks;
+    const duration = this.getSegmentDuration();
+
+    this.audioChunks = [];
+    this.mediaRecorder = this.createRecorder(this.audioChunks, this.segmentIndex);
+    this.segmentStartTime = Date.now();
+    this.segmentPausedMs = 0;
+    this.mediaRecorder.start(CHUNK_INTERVAL_MS);
+
+    this.pendingSegments.push(this.finishSegment(finished, chunks, index, duration));
+    this.scheduleSegmentRotation();
+  }
+
+  /**
+   * Active length of the current segment in seconds
+   */
+  private getSegmentDuration(): number {
+    if (!this.segmentStartTime) return 0;
+    return Math.floor(this.getActiveMs(this.segmentStartTime, this.segmentPausedMs) / 1000);
+  }
+
+  /**
+   * Stop a recorder and report its data as one segment
+   */
+  private finishSegment(
+    recorder: MediaRecorder,
+    chunks: Blob[],
+    index: number,
+    duration: number
+  ): Promise<void> {
+    return new Promise((resolve, reject) => {
+      recorder.onstop = () => {
+        const mimeType = recorder.mimeType || 'audio/webm';
+        const segment: AudioData = {
+          blob: new Blob(chunks, { type: mimeType }),
           mimeType: mimeType,
           duration: duration
-        });
+        };
+        this.segments[index] = segment;
+        this.options.onSegment?.(segment, index);
+        resolve();
       };
 
-      this.mediaRecorder.onerror = (event: Event) => {
+      recorder.onerror = (event: Event) => {
         reject(new Error(`Recording error: ${(event as ErrorEvent).message || 'Unknown error'}`));
       };
 
-      this.mediaRecorder.stop();
+      recorder.stop();
     });
   }
 
+  /**
+   * Stop recording and return the recorded segments in order
+   * (a single segment when no segment length was set)
+   */
+  async stop(): Promise<AudioData[]> {
+    if (!this.mediaRecorder || this.mediaRecorder.state === 'inactive') {
+      throw new Error('No active recording to stop.');
+    }
+
+    // Clear timers
+    if (this.timerInterval) {
+      clearInterval(this.timerInterval);
+      this.timerInterval = null;
+    }
+    if (this.segmentTimer) {
+      clearTimeout(this.segmentTimer);
+      this.segmentTimer = null;
+    }
+
+    if (!this.startTime || !this.segmentStartTime) {
+      throw new Error('Recording state invalid');
+    }
+
+    const duration = this.getSegmentDuration();
+    await Promise.all([
+      ...this.pendingSegments,
+      this.finishSegment(this.mediaRecorder, this.audioChunks, this.segmentIndex, duration)
+    ]);
+    this.pausedAt = null;
+    this.pendingSegments = [];
+
+    return this.segments;
+  }
+
   /**
    * Get current recording state
    */
@@ -172,7 +323,7 @@ export class AudioRecorder {
    */
   getDuration(): number {
     if (!this.startTime) return 0;
-    return Math.floor((Date.now() - this.startTime) / 1000);
+    return Math.floor(this.getActiveMs(this.startTime, this.pausedMs) / 1000);
   }
 
   /**
@@ -182,6 +333,10 @@ export class AudioRecorder {
     if (this.timerInterval) {
       clearInterval(this.timerInterval);
     }
+    if (this.segmentTimer) {
+      clearTimeout(this.segmentTimer);
+      this.segmentTimer = null;
+    }
 
     if (this.stream) {
       this.stream.getTracks().forEach(track => track.stop());
@@ -190,6 +345,14 @@ export class AudioRecorder {
 
     this.mediaRecorder = null;
     this.audioChunks = [];
+    this.segments = [];
+    this.pendingSegments = [];
     this.startTime = null;
+    this.segmentStartTime = null;
+    this.segmentIndex = 0;
+    this.pausedAt = null;
+    this.pausedMs = 0;
+    this.segmentPausedMs = 0;
+    this.segmentRemainingMs = null;
   }
 }
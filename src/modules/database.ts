@@ -0,0 +1,101 @@
+/**
+ * IndexedDB access shared by the persistent stores
+ * Opens the application database and wraps requests in promises
+ */
+
+const DB_NAME = 'web-records';
+const DB_VERSION = 2;
+
+export const STORES = {
+  SESSIONS: 'sessions',
+  RECORDING_CHUNKS: 'recording_chunks',
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+/**
+ * Open (and upgrade if needed) the application database
+ */
+export function openDatabase(): Promise<IDBDatabase> {
+  if (typeof indexedDB === 'undefined') {
+    return Promise.reject(new Error('IndexedDB is not supported in this browser.'));
+  }
+
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORES.SESSIONS)) {
+          const sessions = db.createObjectStore(STORES.SESSIONS, { keyPath: 'id' });
+          sessions.createIndex('timestamp', 'timestamp');
+        }
+        if (!db.objectStoreNames.contains(STORES.RECORDING_CHUNKS)) {
+          const chunks = db.createObjectStore(STORES.RECORDING_CHUNKS, { keyPath: 'id', autoIncrement: true });
+          chunks.createIndex('recordingId', 'recordingId');
+        }
+      };
+
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(new Error(`Failed to open database: ${request.error?.message ?? 'Unknown error'}`));
+      };
+    });
+  }
+
+  return dbPromise;
+}
+
+/**
+ * Wrap an IDBRequest in a promise
+ */
+export function promisifyRequest<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error ?? new Error('IndexedDB request failed'));
+  });
+}
+
+/**
+ * Run a callback against a single object store inside a transaction
+ * Resolves once the transaction completes
+ */
+export async function withStore<T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  callback: (store: IDBObjectStore) => Promise<T> | T
+): Promise<T> {
+  const db = await openDatabase();
+  const transaction = db.transaction(storeName, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transaction aborted'));
+    transaction.onerror = () => reject(transaction.error ?? new Error('Transaction failed'));
+  });
+
+  const result = await callback(transaction.objectStore(storeName));
+  await done;
+  return result;
+}
+
+/**
+ * Delete the whole application database
+ */
+export async function deleteDatabase(): Promise<void> {
+  if (typeof indexedDB === 'undefined') return;
+
+  if (dbPromise) {
+    const db = await dbPromise.catch(() => null);
+    db?.close();
+    dbPromise = null;
+  }
+
+  await new Promise<void>((resolve, reject) => {
+    const request = indexedDB.deleteDatabase(DB_NAME);
+    request.onsuccess = () => resolve();
+    request.onerror = () => reject(request.error ?? new Error('Failed to delete database'));
+    request.onblocked = () => resolve();
+  });
+}
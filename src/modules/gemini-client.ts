@@ -1,18 +1,27 @@
-import { GoogleGenAI } from '@google/genai';
+import { GoogleGenAI, Type } from '@google/genai';
 
-import { abbreviations } from "../content/abbreviations";
+import { Abbreviation, NoteEditRequest, NoteRequest, ProviderOptions, SpeakerTurn, TemplateSection } from '../types';
+import { buildDiarizationPrompt, buildNoteEditParts, buildNoteUserParts, buildStructuredNoteInstruction, buildTranscriptionPrompt } from '../utils/prompt-builder';
+import { normalizeSpeakerTurns } from '../utils/speakers';
+import type { LLMProvider } from './llm-provider';
 
-const transcriptionModel = 'gemini-2.5-flash';
-const analysisModel = 'gemini-2.5-pro';
+export const GEMINI_DEFAULT_OPTIONS: ProviderOptions = {
+  transcriptionModel: 'gemini-2.5-flash',
+  analysisModel: 'gemini-2.5-pro',
+};
 
-export class GeminiClient {
+export class GeminiClient implements LLMProvider {
   private genAI: GoogleGenAI;
+  private transcriptionModel: string;
+  private analysisModel: string;
 
-  constructor(apiKey: string) {
+  constructor(apiKey: string, options: ProviderOptions = GEMINI_DEFAULT_OPTIONS) {
     if (!apiKey) {
       throw new Error('API key is required');
     }
     this.genAI = new GoogleGenAI({apiKey});
+    this.transcriptionModel = options.transcriptionModel || GEMINI_DEFAULT_OPTIONS.transcriptionModel;
+    this.analysisModel = options.analysisModel || GEMINI_DEFAULT_OPTIONS.analysisModel;
   }
 
   /**
@@ -36,9 +45,12 @@ export class GeminiClient {
   private getGeminiMimeType(mimeType: string): string {
     // Gemini supports specific audio formats
     if (mimeType.includes('webm')) return 'audio/webm';
-    if (mimeType.includes('mp3')) return 'audio/mp3';
+    if (mimeType.includes('mp3') || mimeType.includes('mpeg')) return 'audio/mp3';
     if (mimeType.includes('wav')) return 'audio/wav';
     if (mimeType.includes('ogg')) return 'audio/ogg';
+    if (mimeType.includes('aac') || mimeType.includes('mp4')) return 'audio/aac';
+    if (mimeType.includes('flac')) return 'audio/flac';
+    if (mimeType.includes('aiff')) return 'audio/aiff';
     return 'audio/webm'; // default
   }
 
@@ -46,11 +58,13 @@ export class GeminiClient {
    * Transcribe audio to text using Gemini
    * @param audioBlob - Audio data
    * @param mimeType - MIME type of audio
+   * @param abbreviations - Dictionary; entries marked for transcription are given as context
    * @returns Transcribed text
    */
   async transcribeAudio(
     audioBlob: Blob,
     mimeType: string,
+    abbreviations: Abbreviation[] = [],
   ): Promise<string> {
     try {
       // Convert blob to base64
@@ -58,15 +72,11 @@ export class GeminiClient {
       const geminiMimeType = this.getGeminiMimeType(mimeType);
 
       // Prepare the prompt and audio data
-      const prompt = `Transcribe this veterinary consultation audio into text.
-        Include all spoken content accurately, preserving medical terminology.
-        Format as plain text without adding any commentary or notes.
-        Spoken punctuation or formatting guidelines (such as "enter" or "period") should be interpreted before output, not returned verbatim.
-        Common abbreviations include ${Array.from(abbreviations.entries()).map(([key, value]) => `${key}: ${value}`).join(', ')}`;
+      const prompt = buildTranscriptionPrompt(abbreviations);
 
       // Generate transcription using new API
       const response = await this.genAI.models.generateContent({
-        model: transcriptionModel,
+        model: this.transcriptionModel,
         contents: [
           {
             role: 'user',
@@ -93,54 +103,109 @@ export class GeminiClient {
 
       return text.trim();
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-
-      if (errorMessage.includes('API_KEY_INVALID') || errorMessage.includes('API key')) {
-        throw new Error('Invalid API key. Please check your Gemini API key in settings.');
-      } else if (errorMessage.includes('quota') || errorMessage.includes('rate limit')) {
-        throw new Error('API rate limit exceeded. Please wait a moment and try again.');
-      } else if (errorMessage.includes('audio') || errorMessage.includes('format')) {
-        throw new Error('Audio format not supported. Please try recording again.');
-      } else {
-        throw new Error(`Transcription failed: ${errorMessage}`);
-      }
+      throw this.toTranscriptionError(error);
+    }
+  }
+
+  /**
+   * Transcribe audio as structured speaker turns using Gemini's JSON output
+   * @param audioBlob - Audio data
+   * @param mimeType - MIME type of audio
+   * @param abbreviations - Dictionary; entries marked for transcription are given as context
+   * @returns Speaker turns in spoken order
+   */
+  async transcribeAudioDiarized(
+    audioBlob: Blob,
+    mimeType: string,
+    abbreviations: Abbreviation[] = [],
+  ): Promise<SpeakerTurn[]> {
+    let text: string | undefined;
+    try {
+      const base64Audio = await this.blobToBase64(audioBlob);
+
+      const response = await this.genAI.models.generateContent({
+        model: this.transcriptionModel,
+        contents: [
+          {
+            role: 'user',
+            parts: [
+              {
+                inlineData: {
+                  data: base64Audio,
+                  mimeType: this.getGeminiMimeType(mimeType)
+                }
+              }
+            ]
+          }
+        ],
+        config: {
+          systemInstruction: buildDiarizationPrompt(abbreviations),
+          responseMimeType: 'application/json',
+          responseSchema: {
+            type: Type.ARRAY,
+            items: {
+              type: Type.OBJECT,
+              properties: {
+                speaker: { type: Type.STRING },
+                start: { type: Type.NUMBER },
+                end: { type: Type.NUMBER },
+                text: { type: Type.STRING },
+              },
+              required: ['speaker', 'start', 'end', 'text'],
+            },
+          },
+        },
+      });
+      text = response.text;
+    } catch (error) {
+      throw this.toTranscriptionError(error);
+    }
+
+    if (!text || text.trim().length === 0) {
+      throw new Error('Transcription returned empty result');
+    }
+
+    let turns: SpeakerTurn[];
+    try {
+      turns = normalizeSpeakerTurns(JSON.parse(text));
+    } catch (error) {
+      throw new Error('Transcription failed: response was not valid speaker turns');
+    }
+    if (turns.length === 0) {
+      throw new Error('Transcription returned empty result');
+    }
+    return turns;
+  }
+
+  /**
+   * Map a transcription failure to a user-facing error
+   */
+  private toTranscriptionError(error: unknown): Error {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    if (errorMessage.includes('API_KEY_INVALID') || errorMessage.includes('API key')) {
+      return new Error('Invalid API key. Please check your Gemini API key in settings.');
+    } else if (errorMessage.includes('quota') || errorMessage.includes('rate limit')) {
+      return new Error('API rate limit exceeded. Please wait a moment and try again.');
+    } else if (errorMessage.includes('audio') || errorMessage.includes('format')) {
+      return new Error('Audio format not supported. Please try recording again.');
+    } else {
+      return new Error(`Transcription failed: ${errorMessage}`);
     }
   }
 
   /**
    * Generate medical note from transcript
-   * @param transcript - User's raw transcription
-   * @param systemPrompt - System prompt for note generation
-   * @param templateContent - Optional template content to include as context
+   * @param request - Transcript, system prompt, template, abbreviations and patient details
    * @returns SOAP note in Markdown format
    */
-  async generateNote(
-    transcript: string,
-    systemPrompt: string,
-    templateContent?: string
-  ): Promise<string> {
+  async generateNote(request: NoteRequest): Promise<string> {
     try {
       // Build user message parts
-      const userParts: Array<{ text: string }> = [
-        {
-          text: `The user's transcription follows.
-          Common phrases that should be abbreviated into their short form include
-          ${Array.from(abbreviations.entries()).map(([key, value]) => `${key}: ${value}`).join(', ')}}
-          `
-        },
-        {text: transcript}
-      ];
-
-      // Add template if provided
-      if (templateContent && templateContent.trim().length > 0) {
-        userParts.push(
-          {text: "Use the below template to structure the output, but only use content from the user's transcription"},
-          {text: templateContent},
-        );
-      }
+      const userParts: Array<{ text: string }> = buildNoteUserParts(request).map(text => ({text}));
 
       const response = await this.genAI.models.generateContent({
-        model: analysisModel,
+        model: this.analysisModel,
         contents: [
           {
             role: "user",
@@ -151,7 +216,7 @@ export class GeminiClient {
           // thinkingConfig: {
           //   thinkingBudget: -1,
           // },
-          systemInstruction: systemPrompt,
+          systemInstruction: request.systemPrompt,
         },
       });
 
@@ -163,16 +228,169 @@ export class GeminiClient {
 
       return text.trim();
     } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : String(error);
-
-      if (errorMessage.includes('API_KEY_INVALID') || errorMessage.includes('API key')) {
-        throw new Error('Invalid API key. Please check your Gemini API key in settings.');
-      } else if (errorMessage.includes('quota') || errorMessage.includes('rate limit')) {
-        throw new Error('API rate limit exceeded. Please wait a moment and try again.');
-      } else {
-        throw new Error(`SOAP generation failed: ${errorMessage}`);
+      throw this.toGenerationError(error);
+    }
+  }
+
+  /**
+   * Generate medical note, reporting the text as it streams in
+   * @param request - Transcript, system prompt, template, abbreviations and patient details
+   * @param onChunk - Called with the accumulated Markdown after each chunk
+   * @param signal - Aborting stops the stream and resolves with the partial text
+   * @returns SOAP note in Markdown format
+   */
+  async generateNoteStream(
+    request: NoteRequest,
+    onChunk: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<string> {
+    let text = '';
+    let onAbort: (() => void) | null = null;
+    try {
+      const userParts: Array<{ text: string }> = buildNoteUserParts(request).map(text => ({text}));
+
+      const stream = await this.genAI.models.generateContentStream({
+        model: this.analysisModel,
+        contents: [
+          {
+            role: "user",
+            parts: userParts,
+          },
+        ],
+        config: {
+          systemInstruction: request.systemPrompt,
+        },
+      });
+
+      // The SDK has no abort support, so stop waiting on the next chunk ourselves
+      const aborted = new Promise<IteratorResult<never>>(resolve => {
+        onAbort = () => resolve({ done: true, value: undefined as never });
+        if (signal?.aborted) onAbort();
+        signal?.addEventListener('abort', onAbort, { once: true });
+      });
+
+      while (true) {
+        const result = await Promise.race([stream.next(), aborted]);
+        if (result.done) break;
+        text += result.value.text ?? '';
+        onChunk(text);
+      }
+
+      if (signal?.aborted) {
+        stream.return(undefined).catch(() => undefined);
+        return text.trim();
+      }
+    } catch (error) {
+      throw this.toGenerationError(error);
+    } finally {
+      if (onAbort) {
+        signal?.removeEventListener('abort', onAbort);
       }
     }
+
+    if (text.trim().length === 0) {
+      throw new Error('SOAP generation returned empty result');
+    }
+
+    return text.trim();
+  }
+
+  /**
+   * Generate a note as JSON matching a schema built from the template sections
+   * The SDK cannot cancel requests, so a stopped generation is discarded by the caller
+   * @param request - Transcript, system prompt, template, abbreviations and patient details
+   * @param sections - Sections the response must contain
+   * @returns Parsed JSON object
+   */
+  async generateStructuredNote(request: NoteRequest, sections: TemplateSection[]): Promise<unknown> {
+    let text: string | undefined;
+    try {
+      const userParts = [...buildNoteUserParts(request), buildStructuredNoteInstruction(sections)].map(text => ({text}));
+      const titles = sections.map(section => section.title);
+
+      const response = await this.genAI.models.generateContent({
+        model: this.analysisModel,
+        contents: [
+          {
+            role: "user",
+            parts: userParts,
+          },
+        ],
+        config: {
+          systemInstruction: request.systemPrompt,
+          responseMimeType: 'application/json',
+          responseSchema: {
+            type: Type.OBJECT,
+            properties: Object.fromEntries(sections.map(section => [
+              section.title,
+              { type: Type.STRING, description: section.guidance || undefined },
+            ])),
+            required: titles,
+            propertyOrdering: titles,
+          },
+        },
+      });
+      text = response.text;
+    } catch (error) {
+      throw this.toGenerationError(error);
+    }
+
+    if (!text || text.trim().length === 0) {
+      throw new Error('SOAP generation returned empty result');
+    }
+
+    try {
+      return JSON.parse(text);
+    } catch (error) {
+      throw new Error('SOAP generation failed: response was not valid JSON');
+    }
+  }
+
+  /**
+   * Rewrite part of a note
+   * @param request - Text to rewrite, the command, and the note's generation context
+   * @returns Replacement Markdown
+   */
+  async editNote(request: NoteEditRequest): Promise<string> {
+    let text: string | undefined;
+    try {
+      const response = await this.genAI.models.generateContent({
+        model: this.analysisModel,
+        contents: [
+          {
+            role: "user",
+            parts: buildNoteEditParts(request).map(text => ({text})),
+          },
+        ],
+        config: {
+          systemInstruction: request.systemPrompt,
+        },
+      });
+      text = response.text;
+    } catch (error) {
+      throw this.toGenerationError(error);
+    }
+
+    if (!text || text.trim().length === 0) {
+      throw new Error('Note edit returned empty result');
+    }
+
+    return text.trim();
+  }
+
+  /**
+   * Map a note generation failure to a user-facing error
+   */
+  private toGenerationError(error: unknown): Error {
+    const errorMessage = error instanceof Error ? error.message : String(error);
+
+    if (errorMessage.includes('API_KEY_INVALID') || errorMessage.includes('API key')) {
+      return new Error('Invalid API key. Please check your Gemini API key in settings.');
+    } else if (errorMessage.includes('quota') || errorMessage.includes('rate limit')) {
+      return new Error('API rate limit exceeded. Please wait a moment and try again.');
+    } else {
+      return new Error(`SOAP generation failed: ${errorMessage}`);
+    }
   }
 
   /**
@@ -182,7 +400,7 @@ export class GeminiClient {
   async testApiKey(): Promise<boolean> {
     try {
       const response = await this.genAI.models.generateContent({
-        model: transcriptionModel,
+        model: this.transcriptionModel,
         contents: 'Hello'
       });
       return !!(response && response.text);
@@ -0,0 +1,119 @@
+/**
+ * LLM provider abstraction
+ * Transcription and note generation go through this interface so the
+ * backing service (Gemini, an OpenAI-compatible server, ...) can be swapped
+ */
+
+import { Abbreviation, NoteEditRequest, NoteRequest, ProviderId, ProviderOptions, SpeakerTurn, TemplateSection } from '../types';
+import { GEMINI_DEFAULT_OPTIONS, GeminiClient } from './gemini-client';
+import { OPENAI_DEFAULT_OPTIONS, OpenAICompatibleClient } from './openai-client';
+import { Storage } from './storage';
+
+export interface LLMProvider {
+  /**
+   * Transcribe audio to text
+   * @param audioBlob - Audio data
+   * @param mimeType - MIME type of audio
+   * @param abbreviations - Dictionary; entries marked for transcription are given as context
+   * @returns Transcribed text
+   */
+  transcribeAudio(audioBlob: Blob, mimeType: string, abbreviations?: Abbreviation[]): Promise<string>;
+
+  /**
+   * Transcribe audio, labelling who is speaking
+   * @param audioBlob - Audio data
+   * @param mimeType - MIME type of audio
+   * @param abbreviations - Dictionary; entries marked for transcription are given as context
+   * @returns Speaker turns in spoken order
+   */
+  transcribeAudioDiarized(audioBlob: Blob, mimeType: string, abbreviations?: Abbreviation[]): Promise<SpeakerTurn[]>;
+
+  /**
+   * Generate medical note from transcript
+   * @returns Note in Markdown format
+   */
+  generateNote(request: NoteRequest): Promise<string>;
+
+  /**
+   * Generate medical note, reporting the text as it streams in
+   * @param onChunk - Called with the accumulated Markdown after each chunk
+   * @param signal - Aborting stops the stream and resolves with the partial text
+   * @returns Note in Markdown format
+   */
+  generateNoteStream(request: NoteRequest, onChunk: (text: string) => void, signal?: AbortSignal): Promise<string>;
+
+  /**
+   * Generate a note as JSON with one property per template section
+   * @param sections - Sections the response schema requires
+   * @param signal - Aborting rejects the request where the backend supports it
+   * @returns Parsed JSON, to be checked with validateStructuredNote
+   */
+  generateStructuredNote(request: NoteRequest, sections: TemplateSection[], signal?: AbortSignal): Promise<unknown>;
+
+  /**
+   * Rewrite part of a note, e.g. shorten it or regenerate one section
+   * @param signal - Aborting rejects the request where the backend supports it
+   * @returns Replacement Markdown for that part
+   */
+  editNote(request: NoteEditRequest, signal?: AbortSignal): Promise<string>;
+
+  /**
+   * Check that the provider is reachable with the configured credentials
+   */
+  testApiKey(): Promise<boolean>;
+}
+
+export interface ProviderInfo {
+  name: string;
+  defaultOptions: ProviderOptions;
+  requiresApiKey: boolean;
+  // Suggested model names for the settings form
+  models: string[];
+}
+
+export const PROVIDER_IDS: ProviderId[] = ['gemini', 'openai'];
+
+export const PROVIDERS: Record<ProviderId, ProviderInfo> = {
+  gemini: {
+    name: 'Google Gemini',
+    defaultOptions: GEMINI_DEFAULT_OPTIONS,
+    requiresApiKey: true,
+    models: ['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.5-flash-lite'],
+  },
+  openai: {
+    name: 'OpenAI-compatible',
+    defaultOptions: OPENAI_DEFAULT_OPTIONS,
+    requiresApiKey: false,
+    models: ['whisper-1', 'gpt-4o-mini-transcribe', 'gpt-4o-transcribe', 'gpt-4o-transcribe-diarize', 'gpt-4o', 'gpt-4o-mini'],
+  },
+};
+
+/**
+ * Create a provider instance
+ * @param id - Provider to use
+ * @param apiKey - API key for the provider (may be empty for local servers)
+ * @param options - Model names and endpoint
+ */
+export function createProvider(id: ProviderId, apiKey: string, options: ProviderOptions): LLMProvider {
+  switch (id) {
+    case 'gemini':
+      return new GeminiClient(apiKey, options);
+    case 'openai':
+      return new OpenAICompatibleClient(apiKey, options);
+    default:
+      throw new Error(`Unknown provider: ${id}`);
+  }
+}
+
+/**
+ * Create the provider configured in settings
+ * @returns Provider, or null if it still needs an API key
+ */
+export function createProviderFromSettings(): LLMProvider | null {
+  const { provider, options } = Storage.getProviderSettings();
+  const apiKey = Storage.getApiKey(provider);
+  if (PROVIDERS[provider].requiresApiKey && !apiKey) {
+    return null;
+  }
+  return createProvider(provider, apiKey, options[provider]);
+}
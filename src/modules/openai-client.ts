@@ -0,0 +1,311 @@
+/**
+ * OpenAI-compatible provider
+ * Works against api.openai.com or a local server exposing the same API
+ * (e.g. llama.cpp server for chat, whisper.cpp / faster-whisper for audio)
+ */
+
+import { Abbreviation, NoteEditRequest, NoteRequest, ProviderOptions, SpeakerTurn, TemplateSection } from '../types';
+import { buildNoteEditParts, buildNoteUserParts, buildStructuredNoteInstruction, buildTranscriptionVocabulary } from '../utils/prompt-builder';
+import { buildNoteJsonSchema } from '../utils/structured-note';
+import { normalizeSpeakerTurns } from '../utils/speakers';
+import type { LLMProvider } from './llm-provider';
+
+export const OPENAI_DEFAULT_OPTIONS: ProviderOptions = {
+  transcriptionModel: 'whisper-1',
+  analysisModel: 'gpt-4o',
+  baseUrl: 'https://api.openai.com/v1',
+};
+
+interface ChatCompletionResponse {
+  choices?: Array<{ message?: { content?: string } }>;
+}
+
+interface ChatCompletionChunk {
+  choices?: Array<{ delta?: { content?: string } }>;
+}
+
+interface TranscriptionResponse {
+  text?: string;
+}
+
+interface DiarizedTranscriptionResponse {
+  segments?: Array<{ speaker?: string; start?: number; end?: number; text?: string }>;
+}
+
+export class OpenAICompatibleClient implements LLMProvider {
+  private apiKey: string;
+  private baseUrl: string;
+  private transcriptionModel: string;
+  private analysisModel: string;
+
+  constructor(apiKey: string, options: ProviderOptions = OPENAI_DEFAULT_OPTIONS) {
+    this.apiKey = apiKey;
+    this.baseUrl = (options.baseUrl || OPENAI_DEFAULT_OPTIONS.baseUrl!).replace(/\/+$/, '');
+    this.transcriptionModel = options.transcriptionModel || OPENAI_DEFAULT_OPTIONS.transcriptionModel;
+    this.analysisModel = options.analysisModel || OPENAI_DEFAULT_OPTIONS.analysisModel;
+  }
+
+  private getHeaders(): Record<string, string> {
+    return this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {};
+  }
+
+  /**
+   * File extension matching the MIME type, used for the multipart upload name
+   */
+  private getFileExtension(mimeType: string): string {
+    if (mimeType.includes('webm')) return 'webm';
+    if (mimeType.includes('mp3') || mimeType.includes('mpeg')) return 'mp3';
+    if (mimeType.includes('wav')) return 'wav';
+    if (mimeType.includes('ogg')) return 'ogg';
+    if (mimeType.includes('mp4') || mimeType.includes('m4a')) return 'm4a';
+    return 'webm'; // default
+  }
+
+  /**
+   * Turn a failed HTTP response into a readable error
+   */
+  private async toError(response: Response, action: string): Promise<Error> {
+    if (response.status === 401 || response.status === 403) {
+      return new Error('Invalid API key. Please check your API key in settings.');
+    }
+    if (response.status === 429) {
+      return new Error('API rate limit exceeded. Please wait a moment and try again.');
+    }
+
+    let detail = response.statusText;
+    try {
+      const body = await response.json();
+      detail = body?.error?.message || detail;
+    } catch (error) {
+      // Body was not JSON; keep the status text
+    }
+    return new Error(`${action} failed: ${response.status} ${detail}`);
+  }
+
+  async transcribeAudio(
+    audioBlob: Blob,
+    mimeType: string,
+    abbreviations: Abbreviation[] = [],
+  ): Promise<string> {
+    const form = new FormData();
+    form.append('file', audioBlob, `recording.${this.getFileExtension(mimeType)}`);
+    form.append('model', this.transcriptionModel);
+    const vocabulary = buildTranscriptionVocabulary(abbreviations);
+    if (vocabulary) {
+      form.append('prompt', vocabulary);
+    }
+    form.append('response_format', 'json');
+
+    const data: TranscriptionResponse = await (await this.requestTranscription(form)).json();
+    const text = data.text;
+
+    if (!text || text.trim().length === 0) {
+      throw new Error('Transcription returned empty result');
+    }
+
+    return text.trim();
+  }
+
+  /**
+   * Diarized transcription; requires a model that supports the
+   * diarized_json format, such as gpt-4o-transcribe-diarize
+   * The abbreviations aren't sent: the diarizing model doesn't accept a
+   * prompt. They still apply when the note is generated from the transcript.
+   */
+  async transcribeAudioDiarized(audioBlob: Blob, mimeType: string): Promise<SpeakerTurn[]> {
+    const form = new FormData();
+    form.append('file', audioBlob, `recording.${this.getFileExtension(mimeType)}`);
+    form.append('model', this.transcriptionModel);
+    form.append('response_format', 'diarized_json');
+    form.append('chunking_strategy', 'auto');
+
+    const data: DiarizedTranscriptionResponse = await (await this.requestTranscription(form)).json();
+    if (!data.segments) {
+      throw new Error(`Transcription failed: ${this.transcriptionModel} did not return speaker segments`);
+    }
+
+    const turns = normalizeSpeakerTurns(data.segments);
+    if (turns.length === 0) {
+      throw new Error('Transcription returned empty result');
+    }
+    return turns;
+  }
+
+  /**
+   * POST audio to the transcription endpoint
+   */
+  private async requestTranscription(form: FormData): Promise<Response> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/audio/transcriptions`, {
+        method: 'POST',
+        headers: this.getHeaders(),
+        body: form,
+      });
+    } catch (error) {
+      throw new Error(`Transcription failed: could not reach ${this.baseUrl}`);
+    }
+
+    if (!response.ok) {
+      throw await this.toError(response, 'Transcription');
+    }
+    return response;
+  }
+
+  /**
+   * POST a chat completion request for a note
+   * @param sections - Request JSON output matching these template sections
+   * @param userParts - User message, by default the note generation parts
+   */
+  private async requestChatCompletion(
+    request: NoteRequest,
+    stream: boolean,
+    signal?: AbortSignal,
+    sections?: TemplateSection[],
+    userParts: string[] = buildNoteUserParts(request)
+  ): Promise<Response> {
+    if (sections) {
+      userParts.push(buildStructuredNoteInstruction(sections));
+    }
+
+    let response: Response;
+    try {
+      response = await fetch(`${this.baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: { ...this.getHeaders(), 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          model: this.analysisModel,
+          stream,
+          messages: [
+            { role: 'system', content: request.systemPrompt },
+            { role: 'user', content: userParts.join('\n\n') },
+          ],
+          ...(sections && {
+            response_format: {
+              type: 'json_schema',
+              json_schema: { name: 'note', strict: true, schema: buildNoteJsonSchema(sections) },
+            },
+          }),
+        }),
+        signal,
+      });
+    } catch (error) {
+      if (signal?.aborted) throw error;
+      throw new Error(`SOAP generation failed: could not reach ${this.baseUrl}`);
+    }
+
+    if (!response.ok) {
+      throw await this.toError(response, 'SOAP generation');
+    }
+    return response;
+  }
+
+  async generateNote(request: NoteRequest): Promise<string> {
+    const response = await this.requestChatCompletion(request, false);
+
+    const data: ChatCompletionResponse = await response.json();
+    const text = data.choices?.[0]?.message?.content;
+
+    if (!text || text.trim().length === 0) {
+      throw new Error('SOAP generation returned empty result');
+    }
+
+    return text.trim();
+  }
+
+  async generateNoteStream(
+    request: NoteRequest,
+    onChunk: (text: string) => void,
+    signal?: AbortSignal
+  ): Promise<string> {
+    let text = '';
+    try {
+      const response = await this.requestChatCompletion(request, true, signal);
+      if (!response.body) {
+        throw new Error('SOAP generation failed: server did not return a stream');
+      }
+
+      // Server-sent events: "data: {json}" lines, terminated by "data: [DONE]"
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() ?? '';
+
+        for (const line of lines) {
+          const data = line.replace(/^data:\s*/, '').trim();
+          if (!line.startsWith('data:') || !data || data === '[DONE]') continue;
+
+          const chunk: ChatCompletionChunk = JSON.parse(data);
+          const delta = chunk.choices?.[0]?.delta?.content;
+          if (delta) {
+            text += delta;
+            onChunk(text);
+          }
+        }
+      }
+    } catch (error) {
+      if (signal?.aborted) {
+        return text.trim();
+      }
+      throw error;
+    }
+
+    if (text.trim().length === 0) {
+      throw new Error('SOAP generation returned empty result');
+    }
+
+    return text.trim();
+  }
+
+  async generateStructuredNote(
+    request: NoteRequest,
+    sections: TemplateSection[],
+    signal?: AbortSignal
+  ): Promise<unknown> {
+    const response = await this.requestChatCompletion(request, false, signal, sections);
+
+    const data: ChatCompletionResponse = await response.json();
+    const text = data.choices?.[0]?.message?.content;
+
+    if (!text || text.trim().length === 0) {
+      throw new Error('SOAP generation returned empty result');
+    }
+
+    try {
+      return JSON.parse(text);
+    } catch (error) {
+      throw new Error('SOAP generation failed: response was not valid JSON');
+    }
+  }
+
+  async editNote(request: NoteEditRequest, signal?: AbortSignal): Promise<string> {
+    const response = await this.requestChatCompletion(request, false, signal, undefined, buildNoteEditParts(request));
+
+    const data: ChatCompletionResponse = await response.json();
+    const text = data.choices?.[0]?.message?.content;
+
+    if (!text || text.trim().length === 0) {
+      throw new Error('Note edit returned empty result');
+    }
+
+    return text.trim();
+  }
+
+  async testApiKey(): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.baseUrl}/models`, {
+        headers: this.getHeaders(),
+      });
+      return response.ok;
+    } catch (error) {
+      return false;
+    }
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Crash-safe buffer for in-progress recordings
+ * Audio chunks are written to IndexedDB as they are recorded so an unfinished
+ * recording can be recovered after a crash or accidental reload
+ */
+
+import { AudioData, UnfinishedRecording } from '../types';
+import { EncryptedData } from '../utils/crypto';
+import { STORES, promisifyRequest, withStore } from './database';
+import { Vault } from './vault';
+
+interface ChunkRecord {
+  id?: number;
+  recordingId: string;
+  sessionId: string;
+  segment: number;
+  // Plain audio, or encrypted audio when a passphrase is set
+  blob?: Blob;
+  sealed?: EncryptedData;
+  mimeType: string;
+  createdAt: string;
+}
+
+/**
+ * Decrypt chunk audio; chunks that can no longer be read are dropped
+ */
+async function openChunk(chunk: ChunkRecord): Promise<ChunkRecord | null> {
+  if (!chunk.sealed) {
+    return chunk;
+  }
+  try {
+    return { ...chunk, blob: new Blob([await Vault.decrypt(chunk.sealed)]) };
+  } catch (error) {
+    console.error('Failed to decrypt buffered audio chunk:', error);
+    return null;
+  }
+}
+
+// Matches the recorder's chunk interval; used to estimate recovered durations
+const CHUNK_SECONDS = 1;
+
+export const RecordingBuffer = {
+  /**
+   * Start buffering a new recording
+   * @returns ID used to append chunks and discard the buffer
+   */
+  begin(): string {
+    return `rec-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+  },
+
+  async appendChunk(
+    recordingId: string,
+    sessionId: string,
+    segment: number,
+    blob: Blob,
+    mimeType: string
+  ): Promise<void> {
+    const record: ChunkRecord = {
+      recordingId,
+      sessionId,
+      segment,
+      mimeType,
+      createdAt: new Date().toISOString(),
+    };
+    if (Vault.isEnabled()) {
+      record.sealed = await Vault.encrypt(await blob.arrayBuffer());
+    } else {
+      record.blob = blob;
+    }
+    await withStore(STORES.RECORDING_CHUNKS, 'readwrite', store => promisifyRequest(store.add(record)));
+  },
+
+  /**
+   * Remove a recording's buffered chunks once it has been safely handled
+   */
+  async discard(recordingId: string): Promise<void> {
+    await withStore(STORES.RECORDING_CHUNKS, 'readwrite', async store => {
+      const keys = await promisifyRequest(store.index('recordingId').getAllKeys(recordingId));
+      await Promise.all(keys.map(key => promisifyRequest(store.delete(key))));
+    });
+  },
+
+  /**
+   * Recordings left behind by a previous page load, with their chunks
+   * reassembled into segments
+   */
+  async findUnfinished(): Promise<UnfinishedRecording[]> {
+    const records = await withStore(STORES.RECORDING_CHUNKS, 'readonly', store =>
+      promisifyRequest(store.getAll() as IDBRequest<ChunkRecord[]>)
+    );
+    const chunks = (await Promise.all(records.map(openChunk))).filter((chunk): chunk is ChunkRecord => chunk !== null);
+
+    const byRecording = new Map<string, ChunkRecord[]>();
+    chunks.forEach(chunk => {
+      byRecording.set(chunk.recordingId, [...(byRecording.get(chunk.recordingId) ?? []), chunk]);
+    });
+
+    return [...byRecording.entries()].map(([recordingId, recordingChunks]) => {
+      // Chunks were added in order, so auto-increment IDs preserve sequence
+      recordingChunks.sort((a, b) => (a.id ?? 0) - (b.id ?? 0));
+
+      const bySegment = new Map<number, ChunkRecord[]>();
+      recordingChunks.forEach(chunk => {
+        bySegment.set(chunk.segment, [...(bySegment.get(chunk.segment) ?? []), chunk]);
+      });
+
+      const segments: AudioData[] = [...bySegment.keys()]
+        .sort((a, b) => a - b)
+        .map(segment => {
+          const segmentChunks = bySegment.get(segment)!;
+          const mimeType = segmentChunks[0].mimeType;
+          return {
+            blob: new Blob(segmentChunks.map(c => c.blob!), { type: mimeType }),
+            mimeType,
+            duration: segmentChunks.length * CHUNK_SECONDS,
+          };
+        });
+
+      return {
+        recordingId,
+        sessionId: recordingChunks[0].sessionId,
+        startedAt: recordingChunks[0].createdAt,
+        segments,
+      };
+    });
+  },
+
+  async clear(): Promise<void> {
+    await withStore(STORES.RECORDING_CHUNKS, 'readwrite', store => promisifyRequest(store.clear()));
+  }
+};
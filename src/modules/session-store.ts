@@ -0,0 +1,239 @@
+/**
+ * Session persistence using IndexedDB
+ * Saves consults (including recorded audio) so they survive a reload, encrypted
+ * with the vault key when a passphrase is set
+ */
+
+import { AudioSegment, Session, SessionSummary } from '../types';
+import { EncryptedData } from '../utils/crypto';
+import { STORES, promisifyRequest, withStore } from './database';
+import { Vault } from './vault';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Generate a unique session ID
+ */
+function createSessionId(): string {
+  if (typeof crypto !== 'undefined' && 'randomUUID' in crypto) {
+    return crypto.randomUUID();
+  }
+  return `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+/**
+ * Default display name for a new session, e.g. "Consult Oct 19, 2:05 PM"
+ */
+function defaultSessionName(date: Date): string {
+  return `Consult ${date.toLocaleString(undefined, {
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit'
+  })}`;
+}
+
+/**
+ * Fill in fields missing from sessions saved by older versions
+ */
+function normalizeSession(session: Session): Session {
+  return {
+    ...session,
+    audio: session.audio?.map((audio, index) => ({
+      ...audio,
+      id: audio.id ?? `audio-${session.id}-${index}`,
+      source: audio.source ?? 'recording',
+      createdAt: audio.createdAt ?? session.createdAt,
+    })),
+  };
+}
+
+/**
+ * Encrypted form of a session; only the fields needed for sorting and
+ * purging are stored in the clear
+ */
+interface SealedSession {
+  id: string;
+  createdAt: string;
+  timestamp?: string;
+  sealed: EncryptedData;
+  // Encrypted audio blobs, in the same order as the sealed session's audio
+  sealedAudio: EncryptedData[];
+}
+
+type SessionRecord = Session | SealedSession;
+
+function isSealed(record: SessionRecord): record is SealedSession {
+  return 'sealed' in record;
+}
+
+async function seal(session: Session): Promise<SealedSession> {
+  const audio = session.audio ?? [];
+  const metadata = { ...session, audio: audio.map(({ blob: _blob, ...rest }) => rest) };
+  return {
+    id: session.id,
+    createdAt: session.createdAt,
+    timestamp: session.timestamp,
+    sealed: await Vault.encrypt(new TextEncoder().encode(JSON.stringify(metadata))),
+    sealedAudio: await Promise.all(audio.map(async segment => Vault.encrypt(await segment.blob.arrayBuffer()))),
+  };
+}
+
+/**
+ * Decrypt a stored record
+ * @param withAudio - Also decrypt the audio; summaries don't need it
+ */
+async function open(record: SessionRecord, withAudio = true): Promise<Session> {
+  if (!isSealed(record)) {
+    return record;
+  }
+
+  const session: Session = JSON.parse(new TextDecoder().decode(await Vault.decrypt(record.sealed)));
+  if (!withAudio) {
+    return { ...session, audio: undefined };
+  }
+
+  const audio = await Promise.all((session.audio ?? []).map(async (segment, index): Promise<AudioSegment> => ({
+    ...segment,
+    blob: new Blob([await Vault.decrypt(record.sealedAudio[index])], { type: segment.mimeType }),
+  })));
+  return { ...session, audio };
+}
+
+async function toRecord(session: Session): Promise<SessionRecord> {
+  return Vault.isEnabled() ? seal(session) : session;
+}
+
+async function getRecords(): Promise<SessionRecord[]> {
+  return withStore(STORES.SESSIONS, 'readonly', store =>
+    promisifyRequest(store.getAll() as IDBRequest<SessionRecord[]>)
+  );
+}
+
+function toSummary(session: Session): SessionSummary {
+  return {
+    id: session.id,
+    name: session.name,
+    createdAt: session.createdAt,
+    timestamp: session.timestamp,
+  };
+}
+
+export const SessionStore = {
+  /**
+   * Create a new, unsaved session
+   */
+  create(): Session {
+    const now = new Date();
+    return {
+      id: createSessionId(),
+      name: defaultSessionName(now),
+      createdAt: now.toISOString(),
+      timestamp: now.toISOString(),
+    };
+  },
+
+  /**
+   * List saved sessions, most recently updated first
+   */
+  async list(): Promise<SessionSummary[]> {
+    const sessions = await Promise.all((await getRecords()).map(record => open(record, false)));
+    return sessions
+      .map(toSummary)
+      .sort((a, b) => (b.timestamp ?? b.createdAt).localeCompare(a.timestamp ?? a.createdAt));
+  },
+
+  async get(id: string): Promise<Session | undefined> {
+    const record = await withStore(STORES.SESSIONS, 'readonly', store =>
+      promisifyRequest(store.get(id) as IDBRequest<SessionRecord | undefined>)
+    );
+    return record && normalizeSession(await open(record));
+  },
+
+  /**
+   * Every saved session with its audio, e.g. to re-encrypt them
+   */
+  async getAll(): Promise<Session[]> {
+    const records = await getRecords();
+    return Promise.all(records.map(async record => normalizeSession(await open(record))));
+  },
+
+  /**
+   * Write sessions back as they are, keeping their modification times,
+   * encrypted or not according to the current vault state
+   */
+  async rewrite(sessions: Session[]): Promise<void> {
+    const records = await Promise.all(sessions.map(toRecord));
+    await withStore(STORES.SESSIONS, 'readwrite', store =>
+      Promise.all(records.map(record => promisifyRequest(store.put(record))))
+    );
+  },
+
+  /**
+   * Most recently updated session, if any
+   */
+  async getLatest(): Promise<Session | undefined> {
+    const [latest] = await this.list();
+    return latest ? this.get(latest.id) : undefined;
+  },
+
+  /**
+   * Insert or update a session, stamping its modification time
+   */
+  async save(session: Session): Promise<Session> {
+    const saved: Session = { ...session, timestamp: new Date().toISOString() };
+    const record = await toRecord(saved);
+    await withStore(STORES.SESSIONS, 'readwrite', store => promisifyRequest(store.put(record)));
+    return saved;
+  },
+
+  async rename(id: string, name: string): Promise<void> {
+    const session = await this.get(id);
+    if (!session) {
+      throw new Error('Session not found');
+    }
+    await this.save({ ...session, name });
+  },
+
+  /**
+   * Copy a session under a new ID
+   */
+  async duplicate(id: string): Promise<Session> {
+    const session = await this.get(id);
+    if (!session) {
+      throw new Error('Session not found');
+    }
+    const now = new Date().toISOString();
+    return this.save({
+      ...session,
+      id: createSessionId(),
+      name: `${session.name} (copy)`,
+      createdAt: now,
+    });
+  },
+
+  async delete(id: string): Promise<void> {
+    await withStore(STORES.SESSIONS, 'readwrite', store => promisifyRequest(store.delete(id)));
+  },
+
+  /**
+   * Remove sessions not updated within the retention window
+   * @param retentionDays - Days to keep sessions; 0 keeps them forever
+   * @returns Number of sessions removed
+   */
+  async purgeOlderThan(retentionDays: number): Promise<number> {
+    if (retentionDays <= 0) return 0;
+
+    const cutoff = new Date(Date.now() - retentionDays * DAY_MS).toISOString();
+    const expired = (await this.list()).filter(s => (s.timestamp ?? s.createdAt) < cutoff);
+
+    await withStore(STORES.SESSIONS, 'readwrite', store =>
+      Promise.all(expired.map(s => promisifyRequest(store.delete(s.id))))
+    );
+    return expired.length;
+  },
+
+  async clear(): Promise<void> {
+    await withStore(STORES.SESSIONS, 'readwrite', store => promisifyRequest(store.clear()));
+  }
+};
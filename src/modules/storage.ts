@@ -1,24 +1,218 @@
-import {StorageKeys} from '../types';
+import {Abbreviation, ClinicLetterhead, ExportProfileId, ProviderId, ProviderSettings, StorageKeys, TemplateRecord} from '../types';
+import {DEFAULT_ABBREVIATIONS} from '../content/abbreviations';
+import {GEMINI_DEFAULT_OPTIONS} from './gemini-client';
+import {OPENAI_DEFAULT_OPTIONS} from './openai-client';
+import {SessionStore} from './session-store';
+import {VAULT_STORAGE_KEYS, Vault} from './vault';
+import {deleteDatabase} from './database';
+import {EXPORT_PROFILES} from '../utils/export-profiles';
 
 const STORAGE_KEYS: StorageKeys = {
   API_KEY: 'gemini_api_key',
+  OPENAI_API_KEY: 'openai_api_key',
+  PROVIDER_SETTINGS: 'provider_settings',
+  SESSION_RETENTION_DAYS: 'session_retention_days',
+  CUSTOM_TEMPLATES: 'custom_templates',
+  ABBREVIATIONS: 'abbreviations',
+  AUTO_LOCK_MINUTES: 'auto_lock_minutes',
+  DIARIZATION: 'diarization',
+  STRUCTURED_NOTES: 'structured_notes',
+  LETTERHEAD: 'letterhead',
+  EXPORT_PROFILE: 'export_profile',
 };
 
+const DEFAULT_SESSION_RETENTION_DAYS = 30;
+const DEFAULT_AUTO_LOCK_MINUTES = 15;
+
+const API_KEY_STORAGE: Record<ProviderId, string> = {
+  gemini: STORAGE_KEYS.API_KEY,
+  openai: STORAGE_KEYS.OPENAI_API_KEY,
+};
+
+function getDefaultProviderSettings(): ProviderSettings {
+  return {
+    provider: 'gemini',
+    options: {
+      gemini: { ...GEMINI_DEFAULT_OPTIONS },
+      openai: { ...OPENAI_DEFAULT_OPTIONS },
+    },
+  };
+}
+
 // Default system prompt for SOAP generation
 export const Storage = {
-  // API Key management
-  getApiKey(): string {
-    return localStorage.getItem(STORAGE_KEYS.API_KEY) || '';
+  // API Key management; keys are held by the vault when encryption is enabled
+  getApiKey(provider: ProviderId = 'gemini'): string {
+    if (Vault.isEnabled()) {
+      return Vault.getApiKey(provider);
+    }
+    return localStorage.getItem(API_KEY_STORAGE[provider]) || '';
+  },
+
+  setApiKey(key: string, provider: ProviderId = 'gemini'): void {
+    if (Vault.isEnabled()) {
+      Vault.setApiKey(key, provider);
+      return;
+    }
+    localStorage.setItem(API_KEY_STORAGE[provider], key);
+  },
+
+  /**
+   * Encrypt API keys and saved sessions with a passphrase
+   */
+  async enableEncryption(passphrase: string): Promise<void> {
+    if (Vault.isEnabled()) {
+      throw new Error('Encryption is already enabled');
+    }
+
+    const sessions = await SessionStore.getAll();
+    const apiKeys = {
+      gemini: this.getApiKey('gemini'),
+      openai: this.getApiKey('openai'),
+    };
+
+    await Vault.create(passphrase, apiKeys);
+    Object.values(API_KEY_STORAGE).forEach(key => localStorage.removeItem(key));
+    await SessionStore.rewrite(sessions);
+  },
+
+  /**
+   * Decrypt everything back to plain storage; the vault must be unlocked
+   */
+  async disableEncryption(): Promise<void> {
+    const sessions = await SessionStore.getAll();
+    const apiKeys = Vault.remove();
+
+    Object.entries(apiKeys).forEach(([provider, key]) => this.setApiKey(key, provider as ProviderId));
+    await SessionStore.rewrite(sessions);
+  },
+
+  // Minutes of inactivity before an encrypted vault locks; 0 never locks
+  getAutoLockMinutes(): number {
+    const value = localStorage.getItem(STORAGE_KEYS.AUTO_LOCK_MINUTES);
+    const minutes = value === null ? NaN : parseInt(value, 10);
+    return Number.isNaN(minutes) ? DEFAULT_AUTO_LOCK_MINUTES : minutes;
+  },
+
+  setAutoLockMinutes(minutes: number): void {
+    localStorage.setItem(STORAGE_KEYS.AUTO_LOCK_MINUTES, String(Math.max(0, Math.floor(minutes))));
+  },
+
+  // Selected provider and per-provider model choices
+  getProviderSettings(): ProviderSettings {
+    const defaults = getDefaultProviderSettings();
+    try {
+      const value = localStorage.getItem(STORAGE_KEYS.PROVIDER_SETTINGS);
+      if (!value) return defaults;
+
+      const stored: Partial<ProviderSettings> = JSON.parse(value);
+      return {
+        provider: stored.provider && stored.provider in API_KEY_STORAGE ? stored.provider : defaults.provider,
+        options: {
+          gemini: { ...defaults.options.gemini, ...stored.options?.gemini },
+          openai: { ...defaults.options.openai, ...stored.options?.openai },
+        },
+      };
+    } catch (error) {
+      console.error('Failed to read provider settings:', error);
+      return defaults;
+    }
+  },
+
+  setProviderSettings(settings: ProviderSettings): void {
+    localStorage.setItem(STORAGE_KEYS.PROVIDER_SETTINGS, JSON.stringify(settings));
+  },
+
+  // Session retention (days); 0 keeps sessions forever
+  getSessionRetentionDays(): number {
+    const value = localStorage.getItem(STORAGE_KEYS.SESSION_RETENTION_DAYS);
+    const days = value === null ? NaN : parseInt(value, 10);
+    return Number.isNaN(days) ? DEFAULT_SESSION_RETENTION_DAYS : days;
+  },
+
+  setSessionRetentionDays(days: number): void {
+    localStorage.setItem(STORAGE_KEYS.SESSION_RETENTION_DAYS, String(Math.max(0, Math.floor(days))));
+  },
+
+  // Label speakers when transcribing
+  getDiarizationEnabled(): boolean {
+    return localStorage.getItem(STORAGE_KEYS.DIARIZATION) === 'true';
+  },
+
+  setDiarizationEnabled(enabled: boolean): void {
+    localStorage.setItem(STORAGE_KEYS.DIARIZATION, String(enabled));
+  },
+
+  // Generate notes as JSON checked against the template's sections
+  getStructuredNotesEnabled(): boolean {
+    return localStorage.getItem(STORAGE_KEYS.STRUCTURED_NOTES) === 'true';
+  },
+
+  setStructuredNotesEnabled(enabled: boolean): void {
+    localStorage.setItem(STORAGE_KEYS.STRUCTURED_NOTES, String(enabled));
+  },
+
+  // User-defined templates
+  getCustomTemplates(): TemplateRecord[] {
+    try {
+      const value = localStorage.getItem(STORAGE_KEYS.CUSTOM_TEMPLATES);
+      return value ? JSON.parse(value) : [];
+    } catch (error) {
+      console.error('Failed to read custom templates:', error);
+      return [];
+    }
+  },
+
+  setCustomTemplates(templates: TemplateRecord[]): void {
+    localStorage.setItem(STORAGE_KEYS.CUSTOM_TEMPLATES, JSON.stringify(templates));
+  },
+
+  // Abbreviation dictionary, falling back to the defaults until edited
+  getAbbreviations(): Abbreviation[] {
+    try {
+      const value = localStorage.getItem(STORAGE_KEYS.ABBREVIATIONS);
+      return value ? JSON.parse(value) : DEFAULT_ABBREVIATIONS;
+    } catch (error) {
+      console.error('Failed to read abbreviations:', error);
+      return DEFAULT_ABBREVIATIONS;
+    }
+  },
+
+  setAbbreviations(abbreviations: Abbreviation[]): void {
+    localStorage.setItem(STORAGE_KEYS.ABBREVIATIONS, JSON.stringify(abbreviations));
+  },
+
+  // Clinic letterhead for printed and PDF exports
+  getLetterhead(): ClinicLetterhead {
+    try {
+      const value = localStorage.getItem(STORAGE_KEYS.LETTERHEAD);
+      return value ? JSON.parse(value) : { name: '', address: '', phone: '' };
+    } catch (error) {
+      console.error('Failed to read letterhead:', error);
+      return { name: '', address: '', phone: '' };
+    }
+  },
+
+  setLetterhead(letterhead: ClinicLetterhead): void {
+    localStorage.setItem(STORAGE_KEYS.LETTERHEAD, JSON.stringify(letterhead));
+  },
+
+  // Clipboard format picked next to "Copy to Clipboard"
+  getExportProfile(): ExportProfileId {
+    const value = localStorage.getItem(STORAGE_KEYS.EXPORT_PROFILE);
+    return EXPORT_PROFILES.find(profile => profile.id === value)?.id ?? 'woofware';
   },
 
-  setApiKey(key: string): void {
-    localStorage.setItem(STORAGE_KEYS.API_KEY, key);
+  setExportProfile(profile: ExportProfileId): void {
+    localStorage.setItem(STORAGE_KEYS.EXPORT_PROFILE, profile);
   },
 
-  // Clear all application data
-  clearAllData(): void {
-    Object.values(STORAGE_KEYS).forEach(key => {
+  // Clear all application data, including encrypted keys, sessions and buffered audio
+  async clearAllData(): Promise<void> {
+    Vault.lock();
+    [...Object.values(STORAGE_KEYS), ...VAULT_STORAGE_KEYS].forEach(key => {
       localStorage.removeItem(key);
     });
+    await deleteDatabase();
   }
 };
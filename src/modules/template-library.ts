@@ -0,0 +1,118 @@
+/**
+ * Template library combining the built-in templates with user-defined ones
+ * Custom templates are stored locally and can be shared as a JSON file
+ */
+
+import { Template, TemplateLibraryExport, TemplateRecord } from '../types';
+import { TEMPLATES } from '../content/templates';
+import { Storage } from './storage';
+
+const EXPORT_VERSION = 1;
+const CUSTOM_ID_PREFIX = 'custom-';
+
+function createTemplateId(): string {
+  return `${CUSTOM_ID_PREFIX}${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+function isTemplateRecord(value: unknown): value is TemplateRecord {
+  const record = value as TemplateRecord;
+  return !!record
+    && typeof record.id === 'string'
+    && typeof record.name === 'string'
+    && typeof record.content === 'string';
+}
+
+export const TemplateLibrary = {
+  /**
+   * All templates, built-ins first, keyed by ID
+   */
+  getAll(): Map<string, Template> {
+    const templates = new Map(TEMPLATES);
+    Storage.getCustomTemplates().forEach(({ id, name, content }) => {
+      templates.set(id, { name, content, custom: true });
+    });
+    return templates;
+  },
+
+  get(id: string): Template | undefined {
+    return this.getAll().get(id);
+  },
+
+  isCustom(id: string): boolean {
+    return Storage.getCustomTemplates().some(t => t.id === id);
+  },
+
+  /**
+   * Save a new custom template
+   * @returns ID of the created template
+   */
+  create(name: string, content: string): string {
+    const trimmedName = name.trim();
+    if (!trimmedName) {
+      throw new Error('Template name is required');
+    }
+
+    const id = createTemplateId();
+    Storage.setCustomTemplates([...Storage.getCustomTemplates(), { id, name: trimmedName, content }]);
+    return id;
+  },
+
+  /**
+   * Overwrite the body of a custom template
+   */
+  update(id: string, content: string): void {
+    const templates = Storage.getCustomTemplates();
+    if (!templates.some(t => t.id === id)) {
+      throw new Error('Built-in templates cannot be overwritten. Save as a new template instead.');
+    }
+    Storage.setCustomTemplates(templates.map(t => (t.id === id ? { ...t, content } : t)));
+  },
+
+  delete(id: string): void {
+    Storage.setCustomTemplates(Storage.getCustomTemplates().filter(t => t.id !== id));
+  },
+
+  /**
+   * Serialize the custom templates for sharing
+   */
+  exportJSON(): string {
+    const data: TemplateLibraryExport = {
+      version: EXPORT_VERSION,
+      templates: Storage.getCustomTemplates(),
+    };
+    return JSON.stringify(data, null, 2);
+  },
+
+  /**
+   * Merge templates from an exported library
+   * Templates with a matching ID replace the local copy; others are added
+   * @returns Number of templates imported
+   */
+  importJSON(json: string): number {
+    let data: TemplateLibraryExport;
+    try {
+      data = JSON.parse(json);
+    } catch (error) {
+      throw new Error('Template file is not valid JSON');
+    }
+
+    if (!data || !Array.isArray(data.templates) || !data.templates.every(isTemplateRecord)) {
+      throw new Error('Template file is not a valid template library export');
+    }
+
+    const templates = Storage.getCustomTemplates();
+    data.templates.forEach(({ id, name, content }) => {
+      // Never shadow a built-in template
+      const importId = TEMPLATES.has(id) || !id.startsWith(CUSTOM_ID_PREFIX) ? createTemplateId() : id;
+      const index = templates.findIndex(t => t.id === importId);
+      if (index >= 0) {
+        templates[index] = { id: importId, name, content };
+      } else {
+        templates.push({ id: importId, name, content });
+      }
+    });
+
+    Storage.setCustomTemplates(templates);
+    return data.templates.length;
+  }
+};
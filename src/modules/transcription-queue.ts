@@ -0,0 +1,151 @@
+/**
+ * Transcription queue for segmented recordings
+ * Transcribes segments one at a time as they arrive, retries failures per
+ * segment and stitches the results back together in recording order
+ */
+
+import { AudioSegment, SegmentProgress } from '../types';
+
+const MAX_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 2000;
+
+type Transcriber = (segment: AudioSegment) => Promise<string>;
+
+interface QueuedSegment {
+  audio: AudioSegment;
+  progress: SegmentProgress;
+}
+
+export class TranscriptionQueue {
+  private transcribe: Transcriber;
+  private onProgress: (progress: SegmentProgress[]) => void;
+  private segments: QueuedSegment[] = [];
+  private processing = false;
+  private closed = false;
+  private resolveComplete: ((texts: string[]) => void) | null = null;
+  private complete: Promise<string[]>;
+
+  /**
+   * @param transcribe - Transcribes a single segment
+   * @param onProgress - Called with the status of every segment whenever one changes
+   */
+  constructor(transcribe: Transcriber, onProgress: (progress: SegmentProgress[]) => void) {
+    this.transcribe = transcribe;
+    this.onProgress = onProgress;
+    this.complete = new Promise(resolve => {
+      this.resolveComplete = resolve;
+    });
+  }
+
+  /**
+   * Queue a segment; segments are stitched in the order they were added
+   */
+  add(audio: AudioSegment): void {
+    if (this.closed) {
+      throw new Error('Cannot add segments to a closed transcription queue');
+    }
+
+    this.segments.push({
+      audio,
+      progress: { index: this.segments.length, status: 'pending', attempts: 0 },
+    });
+    this.notify();
+    this.process();
+  }
+
+  /**
+   * Signal that no more segments will be added
+   * @returns Transcribed text of each segment, in order, once all are finished
+   */
+  close(): Promise<string[]> {
+    this.closed = true;
+    this.checkComplete();
+    return this.complete;
+  }
+
+  /**
+   * Retry a segment that failed all automatic attempts
+   */
+  retry(index: number): void {
+    const segment = this.segments[index];
+    if (segment && segment.progress.status === 'failed') {
+      segment.progress = { ...segment.progress, status: 'pending', attempts: 0, error: undefined };
+      this.notify();
+      this.process();
+    }
+  }
+
+  /**
+   * Give up on a failed segment so the rest can be inserted
+   */
+  skip(index: number): void {
+    const segment = this.segments[index];
+    if (segment && segment.progress.status === 'failed') {
+      segment.progress = { ...segment.progress, status: 'skipped' };
+      this.notify();
+      this.checkComplete();
+    }
+  }
+
+  private async process(): Promise<void> {
+    if (this.processing) return;
+    this.processing = true;
+
+    try {
+      let next = this.nextPending();
+      while (next) {
+        await this.transcribeSegment(next);
+        next = this.nextPending();
+      }
+    } finally {
+      this.processing = false;
+    }
+
+    this.checkComplete();
+  }
+
+  private nextPending(): QueuedSegment | undefined {
+    return this.segments.find(s => s.progress.status === 'pending');
+  }
+
+  private async transcribeSegment(segment: QueuedSegment): Promise<void> {
+    while (segment.progress.attempts < MAX_ATTEMPTS) {
+      segment.progress = {
+        ...segment.progress,
+        status: 'transcribing',
+        attempts: segment.progress.attempts + 1,
+      };
+      this.notify();
+
+      try {
+        const text = await this.transcribe(segment.audio);
+        segment.progress = { ...segment.progress, status: 'done', text, error: undefined };
+        this.notify();
+        return;
+      } catch (error) {
+        const message = error instanceof Error ? error.message : 'Transcription failed';
+        segment.progress = { ...segment.progress, error: message };
+        if (segment.progress.attempts < MAX_ATTEMPTS) {
+          await new Promise(resolve => setTimeout(resolve, RETRY_DELAY_MS * segment.progress.attempts));
+        }
+      }
+    }
+
+    segment.progress = { ...segment.progress, status: 'failed' };
+    this.notify();
+  }
+
+  private checkComplete(): void {
+    if (!this.closed || this.processing || !this.resolveComplete) return;
+
+    const finished = this.segments.every(s => s.progress.status === 'done' || s.progress.status === 'skipped');
+    if (finished) {
+      this.resolveComplete(this.segments.map(s => s.progress.text ?? ''));
+      this.resolveComplete = null;
+    }
+  }
+
+  private notify(): void {
+    this.onProgress(this.segments.map(s => s.progress));
+  }
+}
@@ -0,0 +1,159 @@
+/**
+ * Passphrase vault for API keys and saved sessions
+ * The derived key only ever lives in memory; while locked, encrypted data
+ * cannot be read or written
+ */
+
+import { ProviderId } from '../types';
+import { EncryptedData, PBKDF2_ITERATIONS, base64ToBytes, bytesToBase64, decryptBytes, decryptText, deriveKey, encryptBytes, encryptText, generateSalt } from '../utils/crypto';
+
+const VAULT_CONFIG_KEY = 'vault';
+const ENCRYPTED_API_KEYS_KEY = 'encrypted_api_keys';
+
+// localStorage entries owned by the vault, removed when all data is cleared
+export const VAULT_STORAGE_KEYS = [VAULT_CONFIG_KEY, ENCRYPTED_API_KEYS_KEY];
+
+// Known plaintext used to check a passphrase without touching real data
+const CHECK_VALUE = 'web-records';
+
+interface VaultConfig {
+  salt: string;
+  iterations: number;
+  check: string;
+}
+
+let key: CryptoKey | null = null;
+let apiKeys: Partial<Record<ProviderId, string>> = {};
+// Serializes writes so an older encryption never overwrites a newer one
+let pendingWrite: Promise<void> = Promise.resolve();
+
+function getConfig(): VaultConfig | null {
+  try {
+    const value = localStorage.getItem(VAULT_CONFIG_KEY);
+    return value ? JSON.parse(value) : null;
+  } catch (error) {
+    console.error('Failed to read vault settings:', error);
+    return null;
+  }
+}
+
+function requireKey(): CryptoKey {
+  if (!key) {
+    throw new Error('Encrypted data is locked. Unlock with your passphrase first.');
+  }
+  return key;
+}
+
+function persistApiKeys(): Promise<void> {
+  const unlockedKey = requireKey();
+  const snapshot = JSON.stringify(apiKeys);
+  pendingWrite = pendingWrite
+    .then(async () => {
+      localStorage.setItem(ENCRYPTED_API_KEYS_KEY, await encryptText(unlockedKey, snapshot));
+    })
+    .catch(error => console.error('Failed to save encrypted API keys:', error));
+  return pendingWrite;
+}
+
+export const Vault = {
+  /**
+   * Whether a passphrase has been set up
+   */
+  isEnabled(): boolean {
+    return getConfig() !== null;
+  },
+
+  isUnlocked(): boolean {
+    return key !== null;
+  },
+
+  /**
+   * Set up a passphrase and encrypt the given API keys with it
+   * Leaves the vault unlocked
+   */
+  async create(passphrase: string, initialApiKeys: Partial<Record<ProviderId, string>>): Promise<void> {
+    if (!passphrase) {
+      throw new Error('Passphrase cannot be empty');
+    }
+
+    const salt = generateSalt();
+    const derived = await deriveKey(passphrase, salt);
+    const config: VaultConfig = {
+      salt: bytesToBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+      check: await encryptText(derived, CHECK_VALUE),
+    };
+
+    key = derived;
+    apiKeys = { ...initialApiKeys };
+    localStorage.setItem(VAULT_CONFIG_KEY, JSON.stringify(config));
+    await persistApiKeys();
+  },
+
+  /**
+   * Unlock with the passphrase
+   * @returns False if the passphrase is wrong
+   */
+  async unlock(passphrase: string): Promise<boolean> {
+    const config = getConfig();
+    if (!config) {
+      throw new Error('Encryption is not enabled');
+    }
+
+    const derived = await deriveKey(passphrase, base64ToBytes(config.salt), config.iterations);
+    try {
+      if (await decryptText(derived, config.check) !== CHECK_VALUE) {
+        return false;
+      }
+    } catch (error) {
+      // AES-GCM authentication fails with the wrong key
+      return false;
+    }
+
+    const storedKeys = localStorage.getItem(ENCRYPTED_API_KEYS_KEY);
+    apiKeys = storedKeys ? JSON.parse(await decryptText(derived, storedKeys)) : {};
+    key = derived;
+    return true;
+  },
+
+  /**
+   * Forget the key and decrypted API keys
+   */
+  lock(): void {
+    key = null;
+    apiKeys = {};
+  },
+
+  /**
+   * Remove the passphrase
+   * @returns The decrypted API keys, so they can be stored in plain text again
+   */
+  remove(): Partial<Record<ProviderId, string>> {
+    requireKey();
+    const decrypted = { ...apiKeys };
+    VAULT_STORAGE_KEYS.forEach(storageKey => localStorage.removeItem(storageKey));
+    this.lock();
+    return decrypted;
+  },
+
+  getApiKey(provider: ProviderId): string {
+    return apiKeys[provider] ?? '';
+  },
+
+  /**
+   * Update an API key; available immediately, encrypted to storage in the background
+   */
+  setApiKey(apiKey: string, provider: ProviderId): Promise<void> {
+    requireKey();
+    apiKeys = { ...apiKeys, [provider]: apiKey };
+    return persistApiKeys();
+  },
+
+  encrypt(data: BufferSource): Promise<EncryptedData> {
+    return encryptBytes(requireKey(), data);
+  },
+
+  decrypt(encrypted: EncryptedData): Promise<ArrayBuffer> {
+    return decryptBytes(requireKey(), encrypted);
+  }
+};
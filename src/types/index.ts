@@ -8,18 +8,116 @@ export interface AudioData {
   duration: number;
 }
 
+export interface UnfinishedRecording {
+  recordingId: string;
+  sessionId: string;
+  startedAt: string;
+  segments: AudioData[];
+}
+
+export type SegmentStatus = 'pending' | 'transcribing' | 'done' | 'failed' | 'skipped';
+
+export interface SegmentProgress {
+  index: number;
+  status: SegmentStatus;
+  attempts: number;
+  text?: string;
+  error?: string;
+}
+
+export type AudioSource = 'recording' | 'upload' | 'recovery';
+
+/**
+ * One speaker's stretch of a diarized transcription
+ * Times are in seconds from the start of the audio segment
+ */
+export interface SpeakerTurn {
+  speaker: string;
+  start: number;
+  end: number;
+  text: string;
+}
+
+export interface AudioSegment extends AudioData {
+  id: string;
+  source: AudioSource;
+  createdAt: string;
+  // File name for uploads
+  name?: string;
+  // Latest transcription of this segment
+  text?: string;
+  // Speaker turns when transcribed in diarized mode
+  turns?: SpeakerTurn[];
+}
+
+export type WeightUnit = 'kg' | 'lb';
+
+/**
+ * Patient signalment and owner details for a consultation
+ */
+export interface PatientInfo {
+  name: string;
+  species: string;
+  breed: string;
+  sex: string;
+  // Free text, e.g. "4 years" or "10 weeks"
+  age: string;
+  weight?: number;
+  weightUnit: WeightUnit;
+  clientName: string;
+}
+
+export type NoteVersionSource = 'generated' | 'edited' | 'merged' | 'restored';
+
+/**
+ * Snapshot of a session's note, kept so earlier versions can be compared
+ * and restored
+ */
+export interface NoteVersion {
+  id: string;
+  createdAt: string;
+  source: NoteVersionSource;
+  html: string;
+  // The note as Markdown; as generated for generated versions
+  markdown?: string;
+}
+
+/**
+ * Client discharge instructions generated alongside the note
+ */
+export interface DischargeInstructions {
+  systemPrompt: string;
+  templateId: string;
+  templateBody: string;
+  markdown: string;
+  html: string;
+}
+
 export interface Session {
+  id: string;
+  name: string;
   transcript?: string;
+  // The note as Markdown, kept in step with soapHTML as it is edited
   soap?: string;
   soapHTML?: string;
   systemPrompt?: string;
+  templateId?: string;
+  templateBody?: string;
+  audio?: AudioSegment[];
+  patient?: PatientInfo;
+  noteVersions?: NoteVersion[];
+  discharge?: DischargeInstructions;
   state?: AppState;
+  createdAt: string;
   timestamp?: string;
 }
 
+export type SessionSummary = Pick<Session, 'id' | 'name' | 'createdAt' | 'timestamp'>;
+
 export enum AppState {
   IDLE = 'idle',
   RECORDING = 'recording',
+  PAUSED = 'paused',
   TRANSCRIBING = 'transcribing',
   TRANSCRIPT_READY = 'transcript_ready',
   GENERATING = 'generating',
@@ -28,11 +126,269 @@ export enum AppState {
 
 export interface StorageKeys {
   API_KEY: string;
+  OPENAI_API_KEY: string;
+  PROVIDER_SETTINGS: string;
+  SESSION_RETENTION_DAYS: string;
+  CUSTOM_TEMPLATES: string;
+  ABBREVIATIONS: string;
+  AUTO_LOCK_MINUTES: string;
+  DIARIZATION: string;
+  STRUCTURED_NOTES: string;
+  LETTERHEAD: string;
+  EXPORT_PROFILE: string;
+}
+
+export type ProviderId = 'gemini' | 'openai';
+
+export interface ProviderOptions {
+  transcriptionModel: string;
+  analysisModel: string;
+  // Only used by OpenAI-compatible providers
+  baseUrl?: string;
+}
+
+export interface ProviderSettings {
+  provider: ProviderId;
+  options: Record<ProviderId, ProviderOptions>;
+}
+
+export interface NoteRequest {
+  transcript: string;
+  systemPrompt: string;
+  templateContent?: string;
+  abbreviations?: Abbreviation[];
+  // Speaker labels used in a diarized transcript
+  speakers?: string[];
+  patient?: PatientInfo;
+}
+
+/**
+ * Way the note is written out for a practice-management system
+ */
+export type ExportProfileId = 'woofware' | 'plain-text' | 'rtf' | 'markdown';
+
+/**
+ * Note as written by an export profile, in each clipboard format it fills
+ */
+export interface ExportOutput {
+  text: string;
+  html?: string;
+  rtf?: string;
+}
+
+/**
+ * Inline formatting of text in the note editor
+ */
+export type InlineMark = 'bold' | 'italic' | 'underline' | 'strike' | 'code';
+
+export interface TextRun {
+  text: string;
+  marks: InlineMark[];
+  // Link target, for linked text
+  link?: string;
+}
+
+export type NoteBlockType = 'paragraph' | 'heading' | 'list-item' | 'html';
+
+export type ListType = 'bullet' | 'ordered';
+
+/**
+ * Block of the note editor's document
+ * List items are kept flat, each with its nesting depth. Tables and other
+ * markup without a block type of their own are kept whole as HTML.
+ */
+export interface NoteBlock {
+  type: NoteBlockType;
+  runs: TextRun[];
+  // Heading level, 1-6
+  level?: number;
+  list?: ListType;
+  depth?: number;
+  // First number of an ordered list, on its first item
+  start?: number;
+  html?: string;
+  // Attributes shown only in the editor, such as transcript check marks
+  attrs?: Record<string, string>;
+}
+
+/**
+ * Position in the editor's document: a block and a character offset in its text
+ */
+export interface DocPosition {
+  block: number;
+  offset: number;
+}
+
+export interface DocRange {
+  from: DocPosition;
+  to: DocPosition;
+}
+
+export type NoteEditCommand = 'regenerate' | 'shorten' | 'client-friendly' | 'bullets';
+
+/**
+ * Rewrite of part of a note; the transcript, template and patient details
+ * are used when regenerating from the transcript
+ */
+export interface NoteEditRequest extends NoteRequest {
+  command: NoteEditCommand;
+  // Text being rewritten, one line per heading, paragraph or list item
+  text: string;
+  // Heading of the section being rewritten, when a whole section is
+  sectionTitle?: string;
+}
+
+export interface AppSettings {
+  providerSettings: ProviderSettings;
+  apiKeys: Record<ProviderId, string>;
+  sessionRetentionDays: number;
+  abbreviations: Abbreviation[];
+  autoLockMinutes: number;
+  letterhead: ClinicLetterhead;
+}
+
+/**
+ * Clinic details printed at the top of exported notes
+ */
+export interface ClinicLetterhead {
+  name: string;
+  // One line per address line
+  address: string;
+  phone: string;
+  // PNG or JPEG data URL
+  logo?: string;
+}
+
+export interface Abbreviation {
+  abbreviation: string;
+  expansion: string;
+  // Recognised when spoken during transcription
+  transcription: boolean;
+  // Long form is abbreviated in generated notes
+  generation: boolean;
 }
 
+export type AbbreviationUsage = 'transcription' | 'generation';
+
 export interface Template {
   name: string;
   content: string;
+  custom?: boolean;
+}
+
+/**
+ * A "## Heading" section of a template
+ */
+export interface TemplateSection {
+  // Heading without markers or trailing colon, e.g. "Plan"
+  title: string;
+  // Heading text as written in the template, e.g. "Plan:"
+  heading: string;
+  // Template body under the heading, describing what belongs there
+  guidance: string;
+}
+
+export interface NoteSection {
+  title: string;
+  heading: string;
+  content: string;
+}
+
+export type NoteIssueType = 'missing' | 'empty' | 'unexpected';
+
+/**
+ * Problem found when checking a structured note against its template
+ */
+export interface NoteIssue {
+  type: NoteIssueType;
+  section: string;
+}
+
+export type ClaimSupport = 'supported' | 'partial' | 'unsupported' | 'boilerplate';
+
+/**
+ * A stretch of the transcript, by character offset
+ */
+export interface TranscriptSpan {
+  start: number;
+  end: number;
+  text: string;
+}
+
+/**
+ * How well one line of a generated note is backed by the transcript
+ */
+export interface ClaimCheck {
+  text: string;
+  support: ClaimSupport;
+  // Transcript spans sharing the most words with the line, best first
+  evidence: TranscriptSpan[];
+  // Closest template line, when the line looks copied from the template
+  templateLine?: string;
+  // Words and numbers in the line found in neither transcript nor template
+  unmatched: string[];
+}
+
+export type DiffOperation = 'equal' | 'added' | 'removed';
+
+export interface DiffPart {
+  operation: DiffOperation;
+  text: string;
+}
+
+/**
+ * One line of a line diff; a changed line is given once, as added, with a
+ * word diff against the line it replaced
+ */
+export interface DiffLine extends DiffPart {
+  words?: DiffPart[];
+}
+
+export type PlaceholderType = 'text' | 'number' | 'date' | 'choice';
+
+/**
+ * A fill-in field in a template, written as {{Label:type}}
+ */
+export interface TemplatePlaceholder {
+  // Placeholder exactly as written, braces included
+  token: string;
+  label: string;
+  type: PlaceholderType;
+  // Allowed values for choice fields
+  options: string[];
+  required: boolean;
+}
+
+/**
+ * Liquid diet for tube or assisted feeding
+ */
+export interface Diet {
+  name: string;
+  kcalPerMl: number;
+  // Species the energy density applies to, when it differs between them
+  species?: string;
+}
+
+/**
+ * Injectable drug in the dosing formulary
+ */
+export interface FormularyDrug {
+  name: string;
+  // Concentration of the stock solution, mg/mL
+  concentration: number;
+  // Dose range, mg/kg
+  doseMin: number;
+  doseMax: number;
+  routes: string;
+}
+
+export interface TemplateRecord extends Template {
+  id: string;
+}
+
+export interface TemplateLibraryExport {
+  version: number;
+  templates: TemplateRecord[];
 }
 
 export type AlertType = 'error' | 'success' | 'info' | 'warning';
@@ -0,0 +1,55 @@
+import { describe, expect, it } from 'vitest';
+import { abbreviationsToCSV, abbreviationsToJSON, parseAbbreviationsCSV, parseAbbreviationsJSON } from './abbreviations';
+import { Abbreviation } from '../types';
+
+const DICTIONARY: Abbreviation[] = [
+  { abbreviation: 'BID', expansion: 'twice daily', transcription: true, generation: false },
+  { abbreviation: 'NSAID', expansion: 'non-steroidal, anti-inflammatory "drug"', transcription: false, generation: true },
+  { abbreviation: 'Rx', expansion: 'prescription\nor treatment', transcription: true, generation: true },
+];
+
+describe('abbreviation CSV', () => {
+  it('round-trips commas, quotes and line breaks', () => {
+    expect(parseAbbreviationsCSV(abbreviationsToCSV(DICTIONARY))).toEqual(DICTIONARY);
+  });
+
+  it('reads Windows line endings and skips blank lines', () => {
+    expect(parseAbbreviationsCSV('abbreviation,expansion\r\nBID,twice daily\r\n\r\nPO,by mouth,no,yes\r\n')).toEqual([
+      { abbreviation: 'BID', expansion: 'twice daily', transcription: true, generation: true },
+      { abbreviation: 'PO', expansion: 'by mouth', transcription: false, generation: true },
+    ]);
+  });
+});
+
+describe('abbreviation JSON', () => {
+  it('round-trips a list', () => {
+    expect(parseAbbreviationsJSON(abbreviationsToJSON(DICTIONARY))).toEqual(DICTIONARY);
+  });
+
+  it('reads flags written as strings', () => {
+    const json = JSON.stringify([{ abbreviation: 'BID', expansion: 'twice daily', transcription: 'false', generation: 'yes' }]);
+    expect(parseAbbreviationsJSON(json)).toEqual([
+      { abbreviation: 'BID', expansion: 'twice daily', transcription: false, generation: true },
+    ]);
+  });
+
+  it('reads flags written as numbers', () => {
+    const json = JSON.stringify([{ abbreviation: 'BID', expansion: 'twice daily', transcription: 1, generation: 0 }]);
+    expect(parseAbbreviationsJSON(json)).toEqual([
+      { abbreviation: 'BID', expansion: 'twice daily', transcription: true, generation: false },
+    ]);
+  });
+
+  it('enables only missing flags', () => {
+    const json = JSON.stringify([{ abbreviation: 'BID', expansion: 'twice daily', generation: null }]);
+    expect(parseAbbreviationsJSON(json)).toEqual([
+      { abbreviation: 'BID', expansion: 'twice daily', transcription: true, generation: false },
+    ]);
+  });
+
+  it('reads a map of abbreviations', () => {
+    expect(parseAbbreviationsJSON('{"PO": "by mouth"}')).toEqual([
+      { abbreviation: 'PO', expansion: 'by mouth', transcription: true, generation: true },
+    ]);
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Abbreviation dictionary helpers: prompt formatting and CSV/JSON import/export
+ */
+
+import { Abbreviation, AbbreviationUsage } from '../types';
+
+const CSV_HEADER = ['abbreviation', 'expansion', 'transcription', 'generation'];
+
+/**
+ * Format the abbreviations that apply to one usage as a prompt fragment
+ * @param abbreviations - Full dictionary
+ * @param usage - Which step the list is for
+ * @returns Comma separated "ABBR: expansion" pairs
+ */
+export function formatAbbreviationsForPrompt(abbreviations: Abbreviation[], usage: AbbreviationUsage): string {
+  return abbreviations
+    .filter(a => a[usage])
+    .map(a => `${a.abbreviation}: ${a.expansion}`)
+    .join(', ');
+}
+
+/**
+ * Drop blank rows and duplicate abbreviations (last one wins)
+ */
+export function normalizeAbbreviations(abbreviations: Abbreviation[]): Abbreviation[] {
+  const byKey = new Map<string, Abbreviation>();
+  abbreviations.forEach(a => {
+    const abbreviation = a.abbreviation.trim();
+    const expansion = a.expansion.trim();
+    if (abbreviation && expansion) {
+      byKey.set(abbreviation, { ...a, abbreviation, expansion });
+    }
+  });
+  return [...byKey.values()];
+}
+
+function parseFlag(value: string | undefined): boolean {
+  if (value === undefined || value.trim() === '') return true;
+  return ['true', 'yes', 'y', '1', 'x'].includes(value.trim().toLowerCase());
+}
+
+/**
+ * Flag from a JSON file: booleans as they are, numbers as 0 or 1, strings
+ * read as in CSV; only a missing key is enabled by default
+ */
+function parseJSONFlag(value: unknown): boolean {
+  if (value === undefined) return true;
+  if (typeof value === 'boolean') return value;
+  if (typeof value === 'number') return value !== 0;
+  return typeof value === 'string' && parseFlag(value);
+}
+
+/**
+ * Split CSV into rows of fields, honouring double-quoted fields, which may
+ * hold commas, quotes and line breaks; blank lines are skipped
+ */
+function parseCSVRows(csv: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  const endRow = () => {
+    row.push(field);
+    if (row.length > 1 || row[0].trim().length > 0) {
+      rows.push(row);
+    }
+    row = [];
+    field = '';
+  };
+
+  for (let i = 0; i < csv.length; i++) {
+    const char = csv[i];
+    if (inQuotes) {
+      if (char === '"' && csv[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      inQuotes = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && csv[i + 1] === '\n') {
+        i++;
+      }
+      endRow();
+    } else {
+      field += char;
+    }
+  }
+  endRow();
+  return rows;
+}
+
+function escapeCSVField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+}
+
+/**
+ * Parse abbreviations from CSV
+ * Columns: abbreviation, expansion, transcription (optional), generation (optional)
+ */
+export function parseAbbreviationsCSV(csv: string): Abbreviation[] {
+  const rows = parseCSVRows(csv);
+
+  if (rows.length > 0 && rows[0][0]?.trim().toLowerCase() === CSV_HEADER[0]) {
+    rows.shift();
+  }
+
+  return normalizeAbbreviations(rows.map(([abbreviation = '', expansion = '', transcription, generation]) => ({
+    abbreviation,
+    expansion,
+    transcription: parseFlag(transcription),
+    generation: parseFlag(generation),
+  })));
+}
+
+/**
+ * Parse abbreviations from JSON
+ * Accepts an array of abbreviation objects or an { "ABBR": "expansion" } map
+ */
+export function parseAbbreviationsJSON(json: string): Abbreviation[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new Error('Abbreviation file is not valid JSON');
+  }
+
+  if (Array.isArray(data)) {
+    return normalizeAbbreviations(data
+      .filter(item => item && typeof item.abbreviation === 'string' && typeof item.expansion === 'string')
+      .map(item => ({
+        abbreviation: item.abbreviation,
+        expansion: item.expansion,
+        transcription: parseJSONFlag(item.transcription),
+        generation: parseJSONFlag(item.generation),
+      })));
+  }
+
+  if (data && typeof data === 'object') {
+    return normalizeAbbreviations(Object.entries(data as Record<string, unknown>)
+      .filter(([, expansion]) => typeof expansion === 'string')
+      .map(([abbreviation, expansion]) => ({
+        abbreviation,
+        expansion: expansion as string,
+        transcription: true,
+        generation: true,
+      })));
+  }
+
+  throw new Error('Abbreviation file must contain a list or a map of abbreviations');
+}
+
+export function abbreviationsToCSV(abbreviations: Abbreviation[]): string {
+  const rows = abbreviations.map(a => [
+    escapeCSVField(a.abbreviation),
+    escapeCSVField(a.expansion),
+    String(a.transcription),
+    String(a.generation),
+  ].join(','));
+  return [CSV_HEADER.join(','), ...rows].join('\n');
+}
+
+export function abbreviationsToJSON(abbreviations: Abbreviation[]): string {
+  return JSON.stringify(abbreviations, null, 2);
+}
@@ -0,0 +1,123 @@
+/**
+ * Validation and metadata helpers for uploaded audio files
+ */
+
+import { AudioData, AudioSegment, AudioSource } from '../types';
+
+/**
+ * Inline audio requests are capped at 20 MB; base64 encoding adds a third,
+ * so larger files would be rejected by the API
+ */
+export const MAX_AUDIO_FILE_BYTES = 15 * 1024 * 1024;
+
+const EXTENSION_MIME_TYPES: Record<string, string> = {
+  mp3: 'audio/mpeg',
+  wav: 'audio/wav',
+  ogg: 'audio/ogg',
+  oga: 'audio/ogg',
+  opus: 'audio/ogg',
+  webm: 'audio/webm',
+  m4a: 'audio/mp4',
+  mp4: 'audio/mp4',
+  aac: 'audio/aac',
+  flac: 'audio/flac',
+  aiff: 'audio/aiff',
+  aif: 'audio/aiff',
+};
+
+export const ACCEPTED_AUDIO_TYPES = [
+  'audio/*',
+  ...Object.keys(EXTENSION_MIME_TYPES).map(ext => `.${ext}`),
+].join(',');
+
+function getExtension(name: string): string {
+  return name.split('.').pop()?.toLowerCase() ?? '';
+}
+
+/**
+ * MIME type of an audio file, falling back to its extension when the
+ * browser does not report one
+ */
+export function getAudioMimeType(file: File): string {
+  if (file.type.startsWith('audio/')) {
+    return file.type;
+  }
+  return EXTENSION_MIME_TYPES[getExtension(file.name)] ?? '';
+}
+
+/**
+ * Check that a file can be transcribed
+ * @returns Error message, or null if the file is acceptable
+ */
+export function validateAudioFile(file: File): string | null {
+  if (!getAudioMimeType(file)) {
+    return `${file.name}: unsupported format. Use MP3, WAV, OGG, WebM, M4A, AAC or FLAC.`;
+  }
+  if (file.size === 0) {
+    return `${file.name}: file is empty.`;
+  }
+  if (file.size > MAX_AUDIO_FILE_BYTES) {
+    const sizeMB = (file.size / (1024 * 1024)).toFixed(1);
+    return `${file.name}: ${sizeMB} MB is over the ${MAX_AUDIO_FILE_BYTES / (1024 * 1024)} MB limit.`;
+  }
+  return null;
+}
+
+/**
+ * Sort files by name, treating embedded numbers numerically
+ * (dictation devices name files sequentially, e.g. DS0001.mp3, DS0002.mp3)
+ */
+export function sortAudioFiles(files: File[]): File[] {
+  return [...files].sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true }));
+}
+
+/**
+ * Read the duration of an audio file in whole seconds (0 if unknown)
+ */
+export function getAudioDuration(blob: Blob): Promise<number> {
+  return new Promise(resolve => {
+    const url = URL.createObjectURL(blob);
+    const audio = new Audio();
+    const finish = (seconds: number) => {
+      URL.revokeObjectURL(url);
+      resolve(Number.isFinite(seconds) ? Math.round(seconds) : 0);
+    };
+    audio.preload = 'metadata';
+    audio.onloadedmetadata = () => finish(audio.duration);
+    audio.onerror = () => finish(0);
+    audio.src = url;
+  });
+}
+
+/**
+ * Give recorded or uploaded audio an identity so it can be kept with the session
+ */
+export function createAudioSegment(audio: AudioData, source: AudioSource, name?: string): AudioSegment {
+  return {
+    ...audio,
+    id: `audio-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`,
+    source,
+    createdAt: new Date().toISOString(),
+    name,
+  };
+}
+
+/**
+ * Wrap an uploaded file as an audio segment
+ */
+export async function fileToAudioSegment(file: File): Promise<AudioSegment> {
+  const audio: AudioData = {
+    blob: file,
+    mimeType: getAudioMimeType(file),
+    duration: await getAudioDuration(file),
+  };
+  return createAudioSegment(audio, 'upload', file.name);
+}
+
+/**
+ * File extension for a recorded MIME type
+ */
+export function getAudioExtension(mimeType: string): string {
+  const match = Object.entries(EXTENSION_MIME_TYPES).find(([, type]) => mimeType.startsWith(type));
+  return match ? match[0] : 'webm';
+}
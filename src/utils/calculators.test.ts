@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { calculateDose, calculateFeeding, calculateFluidRate, calculateRER, feedingsPerDay, toKg } from './calculators';
+
+describe('calculateRER', () => {
+  it('is 70 × kg^0.75 kcal/day, rounded', () => {
+    expect(calculateRER(10)).toBe(394);
+    expect(calculateRER(4)).toBe(198);
+    expect(calculateRER(1)).toBe(70);
+  });
+});
+
+describe('calculateFeeding', () => {
+  it('splits the daily target into feedings of a liquid diet', () => {
+    expect(calculateFeeding(394, feedingsPerDay(4), 1)).toEqual({ kcalPerFeeding: 65.7, mlPerFeeding: 65.7, mlPerDay: 394 });
+    expect(calculateFeeding(198, feedingsPerDay(6), 1.5)).toEqual({ kcalPerFeeding: 49.5, mlPerFeeding: 33, mlPerDay: 132 });
+  });
+});
+
+describe('calculateFluidRate', () => {
+  it('adds maintenance, deficit replacement and ongoing losses for a dog', () => {
+    expect(calculateFluidRate({ weightKg: 10, isCat: false, dehydrationPercent: 5, replaceHours: 24, ongoingLossesMlPerDay: 0 }))
+      .toEqual({ maintenanceMlPerDay: 742, maintenanceMlPerHour: 30.9, deficitMl: 500, mlPerHour: 51.8 });
+  });
+
+  it('uses the lower maintenance rate for a cat', () => {
+    expect(calculateFluidRate({ weightKg: 4, isCat: true, dehydrationPercent: 0, replaceHours: 12, ongoingLossesMlPerDay: 48 }))
+      .toEqual({ maintenanceMlPerDay: 226, maintenanceMlPerHour: 9.4, deficitMl: 0, mlPerHour: 11.4 });
+  });
+
+  it('leaves the deficit out with no replacement time', () => {
+    expect(calculateFluidRate({ weightKg: 10, isCat: false, dehydrationPercent: 5, replaceHours: 0, ongoingLossesMlPerDay: 0 }).mlPerHour)
+      .toBe(30.9);
+  });
+});
+
+describe('calculateDose', () => {
+  it('gives mg and mL for a mg/kg dose', () => {
+    expect(calculateDose(20, 1, 10)).toEqual({ mg: 20, ml: 2 });
+    expect(calculateDose(12.4, 0.2, 5)).toEqual({ mg: 2.48, ml: 0.5 });
+  });
+
+  it('keeps small volumes instead of rounding them away', () => {
+    // Acepromazine 0.01 mg/kg, 3 kg cat, 10 mg/mL
+    expect(calculateDose(3, 0.01, 10)).toEqual({ mg: 0.03, ml: 0.003 });
+    // Dexmedetomidine 0.001 mg/kg, 3 kg cat, 0.5 mg/mL
+    expect(calculateDose(3, 0.001, 0.5)).toEqual({ mg: 0.003, ml: 0.006 });
+  });
+
+  it('rounds small volumes to two significant figures', () => {
+    expect(calculateDose(3.3, 0.01, 10).ml).toBe(0.0033);
+    expect(calculateDose(7, 0.02, 0.3).ml).toBe(0.47);
+  });
+
+  it('never gives 0 for a dose above zero', () => {
+    expect(calculateDose(0.5, 0.001, 10).ml).toBeGreaterThan(0);
+  });
+});
+
+describe('toKg', () => {
+  it('converts pounds', () => {
+    expect(toKg(22, 'lb')).toBeCloseTo(9.979, 3);
+    expect(toKg(10, 'kg')).toBe(10);
+  });
+});
@@ -0,0 +1,123 @@
+/**
+ * Nutrition, fluid and dosing calculations
+ * Kept out of the LLM entirely: results are computed here and inserted into
+ * the note as written text
+ */
+
+import { PatientInfo, WeightUnit } from '../types';
+
+const KG_PER_LB = 0.45359237;
+
+/**
+ * Multipliers of RER giving maintenance energy requirement (MER)
+ */
+export const MER_FACTORS = [
+  { label: 'Hospitalised / RER only', factor: 1 },
+  { label: 'Neutered adult dog', factor: 1.6 },
+  { label: 'Intact adult dog', factor: 1.8 },
+  { label: 'Dog, weight loss', factor: 1 },
+  { label: 'Puppy < 4 months', factor: 3 },
+  { label: 'Puppy > 4 months', factor: 2 },
+  { label: 'Neutered adult cat', factor: 1.2 },
+  { label: 'Intact adult cat', factor: 1.4 },
+  { label: 'Cat, weight loss', factor: 0.8 },
+  { label: 'Kitten', factor: 2.5 },
+];
+
+export function toKg(weight: number, unit: WeightUnit): number {
+  return unit === 'lb' ? weight * KG_PER_LB : weight;
+}
+
+/**
+ * Patient weight in kg, if entered
+ */
+export function getPatientWeightKg(patient: PatientInfo): number | undefined {
+  return patient.weight !== undefined ? toKg(patient.weight, patient.weightUnit) : undefined;
+}
+
+function round(value: number, decimals: number): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
+
+/**
+ * Round a dose amount: to 2 decimals from 1 up, and to 2 significant figures
+ * below that, so small doses are neither rounded away to 0 nor overstated
+ */
+function roundDoseAmount(value: number): number {
+  return value >= 1 || value <= 0 ? round(value, 2) : Number(value.toPrecision(2));
+}
+
+/**
+ * Resting energy requirement, 70 × kg^0.75, in kcal/day
+ */
+export function calculateRER(weightKg: number): number {
+  return Math.round(70 * weightKg ** 0.75);
+}
+
+/**
+ * Energy per feeding and volume of a liquid diet
+ * @param kcalPerDay - Daily target, e.g. a fraction of RER
+ * @param feedingsPerDay - e.g. 6 for q4h
+ * @param kcalPerMl - Energy density of the diet
+ */
+export function calculateFeeding(kcalPerDay: number, feedingsPerDay: number, kcalPerMl: number) {
+  const kcalPerFeeding = kcalPerDay / feedingsPerDay;
+  return {
+    kcalPerFeeding: round(kcalPerFeeding, 1),
+    mlPerFeeding: round(kcalPerFeeding / kcalPerMl, 1),
+    mlPerDay: round(kcalPerDay / kcalPerMl, 1),
+  };
+}
+
+/**
+ * Feedings per day for a feeding interval, e.g. 6 for q4h
+ */
+export function feedingsPerDay(intervalHours: number): number {
+  return 24 / intervalHours;
+}
+
+export interface FluidPlan {
+  weightKg: number;
+  isCat: boolean;
+  // Estimated dehydration, percent of body weight
+  dehydrationPercent: number;
+  // Hours over which to replace the deficit
+  replaceHours: number;
+  ongoingLossesMlPerDay: number;
+}
+
+/**
+ * Fluid rate from maintenance (132 × kg^0.75 mL/day for dogs, 80 × kg^0.75
+ * for cats), dehydration deficit and ongoing losses
+ */
+export function calculateFluidRate(plan: FluidPlan) {
+  const maintenanceMlPerDay = (plan.isCat ? 80 : 132) * plan.weightKg ** 0.75;
+  const deficitMl = plan.weightKg * (plan.dehydrationPercent / 100) * 1000;
+  const deficitMlPerHour = plan.replaceHours > 0 ? deficitMl / plan.replaceHours : 0;
+  const mlPerHour = maintenanceMlPerDay / 24 + deficitMlPerHour + plan.ongoingLossesMlPerDay / 24;
+  return {
+    maintenanceMlPerDay: Math.round(maintenanceMlPerDay),
+    maintenanceMlPerHour: round(maintenanceMlPerDay / 24, 1),
+    deficitMl: Math.round(deficitMl),
+    mlPerHour: round(mlPerHour, 1),
+  };
+}
+
+/**
+ * Dose in mg and volume of a solution for a mg/kg dose
+ */
+export function calculateDose(weightKg: number, doseMgPerKg: number, concentrationMgPerMl: number) {
+  const mg = weightKg * doseMgPerKg;
+  return {
+    mg: roundDoseAmount(mg),
+    ml: roundDoseAmount(mg / concentrationMgPerMl),
+  };
+}
+
+/**
+ * Weight as written in calculation results, e.g. "12.4 kg"
+ */
+export function formatKg(weightKg: number): string {
+  return `${round(weightKg, 2)} kg`;
+}
@@ -2,105 +2,53 @@
  * Clipboard utilities for copying HTML and plain text
  */
 
+import { ExportProfileId } from '../types';
+import { getExportProfile } from './export-profiles';
+
 /**
- * Clean and format HTML for clipboard
- * Removes unnecessary attributes and ensures clean output
- * @param html - Raw HTML content
- * @returns Cleaned HTML
+ * Whether the browser can put a format on the clipboard
  */
-function cleanHTMLForClipboard(html: string): string {
-  // Create temporary element to manipulate HTML
-  const temp = document.createElement('div');
-  temp.innerHTML = html;
-
-  // Remove contenteditable attributes
-  temp.querySelectorAll('[contenteditable]').forEach(el => {
-    el.removeAttribute('contenteditable');
-  });
-
-  // Remove data attributes that aren't needed
-  temp.querySelectorAll('[data-command], [data-value]').forEach(el => {
-    el.removeAttribute('data-command');
-    el.removeAttribute('data-value');
-  });
-
-  // Clean up empty paragraphs
-  temp.querySelectorAll('p:empty, div:empty').forEach(el => {
-    if (!el.hasChildNodes() || (el.childNodes.length === 1 && el.childNodes[0].nodeType === 3 && !el.textContent?.trim())) {
-      el.remove();
-    }
-  });
-
-  // Add basic inline styles for better compatibility with EMR systems
-  temp.querySelectorAll('h1, h2, h3, h4, h5, h6').forEach(el => {
-    const htmlEl = el as HTMLElement;
-    htmlEl.style.fontWeight = 'bold';
-    htmlEl.style.marginTop = '12px';
-    htmlEl.style.marginBottom = '6px';
-
-    if (el.tagName === 'H1') htmlEl.style.fontSize = '1.5em';
-    if (el.tagName === 'H2') htmlEl.style.fontSize = '1.3em';
-    if (el.tagName === 'H3') htmlEl.style.fontSize = '1.1em';
-  });
-
-  temp.querySelectorAll('strong, b').forEach(el => {
-    (el as HTMLElement).style.fontWeight = 'bold';
-  });
-
-  temp.querySelectorAll('em, i').forEach(el => {
-    (el as HTMLElement).style.fontStyle = 'italic';
-  });
-
-  temp.querySelectorAll('ul, ol').forEach(el => {
-    const htmlEl = el as HTMLElement;
-    htmlEl.style.marginLeft = '20px';
-    htmlEl.style.paddingLeft = '10px';
-  });
-
-  temp.querySelectorAll('p').forEach(el => {
-    (el as HTMLElement).style.marginBottom = '8px';
-  });
-
-  return temp.innerHTML;
+export function canCopyFormat(type: string): boolean {
+  return !!window.ClipboardItem && typeof ClipboardItem.supports === 'function' && ClipboardItem.supports(type);
 }
 
 /**
- * Copy HTML content to clipboard
+ * Copy HTML content to clipboard, written out by an export profile
  * @param html - HTML content to copy
- * @param plainText - Plain text fallback
+ * @param profileId - Export profile for the receiving system
  * @returns Success status
  */
-export async function copyHTMLToClipboard(html: string, plainText?: string): Promise<boolean> {
+export async function copyHTMLToClipboard(html: string, profileId: ExportProfileId = 'woofware'): Promise<boolean> {
+  const output = getExportProfile(profileId).format(html);
   try {
-    // Clean HTML for better compatibility
-    const cleanedHTML = cleanHTMLForClipboard(html);
-
     // Modern Clipboard API with HTML support
-    if (navigator.clipboard && window.ClipboardItem) {
-      const htmlBlob = new Blob([cleanedHTML], { type: 'text/html' });
-      const textBlob = new Blob([plainText || cleanedHTML], { type: 'text/plain' });
-
-      const clipboardItem = new ClipboardItem({
-        'text/html': htmlBlob,
-        'text/plain': textBlob
-      });
-
-      await navigator.clipboard.write([clipboardItem]);
+    if (navigator.clipboard && window.ClipboardItem && (output.html || output.rtf)) {
+      const items: Record<string, Blob> = {
+        'text/plain': new Blob([output.text], { type: 'text/plain' }),
+      };
+      if (output.html) {
+        items['text/html'] = new Blob([output.html], { type: 'text/html' });
+      }
+      if (output.rtf && canCopyFormat('text/rtf')) {
+        items['text/rtf'] = new Blob([output.rtf], { type: 'text/rtf' });
+      }
+
+      await navigator.clipboard.write([new ClipboardItem(items)]);
       return true;
     }
 
-    // Fallback: copy plain text only
+    // Plain text profiles, or no HTML support
     if (navigator.clipboard && navigator.clipboard.writeText) {
-      await navigator.clipboard.writeText(plainText || cleanedHTML);
+      await navigator.clipboard.writeText(output.text);
       return true;
     }
 
     // Legacy fallback using execCommand
-    return copyToClipboardLegacy(plainText || cleanedHTML);
+    return copyToClipboardLegacy(output.text);
   } catch (error) {
     console.error('Clipboard copy failed:', error);
     // Try legacy method as last resort
-    return copyToClipboardLegacy(plainText || html);
+    return copyToClipboardLegacy(output.text);
   }
 }
 
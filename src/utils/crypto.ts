@@ -0,0 +1,81 @@
+/**
+ * Passphrase-based encryption with the Web Crypto API
+ * Keys are derived with PBKDF2 and data is encrypted with AES-GCM
+ */
+
+export const PBKDF2_ITERATIONS = 310000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export interface EncryptedData {
+  iv: Uint8Array<ArrayBuffer>;
+  data: ArrayBuffer;
+}
+
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary);
+}
+
+export function base64ToBytes(base64: string): Uint8Array<ArrayBuffer> {
+  return Uint8Array.from(atob(base64), char => char.charCodeAt(0));
+}
+
+export function generateSalt(): Uint8Array<ArrayBuffer> {
+  return crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+}
+
+/**
+ * Derive a non-extractable AES-GCM key from a passphrase
+ */
+export async function deriveKey(passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations = PBKDF2_ITERATIONS): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey(
+    'raw',
+    new TextEncoder().encode(passphrase),
+    'PBKDF2',
+    false,
+    ['deriveKey']
+  );
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+export async function encryptBytes(key: CryptoKey, data: BufferSource): Promise<EncryptedData> {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  return {
+    iv,
+    data: await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, data),
+  };
+}
+
+/**
+ * Decrypt data; rejects if the key is wrong or the data was tampered with
+ */
+export function decryptBytes(key: CryptoKey, encrypted: EncryptedData): Promise<ArrayBuffer> {
+  return crypto.subtle.decrypt({ name: 'AES-GCM', iv: encrypted.iv }, key, encrypted.data);
+}
+
+/**
+ * Encrypt text to a compact string suitable for localStorage
+ */
+export async function encryptText(key: CryptoKey, text: string): Promise<string> {
+  const { iv, data } = await encryptBytes(key, new TextEncoder().encode(text));
+  return `${bytesToBase64(iv)}.${bytesToBase64(new Uint8Array(data))}`;
+}
+
+export async function decryptText(key: CryptoKey, encrypted: string): Promise<string> {
+  const [iv, data] = encrypted.split('.');
+  if (!iv || !data) {
+    throw new Error('Malformed encrypted value');
+  }
+  const decrypted = await decryptBytes(key, { iv: base64ToBytes(iv), data: base64ToBytes(data).buffer });
+  return new TextDecoder().decode(decrypted);
+}
@@ -0,0 +1,94 @@
+/**
+ * Line and word diffs between two versions of a note
+ */
+
+import { DiffLine, DiffPart } from '../types';
+
+/**
+ * Longest-common-subsequence diff of two token lists
+ */
+function diffSequences(before: string[], after: string[]): DiffPart[] {
+  const rows = before.length;
+  const cols = after.length;
+
+  // lengths[i][j] = LCS length of before[i..] and after[j..]
+  const lengths: number[][] = Array.from({ length: rows + 1 }, () => new Array<number>(cols + 1).fill(0));
+  for (let i = rows - 1; i >= 0; i--) {
+    for (let j = cols - 1; j >= 0; j--) {
+      lengths[i][j] = before[i] === after[j]
+        ? lengths[i + 1][j + 1] + 1
+        : Math.max(lengths[i + 1][j], lengths[i][j + 1]);
+    }
+  }
+
+  const parts: DiffPart[] = [];
+  let i = 0;
+  let j = 0;
+  while (i < rows && j < cols) {
+    if (before[i] === after[j]) {
+      parts.push({ operation: 'equal', text: before[i] });
+      i++;
+      j++;
+    } else if (lengths[i + 1][j] >= lengths[i][j + 1]) {
+      parts.push({ operation: 'removed', text: before[i++] });
+    } else {
+      parts.push({ operation: 'added', text: after[j++] });
+    }
+  }
+  while (i < rows) parts.push({ operation: 'removed', text: before[i++] });
+  while (j < cols) parts.push({ operation: 'added', text: after[j++] });
+
+  return parts;
+}
+
+/**
+ * Word diff of two lines, with runs of the same operation joined
+ */
+export function diffWords(before: string, after: string): DiffPart[] {
+  const split = (text: string) => text.split(/(\s+)/).filter(Boolean);
+  const parts: DiffPart[] = [];
+  diffSequences(split(before), split(after)).forEach(part => {
+    const last = parts[parts.length - 1];
+    if (last && last.operation === part.operation) {
+      last.text += part.text;
+    } else {
+      parts.push({ ...part });
+    }
+  });
+  return parts;
+}
+
+/**
+ * Line diff; runs of removed lines followed by added lines are paired up
+ * and each pair is given as one added line with a word diff
+ */
+export function diffLines(before: string[], after: string[]): DiffLine[] {
+  const parts = diffSequences(before, after);
+  const lines: DiffLine[] = [];
+
+  let index = 0;
+  while (index < parts.length) {
+    if (parts[index].operation !== 'removed') {
+      lines.push(parts[index++]);
+      continue;
+    }
+
+    const removed: string[] = [];
+    while (index < parts.length && parts[index].operation === 'removed') {
+      removed.push(parts[index++].text);
+    }
+    const added: string[] = [];
+    while (index < parts.length && parts[index].operation === 'added') {
+      added.push(parts[index++].text);
+    }
+
+    const paired = Math.min(removed.length, added.length);
+    for (let k = 0; k < paired; k++) {
+      lines.push({ operation: 'added', text: added[k], words: diffWords(removed[k], added[k]) });
+    }
+    removed.slice(paired).forEach(text => lines.push({ operation: 'removed', text }));
+    added.slice(paired).forEach(text => lines.push({ operation: 'added', text }));
+  }
+
+  return lines;
+}
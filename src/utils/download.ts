@@ -0,0 +1,52 @@
+/**
+ * File download and upload helpers
+ */
+
+/**
+ * Trigger a browser download of the given content
+ * @param filename - Suggested file name
+ * @param content - File content
+ * @param mimeType - MIME type used when content is a string
+ */
+export function downloadFile(filename: string, content: string | Blob, mimeType = 'text/plain'): void {
+  const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+
+  // Give the browser a moment to start the download before revoking
+  setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Read a user-selected file as a data URL, e.g. to store an image
+ * @param file - File from an input or drop event
+ * @returns data: URL of the file contents
+ */
+export function readFileAsDataURL(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error(`Failed to read ${file.name}`));
+    reader.readAsDataURL(file);
+  });
+}
+
+/**
+ * Read a user-selected file as text
+ * @param file - File from an input or drop event
+ * @returns File contents
+ */
+export function readFileAsText(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(new Error(`Failed to read ${file.name}`));
+    reader.readAsText(file);
+  });
+}
@@ -0,0 +1,225 @@
+/**
+ * Export profiles: how the note is written to the clipboard for each
+ * practice-management system. Profiles read the note's HTML into the editor's
+ * document model and write it out in the formats that system accepts.
+ */
+
+import { ExportOutput, ExportProfileId, NoteBlock } from '../types';
+import { getHTMLBlockLines, getListMarkers, parseHTML, toMarkdown, toText } from './note-document';
+
+export interface ExportProfile {
+  id: ExportProfileId;
+  name: string;
+  description: string;
+  // File the output is saved as from the preview
+  extension: string;
+  mimeType: string;
+  format: (html: string) => ExportOutput;
+}
+
+/**
+ * Clean and format HTML for WoofWare
+ * Removes unnecessary attributes and adds inline styles, as the pasted note
+ * keeps no stylesheet
+ * @param html - Raw HTML content
+ * @returns Cleaned HTML
+ */
+function styleForWoofWare(html: string): string {
+  // Create temporary element to manipulate HTML
+  const temp = document.createElement('div');
+  temp.innerHTML = html;
+
+  // Remove contenteditable attributes
+  temp.querySelectorAll('[contenteditable]').forEach(el => {
+    el.removeAttribute('contenteditable');
+  });
+
+  // Remove data attributes that aren't needed
+  temp.querySelectorAll('[data-command], [data-value]').forEach(el => {
+    el.removeAttribute('data-command');
+    el.removeAttribute('data-value');
+  });
+
+  // Clean up empty paragraphs
+  temp.querySelectorAll('p:empty, div:empty').forEach(el => {
+    if (!el.hasChildNodes() || (el.childNodes.length === 1 && el.childNodes[0].nodeType === 3 && !el.textContent?.trim())) {
+      el.remove();
+    }
+  });
+
+  // Add basic inline styles for better compatibility with EMR systems
+  temp.querySelectorAll('h1, h2, h3, h4, h5, h6').forEach(el => {
+    const htmlEl = el as HTMLElement;
+    htmlEl.style.fontWeight = 'bold';
+    htmlEl.style.marginTop = '12px';
+    htmlEl.style.marginBottom = '6px';
+
+    if (el.tagName === 'H1') htmlEl.style.fontSize = '1.5em';
+    if (el.tagName === 'H2') htmlEl.style.fontSize = '1.3em';
+    if (el.tagName === 'H3') htmlEl.style.fontSize = '1.1em';
+  });
+
+  temp.querySelectorAll('strong, b').forEach(el => {
+    (el as HTMLElement).style.fontWeight = 'bold';
+  });
+
+  temp.querySelectorAll('em, i').forEach(el => {
+    (el as HTMLElement).style.fontStyle = 'italic';
+  });
+
+  temp.querySelectorAll('ul, ol').forEach(el => {
+    const htmlEl = el as HTMLElement;
+    htmlEl.style.marginLeft = '20px';
+    htmlEl.style.paddingLeft = '10px';
+  });
+
+  temp.querySelectorAll('p').forEach(el => {
+    (el as HTMLElement).style.marginBottom = '8px';
+  });
+
+  return temp.innerHTML;
+}
+
+// Typographic characters some systems garble, and their ASCII equivalents
+const ASCII_REPLACEMENTS: Record<string, string> = {
+  '\u00A0': ' ',
+  '\u2018': "'", '\u2019': "'", '\u201C': '"', '\u201D': '"',
+  '\u2013': '-', '\u2014': '-', '\u2026': '...', '\u2022': '-', '\u00D7': 'x',
+};
+
+function toASCIIPunctuation(text: string): string {
+  return text.replace(/[\u00A0\u2018\u2019\u201C\u201D\u2013\u2014\u2026\u2022\u00D7]/g, character => ASCII_REPLACEMENTS[character]);
+}
+
+/**
+ * Plain text with headings in capitals and "-" bullets
+ */
+function toPlainText(blocks: NoteBlock[]): string {
+  const text = toText(blocks.map(block =>
+    block.type === 'heading'
+      ? { ...block, runs: block.runs.map(run => ({ ...run, text: run.text.toUpperCase() })) }
+      : block
+  ));
+  return toASCIIPunctuation(text);
+}
+
+function escapeRTF(text: string): string {
+  let rtf = '';
+  for (let i = 0; i < text.length; i++) {
+    const character = text[i];
+    const code = text.charCodeAt(i);
+    if (character === '\\' || character === '{' || character === '}') {
+      rtf += '\\' + character;
+    } else if (character === '\n') {
+      rtf += '\\line ';
+    } else if (code > 127) {
+      // Signed 16-bit code unit, with "?" for readers without Unicode
+      rtf += `\\u${code > 32767 ? code - 65536 : code}?`;
+    } else {
+      rtf += character;
+    }
+  }
+  return rtf;
+}
+
+const RTF_MARKS: Record<string, string> = {
+  bold: '\\b',
+  italic: '\\i',
+  underline: '\\ul',
+  strike: '\\strike',
+  code: '\\f1',
+};
+
+// Font sizes in half-points
+const RTF_HEADING_SIZES = [32, 28, 24, 22, 22, 22];
+
+/**
+ * Rich Text Format, for systems built on Windows rich text fields
+ */
+function toRTF(blocks: NoteBlock[]): string {
+  const markers = getListMarkers(blocks);
+  const paragraphs = blocks.map((block, index) => {
+    if (block.type === 'html') {
+      return getHTMLBlockLines(block).map(line => `{\\pard\\sa60 ${escapeRTF(line).replace(/\t/g, '\\tab ')}\\par}`).join('\n');
+    }
+    if (block.runs.length === 0) {
+      return '';
+    }
+
+    const text = block.runs.map(run => {
+      const marks = run.marks.map(mark => RTF_MARKS[mark]).join('');
+      return marks ? `{${marks} ${escapeRTF(run.text)}}` : escapeRTF(run.text);
+    }).join('');
+
+    const marker = markers[index];
+    if (block.type === 'heading') {
+      const size = RTF_HEADING_SIZES[(block.level ?? 2) - 1] ?? 22;
+      return `{\\pard\\sb240\\sa120\\b\\fs${size} ${text}\\par}`;
+    }
+    if (marker !== null) {
+      const indent = 360 * ((block.depth ?? 0) + 1);
+      const symbol = marker === '-' ? '\\bullet' : marker;
+      return `{\\pard\\fi-360\\li${indent}\\sa60 ${symbol}\\tab ${text}\\par}`;
+    }
+    return `{\\pard\\sa120 ${text}\\par}`;
+  });
+
+  return [
+    '{\\rtf1\\ansi\\ansicpg1252\\deff0{\\fonttbl{\\f0\\fswiss Arial;}{\\f1\\fmodern Courier New;}}',
+    '\\f0\\fs22',
+    ...paragraphs.filter(Boolean),
+    '}',
+  ].join('\n');
+}
+
+export const EXPORT_PROFILES: ExportProfile[] = [
+  {
+    id: 'woofware',
+    name: 'WoofWare',
+    description: 'Formatted text with headings, lists and emphasis styled inline, for WoofWare and other systems that accept pasted formatting.',
+    extension: 'html',
+    mimeType: 'text/html',
+    format: html => {
+      const blocks = parseHTML(html);
+      return { html: styleForWoofWare(html), text: toText(blocks) };
+    },
+  },
+  {
+    id: 'plain-text',
+    name: 'Plain text',
+    description: 'Text only, with headings in capitals, "-" bullets and plain quotes and dashes, for systems that only take plain text.',
+    extension: 'txt',
+    mimeType: 'text/plain',
+    format: html => ({ text: toPlainText(parseHTML(html)) }),
+  },
+  {
+    id: 'rtf',
+    name: 'RTF',
+    description: 'Rich Text Format, for systems with rich text fields that do not accept HTML. Browsers that cannot copy RTF copy plain text; save the file from the preview instead.',
+    extension: 'rtf',
+    mimeType: 'application/rtf',
+    format: html => {
+      const blocks = parseHTML(html);
+      return { rtf: toRTF(blocks), text: toPlainText(blocks) };
+    },
+  },
+  {
+    id: 'markdown',
+    name: 'Markdown',
+    description: 'Markdown text, for systems and documents that render Markdown.',
+    extension: 'md',
+    mimeType: 'text/markdown',
+    format: html => ({ text: toMarkdown(parseHTML(html)) }),
+  },
+];
+
+export function getExportProfile(id: ExportProfileId): ExportProfile {
+  return EXPORT_PROFILES.find(profile => profile.id === id) ?? EXPORT_PROFILES[0];
+}
+
+/**
+ * Content of the file saved for a profile's output
+ */
+export function getExportFileContent(output: ExportOutput): string {
+  return output.rtf ?? output.html ?? output.text;
+}
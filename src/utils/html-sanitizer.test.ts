@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { escapeHTML, sanitizeHTML } from './html-sanitizer';
+
+describe('sanitizeHTML', () => {
+  it('keeps the markup a note can hold', () => {
+    const html = '<h2>Plan</h2><p><strong>Maropitant</strong> <em>once</em></p><ul><li>Recheck</li></ul><ol start="3"><li>Call</li></ol>';
+    expect(sanitizeHTML(html)).toBe(html);
+  });
+
+  it('removes script tags and their content', () => {
+    expect(sanitizeHTML('<p>Before</p><script>alert(1)</script><p>After</p>')).toBe('<p>Before</p><p>After</p>');
+  });
+
+  it('removes images with error handlers', () => {
+    expect(sanitizeHTML('<p>Note<img src="x" onerror="alert(1)"></p>')).toBe('<p>Note</p>');
+  });
+
+  it('removes SVG with load handlers', () => {
+    expect(sanitizeHTML('<p>Note</p><svg onload="alert(1)"><circle r="1"></circle></svg>')).toBe('<p>Note</p>');
+  });
+
+  it('removes event handlers from allowed tags', () => {
+    expect(sanitizeHTML('<p onclick="alert(1)" onmouseover="alert(2)">Note</p>')).toBe('<p>Note</p>');
+  });
+
+  it('removes javascript: links', () => {
+    expect(sanitizeHTML('<a href="javascript:alert(1)">Link</a>')).toBe('<a>Link</a>');
+    expect(sanitizeHTML('<a href=" java\tscript:alert(1)">Link</a>')).toBe('<a>Link</a>');
+    expect(sanitizeHTML('<a href="JAVASCRIPT:alert(1)">Link</a>')).toBe('<a>Link</a>');
+  });
+
+  it('removes data: links', () => {
+    expect(sanitizeHTML('<a href="data:text/html,<script>alert(1)</script>">Link</a>')).toBe('<a>Link</a>');
+  });
+
+  it('keeps web and mail links, opening them in a new tab', () => {
+    expect(sanitizeHTML('<a href="https://example.com" onclick="x()">Site</a>'))
+      .toBe('<a href="https://example.com" target="_blank" rel="noopener noreferrer">Site</a>');
+    expect(sanitizeHTML('<a href="mailto:vet@example.com">Mail</a>'))
+      .toBe('<a href="mailto:vet@example.com" target="_blank" rel="noopener noreferrer">Mail</a>');
+  });
+
+  it('removes style tags and style attributes', () => {
+    expect(sanitizeHTML('<style>p { color: red }</style><p style="color: red">Note</p>')).toBe('<p>Note</p>');
+  });
+
+  it('removes iframes, objects and forms', () => {
+    expect(sanitizeHTML('<iframe src="https://example.com"></iframe><object data="x"></object><form><input></form><p>Note</p>'))
+      .toBe('<p>Note</p>');
+  });
+
+  it('cleans Word paste markup', () => {
+    const word = [
+      '<!--[if gte mso 9]><xml><w:WordDocument></w:WordDocument></xml><![endif]-->',
+      '<p class="MsoNormal" style="mso-margin-top-alt:auto;mso-bidi-font-family:Calibri">',
+      '<span style="mso-fareast-language:EN-GB">Bright and alert</span><o:p></o:p></p>',
+    ].join('');
+    expect(sanitizeHTML(word)).toBe('<p>Bright and alert</p>');
+  });
+
+  it('turns divs into paragraphs and unwraps divs around blocks', () => {
+    expect(sanitizeHTML('<div>One</div><div><p>Two</p></div>')).toBe('<p>One</p><p>Two</p>');
+  });
+
+  it('does not run handlers while cleaning', () => {
+    const win = window as unknown as { sanitizerRan?: boolean };
+    sanitizeHTML('<img src="x" onerror="window.sanitizerRan = true">');
+    expect(win.sanitizerRan).toBeUndefined();
+  });
+});
+
+describe('escapeHTML', () => {
+  it('escapes markup and quotes', () => {
+    expect(escapeHTML('<a href="x">\'&\'</a>')).toBe('&lt;a href=&quot;x&quot;&gt;&#39;&amp;&#39;&lt;/a&gt;');
+  });
+});
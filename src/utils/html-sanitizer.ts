@@ -0,0 +1,120 @@
+/**
+ * Allowlist HTML sanitizer for model output and pasted content
+ * Only the markup a note can hold is kept: headings, paragraphs, lists,
+ * tables and inline emphasis. Scripts, event handlers, styles and classes
+ * (e.g. from Word or web pages) and every other tag or attribute are removed.
+ */
+
+// Tags kept, with the attributes each may keep
+const ALLOWED_TAGS: Record<string, string[]> = {
+  P: [], BR: [], HR: [], BLOCKQUOTE: [], PRE: [],
+  H1: [], H2: [], H3: [], H4: [], H5: [], H6: [],
+  UL: [], OL: ['start'], LI: [],
+  STRONG: [], B: [], EM: [], I: [], U: [], S: [], DEL: [], CODE: [], SUB: [], SUP: [],
+  TABLE: [], THEAD: [], TBODY: [], TR: [], TH: ['colspan', 'rowspan'], TD: ['colspan', 'rowspan'],
+  A: ['href', 'title'],
+};
+
+// Tags removed along with everything inside them
+const DROPPED_TAGS = new Set([
+  'SCRIPT', 'STYLE', 'NOSCRIPT', 'TEMPLATE', 'IFRAME', 'FRAME', 'FRAMESET', 'OBJECT', 'EMBED', 'APPLET',
+  'HEAD', 'TITLE', 'META', 'LINK', 'BASE', 'SVG', 'MATH', 'FORM', 'INPUT', 'TEXTAREA', 'SELECT', 'BUTTON',
+  'IMG', 'VIDEO', 'AUDIO', 'SOURCE', 'CANVAS', 'XML',
+]);
+
+const BLOCK_TAGS = new Set(['P', 'H1', 'H2', 'H3', 'H4', 'H5', 'H6', 'UL', 'OL', 'TABLE', 'BLOCKQUOTE', 'PRE', 'HR', 'DIV']);
+
+const SAFE_URL = /^(https?:|mailto:|#)/i;
+
+/**
+ * Escape text for use in HTML content or a quoted attribute
+ */
+export function escapeHTML(text: string): string {
+  return text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Whether a link is to a web page, an email address or a place in the note,
+ * ignoring white space and control characters browsers skip in URLs
+ */
+export function isSafeURL(url: string): boolean {
+  return SAFE_URL.test(url.replace(/[\s\u0000-\u001F]/g, ''));
+}
+
+function sanitizeAttributes(element: Element): void {
+  const allowed = ALLOWED_TAGS[element.tagName] ?? [];
+  Array.from(element.attributes).forEach(attribute => {
+    const name = attribute.name.toLowerCase();
+    if (!allowed.includes(name)) {
+      element.removeAttribute(attribute.name);
+    } else if (name === 'href' && !isSafeURL(attribute.value)) {
+      element.removeAttribute(attribute.name);
+    }
+  });
+
+  if (element.tagName === 'A' && element.hasAttribute('href')) {
+    element.setAttribute('target', '_blank');
+    element.setAttribute('rel', 'noopener noreferrer');
+  }
+}
+
+function unwrap(element: Element): void {
+  element.replaceWith(...Array.from(element.childNodes));
+}
+
+function sanitizeChildren(parent: Node): void {
+  Array.from(parent.childNodes).forEach(node => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      return;
+    }
+    if (!(node instanceof Element)) {
+      // Comments, including Word's conditional comments, and processing instructions
+      node.remove();
+      return;
+    }
+
+    // Namespaced tags such as Word's <o:p> have no uppercase tagName mapping
+    const tag = node.tagName.toUpperCase();
+    if (DROPPED_TAGS.has(tag)) {
+      node.remove();
+      return;
+    }
+
+    sanitizeChildren(node);
+
+    if (tag === 'DIV') {
+      // Divs from web pages become paragraphs, unless they wrap other blocks
+      if (Array.from(node.children).some(child => BLOCK_TAGS.has(child.tagName.toUpperCase()))) {
+        unwrap(node);
+      } else {
+        const paragraph = node.ownerDocument.createElement('p');
+        paragraph.append(...Array.from(node.childNodes));
+        node.replaceWith(paragraph);
+      }
+    } else if (ALLOWED_TAGS[tag]) {
+      sanitizeAttributes(node);
+    } else {
+      unwrap(node);
+    }
+  });
+}
+
+/**
+ * Remove everything but allowed tags and attributes from HTML
+ * The HTML is parsed into a document that is never rendered, so nothing in
+ * it loads or runs while it is being cleaned.
+ * @param html - Untrusted HTML
+ * @returns HTML safe to insert into the editor
+ */
+export function sanitizeHTML(html: string): string {
+  const inert = document.implementation.createHTMLDocument('');
+  const container = inert.createElement('div');
+  container.innerHTML = html;
+  sanitizeChildren(container);
+  return container.innerHTML;
+}
@@ -3,6 +3,8 @@
  */
 
 import { marked } from 'marked';
+import { escapeHTML, sanitizeHTML } from './html-sanitizer';
+import { parseHTML, toMarkdown } from './note-document';
 
 /**
  * Configure marked options for clean, safe HTML output
@@ -14,6 +16,7 @@ marked.setOptions({
 
 /**
  * Convert Markdown to HTML
+ * The output is sanitized, since the Markdown comes from the model
  * @param markdown - Markdown text
  * @returns HTML string
  */
@@ -24,14 +27,28 @@ export function renderMarkdown(markdown: string): string {
 
   try {
     const html = marked.parse(markdown) as string;
-    return html;
+    return sanitizeHTML(html);
   } catch (error) {
     console.error('Markdown rendering error:', error);
     // Fallback: return as-is with line breaks converted
-    return markdown.replace(/\n/g, '<br>');
+    return escapeHTML(markdown).replace(/\n/g, '<br>');
   }
 }
 
+/**
+ * Convert HTML back to Markdown
+ * Written in the dialect renderMarkdown reads, so rendering the result gives
+ * the same note: headings, lists, emphasis and line breaks are kept.
+ * @param html - HTML string, e.g. from the editor
+ * @returns Markdown text
+ */
+export function htmlToMarkdown(html: string): string {
+  if (!html) {
+    return '';
+  }
+  return toMarkdown(parseHTML(html));
+}
+
 /**
  * Convert HTML back to plain text (for clipboard plain text fallback)
  * @param html - HTML string
@@ -42,15 +59,3 @@ export function htmlToPlainText(html: string): string {
   temp.innerHTML = html;
   return temp.textContent || temp.innerText || '';
 }
-
-/**
- * Sanitize HTML to prevent XSS (basic sanitization)
- * For production, consider using DOMPurify library
- * @param html - HTML string
- * @returns Sanitized HTML
- */
-export function sanitizeHTML(html: string): string {
-  const temp = document.createElement('div');
-  temp.textContent = html;
-  return temp.innerHTML;
-}
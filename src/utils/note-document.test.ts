@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vitest';
+import {
+  createBlock,
+  findSectionBody,
+  parseHTML,
+  replaceRange,
+  setMark,
+  toHTML,
+  toMarkdown,
+  toText,
+  toggleList,
+} from './note-document';
+import { renderMarkdown } from './markdown-renderer';
+
+const NOTE = [
+  '<h2>Subjective</h2>',
+  '<p>Vomiting x3 since <strong>yesterday</strong><br>Eating <em>less</em></p>',
+  '<h2>Plan</h2>',
+  '<ul><li>Maropitant 1 mg/kg<ul><li>SC once</li></ul></li><li>Bland diet</li></ul>',
+  '<ol start="3"><li>Recheck in 2 days</li><li>Call if worse</li></ol>',
+].join('');
+
+describe('parseHTML and toHTML', () => {
+  it('round-trip a note', () => {
+    expect(toHTML(parseHTML(NOTE))).toBe(NOTE);
+  });
+
+  it('read headings, breaks, marks and nested lists into blocks', () => {
+    const blocks = parseHTML(NOTE);
+    expect(blocks.map(block => block.type)).toEqual([
+      'heading', 'paragraph', 'heading', 'list-item', 'list-item', 'list-item', 'list-item', 'list-item',
+    ]);
+    expect(blocks[1].runs).toEqual([
+      { text: 'Vomiting x3 since ', marks: [] },
+      { text: 'yesterday', marks: ['bold'] },
+      { text: '\nEating ', marks: [] },
+      { text: 'less', marks: ['italic'] },
+    ]);
+    expect(blocks[4]).toMatchObject({ list: 'bullet', depth: 1 });
+    expect(blocks[6]).toMatchObject({ list: 'ordered', depth: 0, start: 3 });
+  });
+
+  it('give the same HTML for markup that differs only in tags and white space', () => {
+    const html = '<h2>Plan</h2>\n<p><b>Rest</b> and <i>fluids</i></p>\n<div>Recheck</div>';
+    expect(toHTML(parseHTML(html))).toBe('<h2>Plan</h2><p><strong>Rest</strong> and <em>fluids</em></p><p>Recheck</p>');
+  });
+
+  it('leave out empty blocks', () => {
+    expect(toHTML(parseHTML('<p>One</p><p></p><p><br></p><p>Two</p>'))).toBe('<p>One</p><p>Two</p>');
+  });
+
+  it('keep tables whole, sanitized', () => {
+    const html = '<table><tbody><tr><td onclick="alert(1)">Weight</td><td>12 kg</td></tr></tbody></table>';
+    expect(toHTML(parseHTML(html))).toBe('<table><tbody><tr><td>Weight</td><td>12 kg</td></tr></tbody></table>');
+  });
+
+  it('escape text', () => {
+    const blocks = [createBlock('paragraph', [{ text: '<script>alert(1)</script> & more', marks: [] }])];
+    expect(toHTML(blocks)).toBe('<p>&lt;script&gt;alert(1)&lt;/script&gt; &amp; more</p>');
+  });
+
+  it('write safe links and drop links that could run script', () => {
+    const link = (href: string) => [createBlock('paragraph', [{ text: 'Link', marks: [], link: href }])];
+    expect(toHTML(link('https://example.com'))).toBe('<p><a href="https://example.com">Link</a></p>');
+    expect(toHTML(link('mailto:vet@example.com'))).toBe('<p><a href="mailto:vet@example.com">Link</a></p>');
+    expect(toHTML(link('javascript:alert(1)'))).toBe('<p>Link</p>');
+    expect(toHTML(link(' java\nscript:alert(1)'))).toBe('<p>Link</p>');
+    expect(toHTML(link('data:text/html,<script>alert(1)</script>'))).toBe('<p>Link</p>');
+    expect(toMarkdown(link('javascript:alert(1)'))).toBe('Link');
+  });
+});
+
+describe('toMarkdown', () => {
+  it('writes the note as Markdown', () => {
+    expect(toMarkdown(parseHTML(NOTE))).toBe([
+      '## Subjective',
+      '',
+      'Vomiting x3 since **yesterday**',
+      'Eating *less*',
+      '',
+      '## Plan',
+      '',
+      '- Maropitant 1 mg/kg',
+      '  - SC once',
+      '- Bland diet',
+      '',
+      '3. Recheck in 2 days',
+      '4. Call if worse',
+    ].join('\n'));
+  });
+
+  it('renders back to the same note', () => {
+    expect(toHTML(parseHTML(renderMarkdown(toMarkdown(parseHTML(NOTE)))))).toBe(NOTE);
+  });
+
+  it('escapes text that would read as Markdown', () => {
+    const html = '<p>1. Not a list</p><p># Not a heading</p><p>2*3*4 and [brackets]</p>';
+    const markdown = toMarkdown(parseHTML(html));
+    expect(toHTML(parseHTML(renderMarkdown(markdown)))).toBe(html);
+  });
+
+  it('round-trips Markdown from the model', () => {
+    const markdown = '## Assessment\n\nGastroenteritis, **likely dietary**\n\n- Dehydration 5%\n- Pain score 2/10';
+    expect(toMarkdown(parseHTML(renderMarkdown(markdown)))).toBe(markdown);
+  });
+});
+
+describe('toText', () => {
+  it('marks and indents list items and spaces out headings', () => {
+    expect(toText(parseHTML(NOTE))).toBe([
+      'Subjective',
+      'Vomiting x3 since yesterday',
+      'Eating less',
+      '',
+      'Plan',
+      '- Maropitant 1 mg/kg',
+      '  - SC once',
+      '- Bland diet',
+      '3. Recheck in 2 days',
+      '4. Call if worse',
+    ].join('\n'));
+  });
+
+  it('lines up wrapped lines of a list item with its text', () => {
+    expect(toText(parseHTML('<ol><li>First<br>second line</li></ol>'))).toBe('1. First\n   second line');
+  });
+
+  it('separates table cells with tabs', () => {
+    expect(toText(parseHTML('<table><tr><td>Weight</td><td>12 kg</td></tr><tr><td>Temp</td><td>38.9</td></tr></table>')))
+      .toBe('Weight\t12 kg\nTemp\t38.9');
+  });
+});
+
+describe('edits', () => {
+  it('replace a range within a block', () => {
+    const blocks = parseHTML('<p>Recheck in 2 days</p>');
+    const result = replaceRange(blocks, { from: { block: 0, offset: 11 }, to: { block: 0, offset: 17 } }, parseHTML('<p>a week</p>'));
+    expect(toHTML(result.blocks)).toBe('<p>Recheck in a week</p>');
+    expect(result.position).toEqual({ block: 0, offset: 17 });
+  });
+
+  it('replace a range across blocks with several blocks', () => {
+    const blocks = parseHTML('<p>One</p><p>Two</p><p>Three</p>');
+    const result = replaceRange(blocks, { from: { block: 0, offset: 1 }, to: { block: 2, offset: 2 } }, parseHTML('<p>A</p><p>B</p>'));
+    expect(toHTML(result.blocks)).toBe('<p>OA</p><p>Bree</p>');
+  });
+
+  it('set a mark on part of a block', () => {
+    const blocks = setMark(parseHTML('<p>Give fluids</p>'), { from: { block: 0, offset: 5 }, to: { block: 0, offset: 11 } }, 'bold', true);
+    expect(toHTML(blocks)).toBe('<p>Give <strong>fluids</strong></p>');
+  });
+
+  it('toggle paragraphs into a list and back', () => {
+    const range = { from: { block: 0, offset: 0 }, to: { block: 1, offset: 0 } };
+    const list = toggleList(parseHTML('<p>One</p><p>Two</p>'), range, 'bullet');
+    expect(toHTML(list)).toBe('<ul><li>One</li><li>Two</li></ul>');
+    expect(toHTML(toggleList(list, range, 'bullet'))).toBe('<p>One</p><p>Two</p>');
+  });
+
+  it('find the body of the section holding a position', () => {
+    const blocks = parseHTML(NOTE);
+    expect(findSectionBody(blocks, { block: 4, offset: 2 })).toEqual({
+      range: { from: { block: 3, offset: 0 }, to: { block: 7, offset: 13 } },
+      title: 'Plan',
+    });
+    expect(findSectionBody(parseHTML('<p>No heading</p>'), { block: 0, offset: 0 })).toBeNull();
+  });
+});
@@ -0,0 +1,1041 @@
+/**
+ * Document model of the note editor
+ * A note is a flat list of blocks (headings, paragraphs, and list items with
+ * a nesting depth), each holding runs of text with inline marks. Tables and
+ * other markup without a block type of their own are kept whole as HTML.
+ * Edits are functions from one block list to the next, and the HTML,
+ * Markdown and plain text written out depend only on the blocks.
+ */
+
+import { DocPosition, DocRange, InlineMark, ListType, NoteBlock, TextRun } from '../types';
+import { escapeHTML, isSafeURL, sanitizeHTML } from './html-sanitizer';
+
+// Marks in the order they nest, outermost first
+const MARK_ORDER: InlineMark[] = ['bold', 'italic', 'underline', 'strike', 'code'];
+
+const MARK_TAGS: Record<InlineMark, string> = {
+  bold: 'strong',
+  italic: 'em',
+  underline: 'u',
+  strike: 's',
+  code: 'code',
+};
+
+const TAG_MARKS: Record<string, InlineMark> = {
+  STRONG: 'bold', B: 'bold',
+  EM: 'italic', I: 'italic',
+  U: 'underline', INS: 'underline',
+  S: 'strike', DEL: 'strike', STRIKE: 'strike',
+  CODE: 'code',
+};
+
+const HEADING_TAGS = ['H1', 'H2', 'H3', 'H4', 'H5', 'H6'];
+
+// Kept whole as HTML
+const RAW_TAGS = new Set(['TABLE', 'PRE', 'BLOCKQUOTE', 'HR']);
+
+// Hold either text or other blocks
+const CONTAINER_TAGS = new Set(['DIV', 'SECTION', 'ARTICLE', 'HEADER', 'FOOTER', 'MAIN']);
+
+const BLOCK_TAGS = new Set([...HEADING_TAGS, 'P', 'UL', 'OL', 'LI', ...RAW_TAGS, ...CONTAINER_TAGS]);
+
+// Content that is never text
+const SKIPPED_TAGS = new Set(['SCRIPT', 'STYLE', 'TEMPLATE', 'IMG', 'SVG', 'MATH']);
+
+const COLLAPSIBLE_SPACE = /[ \t\n\r\f]/;
+
+/**
+ * Where a block's text came from in the DOM, for mapping selections
+ */
+interface TextSource {
+  node: Node;
+  // Offset of the source's text in its block
+  start: number;
+  length: number;
+  // DOM offset of each character of a text node, and of the end of its text
+  offsets?: number[];
+}
+
+/**
+ * Block parsed from the editor, with the DOM nodes it was read from
+ */
+export interface ParsedBlock {
+  block: NoteBlock;
+  nodes: Node[];
+  sources: TextSource[];
+}
+
+export interface HTMLOptions {
+  // Editor markup: block attributes, and line breaks that keep empty lines visible
+  view?: boolean;
+}
+
+// ---------------------------------------------------------------------------
+// Blocks and runs
+// ---------------------------------------------------------------------------
+
+export function createBlock(type: NoteBlock['type'] = 'paragraph', runs: TextRun[] = []): NoteBlock {
+  return { type, runs };
+}
+
+export function cloneBlock(block: NoteBlock): NoteBlock {
+  return {
+    ...block,
+    runs: block.runs.map(run => ({ ...run, marks: [...run.marks] })),
+    ...(block.attrs ? { attrs: { ...block.attrs } } : {}),
+  };
+}
+
+export function blockText(block: NoteBlock): string {
+  return block.runs.map(run => run.text).join('');
+}
+
+/**
+ * Length of a block for positions; a block kept as HTML counts as one character
+ */
+export function blockLength(block: NoteBlock): number {
+  return block.type === 'html' ? 1 : blockText(block).length;
+}
+
+function hasSameFormat(a: TextRun, b: TextRun): boolean {
+  return a.link === b.link && a.marks.length === b.marks.length && a.marks.every(mark => b.marks.includes(mark));
+}
+
+/**
+ * Sort marks, drop empty runs and merge neighbours with the same formatting
+ */
+export function normalizeRuns(runs: TextRun[]): TextRun[] {
+  const result: TextRun[] = [];
+  for (const run of runs) {
+    if (!run.text) continue;
+    const normalized: TextRun = { text: run.text, marks: MARK_ORDER.filter(mark => run.marks.includes(mark)) };
+    if (run.link) {
+      normalized.link = run.link;
+    }
+    const last = result[result.length - 1];
+    if (last && hasSameFormat(last, normalized)) {
+      last.text += normalized.text;
+    } else {
+      result.push(normalized);
+    }
+  }
+  return result;
+}
+
+/**
+ * Runs covering characters from..to of a block's text
+ */
+export function sliceRuns(runs: TextRun[], from: number, to: number = Infinity): TextRun[] {
+  const result: TextRun[] = [];
+  let position = 0;
+  for (const run of runs) {
+    const start = Math.max(from - position, 0);
+    const end = Math.min(to - position, run.text.length);
+    if (end > start) {
+      result.push({ ...run, marks: [...run.marks], text: run.text.slice(start, end) });
+    }
+    position += run.text.length;
+  }
+  return result;
+}
+
+/**
+ * Tidy a block list after an edit: runs merged, list depths no deeper than
+ * one below the item before, and never an empty list
+ */
+export function normalizeBlocks(blocks: NoteBlock[]): NoteBlock[] {
+  const result: NoteBlock[] = [];
+  blocks.forEach(block => {
+    const normalized = { ...block, runs: normalizeRuns(block.runs) };
+    if (normalized.type === 'list-item') {
+      const previous = result[result.length - 1];
+      const maxDepth = previous?.type === 'list-item' ? (previous.depth ?? 0) + 1 : 0;
+      normalized.depth = Math.min(Math.max(normalized.depth ?? 0, 0), maxDepth);
+      normalized.list = normalized.list ?? 'bullet';
+    }
+    result.push(normalized);
+  });
+  return result.length > 0 ? result : [createBlock()];
+}
+
+// ---------------------------------------------------------------------------
+// Positions
+// ---------------------------------------------------------------------------
+
+export function comparePositions(a: DocPosition, b: DocPosition): number {
+  return a.block - b.block || a.offset - b.offset;
+}
+
+export function orderRange(range: DocRange): DocRange {
+  return comparePositions(range.from, range.to) <= 0 ? range : { from: range.to, to: range.from };
+}
+
+export function isCollapsed(range: DocRange): boolean {
+  return comparePositions(range.from, range.to) === 0;
+}
+
+export function clampPosition(blocks: NoteBlock[], position: DocPosition): DocPosition {
+  const block = Math.min(Math.max(position.block, 0), blocks.length - 1);
+  return { block, offset: Math.min(Math.max(position.offset, 0), blockLength(blocks[block])) };
+}
+
+export function documentEnd(blocks: NoteBlock[]): DocPosition {
+  return { block: blocks.length - 1, offset: blockLength(blocks[blocks.length - 1]) };
+}
+
+/**
+ * Blocks covering a range, cut to the range at either end
+ */
+export function sliceBlocks(blocks: NoteBlock[], range: DocRange): NoteBlock[] {
+  const { from, to } = orderRange(range);
+  const result: NoteBlock[] = [];
+  for (let index = from.block; index <= to.block; index++) {
+    const block = blocks[index];
+    const start = index === from.block ? from.offset : 0;
+    const end = index === to.block ? to.offset : blockLength(block);
+    if (block.type === 'html') {
+      if (start === 0 && end > 0) {
+        result.push(cloneBlock(block));
+      }
+    } else {
+      result.push({ ...cloneBlock(block), runs: sliceRuns(block.runs, start, end) });
+    }
+  }
+  return result;
+}
+
+/**
+ * Body of the section holding a position: the blocks between its heading
+ * and the next heading
+ * @returns null outside a section, or for a heading with nothing under it
+ */
+export function findSectionBody(blocks: NoteBlock[], position: DocPosition): { range: DocRange; title: string } | null {
+  let heading = position.block;
+  while (heading >= 0 && blocks[heading].type !== 'heading') {
+    heading--;
+  }
+  if (heading < 0) return null;
+
+  let last = heading;
+  while (last + 1 < blocks.length && blocks[last + 1].type !== 'heading') {
+    last++;
+  }
+  if (last === heading) return null;
+
+  return {
+    range: { from: { block: heading + 1, offset: 0 }, to: { block: last, offset: blockLength(blocks[last]) } },
+    title: blockText(blocks[heading]).replace(/:\s*$/, '').trim(),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Edits
+// ---------------------------------------------------------------------------
+
+function withRuns(block: NoteBlock, runs: TextRun[]): NoteBlock {
+  return { ...cloneBlock(block), runs };
+}
+
+/**
+ * Replace a range with blocks
+ * A single paragraph (or plain text) is inserted into the block at the start
+ * of the range; longer content starts new blocks, joined to the text around
+ * the range where the inserted blocks are paragraphs.
+ * @returns The new blocks and the position after the inserted content
+ */
+export function replaceRange(
+  blocks: NoteBlock[],
+  range: DocRange,
+  insert: NoteBlock[]
+): { blocks: NoteBlock[]; position: DocPosition } {
+  const { from, to } = orderRange(range);
+  const head = blocks[from.block];
+  const tail = blocks[to.block];
+
+  // What is left of the blocks at either end; blocks kept as HTML go whole
+  let before: NoteBlock | null;
+  if (head.type === 'html') {
+    before = from.offset > 0 ? cloneBlock(head) : null;
+  } else {
+    before = withRuns(head, sliceRuns(head.runs, 0, from.offset));
+  }
+  let after: NoteBlock | null;
+  if (tail.type === 'html') {
+    after = to.offset > 0 ? null : cloneBlock(tail);
+  } else {
+    after = withRuns(tail, sliceRuns(tail.runs, to.offset));
+    delete after.start;
+  }
+
+  const pieces: NoteBlock[] = [];
+  let position: DocPosition;
+  const isInline = insert.length === 0 || (insert.length === 1 && insert[0].type === 'paragraph');
+
+  if (isInline && before && before.type !== 'html') {
+    const inserted = insert[0]?.runs ?? [];
+    const joined = withRuns(before, [...before.runs, ...inserted.map(run => ({ ...run, marks: [...run.marks] }))]);
+    position = { block: from.block, offset: blockText(joined).length };
+    if (after && after.type !== 'html') {
+      joined.runs.push(...after.runs);
+      pieces.push(joined);
+    } else {
+      pieces.push(joined, ...(after ? [after] : []));
+    }
+  } else {
+    pieces.push(...insert.map(cloneBlock));
+    let offset = 0;
+    if (before && (before.type === 'html' || blockText(before))) {
+      if (before.type !== 'html' && pieces[0]?.type === 'paragraph') {
+        pieces[0] = withRuns(before, [...before.runs, ...pieces[0].runs]);
+      } else {
+        pieces.unshift(before);
+        offset = 1;
+      }
+    }
+
+    const last = pieces.length - 1;
+    position = last >= 0
+      ? { block: from.block + last, offset: blockLength(pieces[last]) }
+      : { block: from.block, offset: 0 };
+
+    if (after && (after.type === 'html' || blockText(after))) {
+      const lastInserted = insert[insert.length - 1];
+      if (after.type !== 'html' && last >= offset && lastInserted?.type === 'paragraph') {
+        pieces[last].runs.push(...after.runs);
+      } else {
+        pieces.push(after);
+      }
+    }
+
+    if (pieces.length === 0) {
+      pieces.push(before && before.type !== 'html' ? before : createBlock());
+    }
+  }
+
+  const result = normalizeBlocks([...blocks.slice(0, from.block), ...pieces, ...blocks.slice(to.block + 1)]);
+  return { blocks: result, position: clampPosition(result, position) };
+}
+
+/**
+ * Apply a change to the runs of each block in a range, split at its ends
+ */
+function mapRangeRuns(blocks: NoteBlock[], range: DocRange, change: (run: TextRun) => TextRun): NoteBlock[] {
+  const { from, to } = orderRange(range);
+  return normalizeBlocks(blocks.map((block, index) => {
+    if (index < from.block || index > to.block || block.type === 'html') {
+      return block;
+    }
+    const start = index === from.block ? from.offset : 0;
+    const end = index === to.block ? to.offset : blockLength(block);
+    return withRuns(block, [
+      ...sliceRuns(block.runs, 0, start),
+      ...sliceRuns(block.runs, start, end).map(change),
+      ...sliceRuns(block.runs, end),
+    ]);
+  }));
+}
+
+/**
+ * Marks on every character of a range
+ */
+export function getRangeMarks(blocks: NoteBlock[], range: DocRange): InlineMark[] {
+  const runs = sliceBlocks(blocks, range).flatMap(block => block.runs);
+  if (runs.length === 0) return [];
+  return MARK_ORDER.filter(mark => runs.every(run => run.marks.includes(mark)));
+}
+
+/**
+ * Marks of the text before a position, which typed text continues
+ */
+export function getMarksAt(blocks: NoteBlock[], position: DocPosition): InlineMark[] {
+  const block = blocks[position.block];
+  if (!block || block.type === 'html') return [];
+  const offset = position.offset > 0 ? position.offset - 1 : 0;
+  const [run] = sliceRuns(block.runs, offset, offset + 1);
+  return run ? [...run.marks] : [];
+}
+
+export function setMark(blocks: NoteBlock[], range: DocRange, mark: InlineMark, enabled: boolean): NoteBlock[] {
+  return mapRangeRuns(blocks, range, run => ({
+    ...run,
+    marks: enabled ? [...run.marks.filter(other => other !== mark), mark] : run.marks.filter(other => other !== mark),
+  }));
+}
+
+/**
+ * Remove marks and links from a range
+ */
+export function clearMarks(blocks: NoteBlock[], range: DocRange): NoteBlock[] {
+  return mapRangeRuns(blocks, range, run => ({ text: run.text, marks: [] }));
+}
+
+function mapRangeBlocks(blocks: NoteBlock[], range: DocRange, change: (block: NoteBlock) => NoteBlock): NoteBlock[] {
+  const { from, to } = orderRange(range);
+  return normalizeBlocks(blocks.map((block, index) =>
+    index >= from.block && index <= to.block && block.type !== 'html' ? change(cloneBlock(block)) : block
+  ));
+}
+
+function withType(block: NoteBlock, type: NoteBlock['type']): NoteBlock {
+  const { level: _level, list: _list, depth: _depth, start: _start, ...rest } = block;
+  return { ...rest, type };
+}
+
+/**
+ * Make the blocks in a range headings of a level, or paragraphs
+ */
+export function setBlockType(blocks: NoteBlock[], range: DocRange, type: 'paragraph' | 'heading', level: number = 2): NoteBlock[] {
+  return mapRangeBlocks(blocks, range, block =>
+    type === 'heading' ? { ...withType(block, 'heading'), level } : withType(block, 'paragraph')
+  );
+}
+
+/**
+ * Turn the blocks in a range into a list, or back into paragraphs when
+ * they are all items of that kind of list already
+ */
+export function toggleList(blocks: NoteBlock[], range: DocRange, list: ListType): NoteBlock[] {
+  const { from, to } = orderRange(range);
+  const selected = blocks.slice(from.block, to.block + 1).filter(block => block.type !== 'html');
+  const isList = selected.length > 0 && selected.every(block => block.type === 'list-item' && block.list === list);
+
+  return mapRangeBlocks(blocks, range, block => {
+    if (isList) {
+      return withType(block, 'paragraph');
+    }
+    return { ...withType(block, 'list-item'), list, depth: block.type === 'list-item' ? block.depth : 0 };
+  });
+}
+
+/**
+ * Nest list items in a range one level deeper, or less deep; items
+ * outdented from the top level become paragraphs
+ */
+export function indentListItems(blocks: NoteBlock[], range: DocRange, delta: 1 | -1): NoteBlock[] {
+  return mapRangeBlocks(blocks, range, block => {
+    if (block.type !== 'list-item') {
+      return block;
+    }
+    const depth = (block.depth ?? 0) + delta;
+    return depth < 0 ? withType(block, 'paragraph') : { ...block, depth };
+  });
+}
+
+// ---------------------------------------------------------------------------
+// Parsing
+// ---------------------------------------------------------------------------
+
+interface InlineContext {
+  runs: TextRun[];
+  sources: TextSource[];
+  length: number;
+  // A block ended inside the content; a line break goes before what follows
+  pendingBreak: boolean;
+}
+
+function createContext(): InlineContext {
+  return { runs: [], sources: [], length: 0, pendingBreak: false };
+}
+
+function lastCharacter(context: InlineContext): string {
+  const last = context.runs[context.runs.length - 1];
+  return last ? last.text[last.text.length - 1] : '';
+}
+
+function removeLastCharacter(context: InlineContext): void {
+  const last = context.runs[context.runs.length - 1];
+  last.text = last.text.slice(0, -1);
+  if (!last.text) {
+    context.runs.pop();
+  }
+  context.length--;
+  const source = context.sources[context.sources.length - 1];
+  if (source && source.start + source.length > context.length) {
+    source.length = Math.max(context.length - source.start, 0);
+  }
+}
+
+// Spaces before a line break, or at the end of a block, are not shown
+function trimTrailingSpace(context: InlineContext): void {
+  if (lastCharacter(context) === ' ') {
+    removeLastCharacter(context);
+  }
+}
+
+function addBreak(context: InlineContext, node: Node, marks: InlineMark[], link: string | undefined): void {
+  trimTrailingSpace(context);
+  context.sources.push({ node, start: context.length, length: 1 });
+  context.runs.push({ text: '\n', marks, ...(link ? { link } : {}) });
+  context.length++;
+  context.pendingBreak = false;
+}
+
+function addText(context: InlineContext, node: Text, marks: InlineMark[], link: string | undefined): void {
+  const raw = node.data;
+  if (context.pendingBreak) {
+    if (!/[^ \t\n\r\f]/.test(raw)) return;
+    addBreak(context, node, marks, link);
+  }
+
+  // White space collapses as the browser shows it
+  let text = '';
+  const offsets: number[] = [];
+  for (let i = 0; i < raw.length; i++) {
+    if (COLLAPSIBLE_SPACE.test(raw[i])) {
+      const previous = text ? text[text.length - 1] : lastCharacter(context);
+      if (previous === '' || previous === ' ' || previous === '\n') continue;
+      text += ' ';
+    } else {
+      text += raw[i];
+    }
+    offsets.push(i);
+  }
+  if (!text) return;
+  offsets.push(raw.length);
+
+  context.sources.push({ node, start: context.length, length: text.length, offsets });
+  context.runs.push({ text, marks, ...(link ? { link } : {}) });
+  context.length += text.length;
+}
+
+function addInline(node: Node, context: InlineContext, marks: InlineMark[], link: string | undefined): void {
+  if (node.nodeType === Node.TEXT_NODE) {
+    addText(context, node as Text, marks, link);
+    return;
+  }
+  if (!(node instanceof Element)) return;
+
+  const tag = node.tagName.toUpperCase();
+  if (tag === 'BR') {
+    addBreak(context, node, marks, link);
+    return;
+  }
+  // Nested lists are blocks of their own
+  if (tag === 'UL' || tag === 'OL' || SKIPPED_TAGS.has(tag)) return;
+
+  // Blocks inside a block, e.g. paragraphs in a list item, become lines
+  const isBlock = BLOCK_TAGS.has(tag);
+  if (isBlock && context.length > 0) {
+    context.pendingBreak = true;
+  }
+
+  const mark = TAG_MARKS[tag];
+  const childMarks = mark && !marks.includes(mark) ? [...marks, mark] : marks;
+  const childLink = tag === 'A' ? node.getAttribute('href') ?? link : link;
+  node.childNodes.forEach(child => addInline(child, context, childMarks, childLink || undefined));
+
+  if (isBlock && context.length > 0) {
+    context.pendingBreak = true;
+  }
+}
+
+function finishContext(context: InlineContext): TextRun[] {
+  trimTrailingSpace(context);
+  // A line break at the end of a block only holds the line open
+  if (lastCharacter(context) === '\n') {
+    removeLastCharacter(context);
+    trimTrailingSpace(context);
+  }
+  return normalizeRuns(context.runs);
+}
+
+// Classes and data attributes, e.g. transcript check marks
+function getViewAttributes(element: Element): Record<string, string> | undefined {
+  const attrs: Record<string, string> = {};
+  Array.from(element.attributes).forEach(attribute => {
+    if (attribute.name === 'class' || attribute.name.startsWith('data-')) {
+      attrs[attribute.name] = attribute.value;
+    }
+  });
+  return Object.keys(attrs).length > 0 ? attrs : undefined;
+}
+
+function parseTextBlock(element: Element, block: Omit<NoteBlock, 'runs'>, parsed: ParsedBlock[]): void {
+  const context = createContext();
+  element.childNodes.forEach(child => addInline(child, context, [], undefined));
+  const attrs = getViewAttributes(element);
+  parsed.push({
+    block: { ...block, runs: finishContext(context), ...(attrs ? { attrs } : {}) },
+    nodes: [element],
+    sources: context.sources,
+  });
+}
+
+function parseList(list: Element, depth: number, parsed: ParsedBlock[]): void {
+  const type: ListType = list.tagName.toUpperCase() === 'OL' ? 'ordered' : 'bullet';
+  const start = Number(list.getAttribute('start') ?? 1);
+  let isFirst = true;
+
+  Array.from(list.children).forEach(child => {
+    const tag = child.tagName.toUpperCase();
+    if (tag === 'UL' || tag === 'OL') {
+      parseList(child, depth + 1, parsed);
+      return;
+    }
+
+    const item: Omit<NoteBlock, 'runs'> = { type: 'list-item', list: type, depth };
+    if (isFirst && type === 'ordered' && Number.isInteger(start) && start !== 1) {
+      item.start = start;
+    }
+    isFirst = false;
+    parseTextBlock(child, item, parsed);
+
+    Array.from(child.children)
+      .filter(nested => ['UL', 'OL'].includes(nested.tagName.toUpperCase()))
+      .forEach(nested => parseList(nested, depth + 1, parsed));
+  });
+}
+
+function parseBlocks(parent: Node, parsed: ParsedBlock[]): void {
+  // Text and inline elements outside any block make a paragraph
+  let loose: { context: InlineContext; nodes: Node[] } | null = null;
+  const flushLoose = () => {
+    if (loose) {
+      const runs = finishContext(loose.context);
+      if (runs.length > 0) {
+        parsed.push({ block: { type: 'paragraph', runs }, nodes: loose.nodes, sources: loose.context.sources });
+      }
+      loose = null;
+    }
+  };
+
+  parent.childNodes.forEach(node => {
+    const tag = node instanceof Element ? node.tagName.toUpperCase() : '';
+    if (node instanceof Element && BLOCK_TAGS.has(tag)) {
+      flushLoose();
+      if (HEADING_TAGS.includes(tag)) {
+        parseTextBlock(node, { type: 'heading', level: Number(tag[1]) }, parsed);
+      } else if (tag === 'UL' || tag === 'OL') {
+        parseList(node, 0, parsed);
+      } else if (tag === 'LI') {
+        parseTextBlock(node, { type: 'list-item', list: 'bullet', depth: 0 }, parsed);
+      } else if (RAW_TAGS.has(tag)) {
+        parsed.push({ block: { type: 'html', runs: [], html: sanitizeHTML(node.outerHTML) }, nodes: [node], sources: [] });
+      } else if (CONTAINER_TAGS.has(tag) && Array.from(node.children).some(child => BLOCK_TAGS.has(child.tagName.toUpperCase()))) {
+        parseBlocks(node, parsed);
+      } else {
+        parseTextBlock(node, { type: 'paragraph' }, parsed);
+      }
+      return;
+    }
+
+    if (!loose) {
+      if (node.nodeType === Node.TEXT_NODE && !/[^ \t\n\r\f]/.test(node.textContent ?? '')) return;
+      loose = { context: createContext(), nodes: [] };
+    }
+    loose.nodes.push(node);
+    addInline(node, loose.context, [], undefined);
+  });
+  flushLoose();
+}
+
+/**
+ * Read the blocks of a DOM tree, keeping where each came from
+ */
+export function parseDOM(root: Node): ParsedBlock[] {
+  const parsed: ParsedBlock[] = [];
+  parseBlocks(root, parsed);
+  return parsed;
+}
+
+/**
+ * Read blocks from HTML, parsed into a document that is never rendered
+ */
+export function parseHTML(html: string): NoteBlock[] {
+  const inert = document.implementation.createHTMLDocument('');
+  const container = inert.createElement('div');
+  container.innerHTML = html;
+  return normalizeBlocks(parseDOM(container).map(parsed => parsed.block));
+}
+
+/**
+ * Blocks of a plain text, one paragraph per line
+ */
+export function parseText(text: string): NoteBlock[] {
+  return normalizeBlocks(text.split(/\r?\n/).map(line => createBlock('paragraph', [{ text: line, marks: [] }])));
+}
+
+// ---------------------------------------------------------------------------
+// Mapping between the DOM and the model
+// ---------------------------------------------------------------------------
+
+function offsetInBlock(parsed: ParsedBlock, node: Node, offset: number): number {
+  const length = blockLength(parsed.block);
+  if (parsed.block.type === 'html') {
+    return 0;
+  }
+
+  const textSource = parsed.sources.find(source => source.node === node && source.offsets);
+  if (textSource?.offsets) {
+    let index = 0;
+    while (index < textSource.length && textSource.offsets[index] < offset) {
+      index++;
+    }
+    return Math.min(textSource.start + index, length);
+  }
+
+  // Otherwise, past every source before the point
+  const point = (node.ownerDocument ?? document).createRange();
+  point.setStart(node, offset);
+  let result = 0;
+  parsed.sources.forEach(source => {
+    if (point.comparePoint(source.node, 0) < 0) {
+      result = source.start + (source.offsets || source.node.nodeName === 'BR' ? source.length : 0);
+    }
+  });
+  return Math.min(result, length);
+}
+
+/**
+ * Model position of a DOM point
+ */
+export function positionFromDOM(parsed: ParsedBlock[], node: Node, offset: number): DocPosition {
+  // Innermost block holding the point: nested list items follow their parent
+  for (let index = parsed.length - 1; index >= 0; index--) {
+    if (parsed[index].nodes.some(blockNode => blockNode === node || blockNode.contains(node))) {
+      return { block: index, offset: offsetInBlock(parsed[index], node, offset) };
+    }
+  }
+
+  // Between blocks: the start of the next one
+  const point = (node.ownerDocument ?? document).createRange();
+  point.setStart(node, offset);
+  for (let index = 0; index < parsed.length; index++) {
+    if (point.comparePoint(parsed[index].nodes[0], 0) >= 0) {
+      return { block: index, offset: 0 };
+    }
+  }
+  const last = parsed.length - 1;
+  return last >= 0 ? { block: last, offset: blockLength(parsed[last].block) } : { block: 0, offset: 0 };
+}
+
+function nodeIndex(node: Node): number {
+  return Array.prototype.indexOf.call(node.parentNode?.childNodes ?? [], node);
+}
+
+/**
+ * DOM point of a model position
+ */
+export function positionToDOM(parsed: ParsedBlock[], root: Node, position: DocPosition): { node: Node; offset: number } {
+  const block = parsed[position.block];
+  if (!block) {
+    return { node: root, offset: position.block > 0 ? root.childNodes.length : 0 };
+  }
+
+  const first = block.nodes[0];
+  if (block.block.type === 'html' || block.sources.length === 0) {
+    if (block.block.type !== 'html' && first instanceof Element) {
+      return { node: first, offset: 0 };
+    }
+    const parent = first.parentNode ?? root;
+    return { node: parent, offset: nodeIndex(first) + (position.offset > 0 ? 1 : 0) };
+  }
+
+  for (const source of block.sources) {
+    if (source.offsets) {
+      if (position.offset <= source.start + source.length) {
+        const index = Math.min(Math.max(position.offset - source.start, 0), source.length);
+        return { node: source.node, offset: source.offsets[index] };
+      }
+    } else if (position.offset <= source.start) {
+      // Before a line break
+      return { node: source.node.parentNode ?? root, offset: nodeIndex(source.node) };
+    }
+  }
+
+  const last = block.sources[block.sources.length - 1];
+  if (last.offsets) {
+    return { node: last.node, offset: last.offsets[last.length] };
+  }
+  return { node: last.node.parentNode ?? root, offset: nodeIndex(last.node) + 1 };
+}
+
+// ---------------------------------------------------------------------------
+// Serialization
+// ---------------------------------------------------------------------------
+
+function runsToHTML(runs: TextRun[]): string {
+  return runs.map(run => {
+    let html = escapeHTML(run.text).replace(/\n/g, '<br>');
+    for (let index = run.marks.length - 1; index >= 0; index--) {
+      const tag = MARK_TAGS[run.marks[index]];
+      html = `<${tag}>${html}</${tag}>`;
+    }
+    // Links that could run script are written as their text
+    return run.link && isSafeURL(run.link) ? `<a href="${escapeHTML(run.link)}">${html}</a>` : html;
+  }).join('');
+}
+
+function blockContentHTML(block: NoteBlock, view: boolean): string {
+  const html = runsToHTML(block.runs);
+  // An empty line needs a break to be shown, and to hold the cursor
+  return view && (!html || html.endsWith('<br>')) ? html + '<br>' : html;
+}
+
+function attributesHTML(block: NoteBlock, view: boolean): string {
+  if (!view || !block.attrs) return '';
+  return Object.entries(block.attrs).map(([name, value]) => ` ${name}="${escapeHTML(value)}"`).join('');
+}
+
+function listTag(list: ListType | undefined): string {
+  return list === 'ordered' ? 'ol' : 'ul';
+}
+
+/**
+ * Write blocks as HTML
+ * Without the view option, empty blocks are left out and the output depends
+ * only on the text and its formatting.
+ */
+export function toHTML(blocks: NoteBlock[], options: HTMLOptions = {}): string {
+  const view = options.view ?? false;
+  let html = '';
+  // Lists open at each depth
+  const open: ListType[] = [];
+  const closeLists = (depth: number) => {
+    while (open.length > depth) {
+      html += `</li></${listTag(open.pop())}>`;
+    }
+  };
+
+  blocks.forEach(block => {
+    const isEmpty = block.type !== 'html' && block.runs.length === 0;
+    if (isEmpty && !view) return;
+
+    if (block.type !== 'list-item') {
+      closeLists(0);
+      if (block.type === 'html') {
+        html += block.html ?? '';
+      } else {
+        const tag = block.type === 'heading' ? `h${block.level ?? 2}` : 'p';
+        html += `<${tag}${attributesHTML(block, view)}>${blockContentHTML(block, view)}</${tag}>`;
+      }
+      return;
+    }
+
+    const depth = block.depth ?? 0;
+    const list = block.list ?? 'bullet';
+    closeLists(depth + 1);
+    if (open.length === depth + 1 && open[depth] !== list) {
+      closeLists(depth);
+    }
+    if (open.length === depth + 1) {
+      html += '</li>';
+    }
+    while (open.length <= depth) {
+      const start = open.length === depth && block.start !== undefined ? ` start="${block.start}"` : '';
+      html += `<${listTag(list)}${start}>`;
+      open.push(list);
+      if (open.length <= depth) {
+        // An item nested deeper than the one before it has an empty parent
+        html += '<li>';
+      }
+    }
+    html += `<li${attributesHTML(block, view)}>${blockContentHTML(block, view)}`;
+  });
+  closeLists(0);
+  return html;
+}
+
+function escapeMarkdown(text: string): string {
+  return text
+    .replace(/[\\`*_[\]<>~|]/g, '\\$&')
+    .replace(/&(?=#?\w+;)/g, '\\&');
+}
+
+function codeSpan(text: string): string {
+  const longest = Math.max(0, ...(text.match(/`+/g) ?? []).map(ticks => ticks.length));
+  const fence = '`'.repeat(longest + 1);
+  const padding = text.startsWith('`') || text.endsWith('`') ? ' ' : '';
+  return `${fence}${padding}${text.replace(/\n/g, ' ')}${padding}${fence}`;
+}
+
+// Marks written as delimiters around text; code and links are written whole
+const MARK_DELIMITERS: Partial<Record<InlineMark, [string, string]>> = {
+  bold: ['**', '**'],
+  italic: ['*', '*'],
+  underline: ['<u>', '</u>'],
+  strike: ['~~', '~~'],
+};
+
+function runsToMarkdown(runs: TextRun[]): string {
+  let markdown = '';
+  const open: InlineMark[] = [];
+
+  // Closing delimiters go before trailing white space, or they don't close
+  const closeMarks = (keep: number) => {
+    if (open.length <= keep) return;
+    const trailing = markdown.match(/\s*$/)?.[0] ?? '';
+    markdown = markdown.slice(0, markdown.length - trailing.length);
+    while (open.length > keep) {
+      const mark = open.pop();
+      markdown += mark ? MARK_DELIMITERS[mark]?.[1] ?? '' : '';
+    }
+    markdown += trailing;
+  };
+
+  runs.forEach(run => {
+    const leading = run.text.match(/^\s*/)?.[0] ?? '';
+    const rest = run.text.slice(leading.length);
+
+    if (run.link || run.marks.includes('code')) {
+      closeMarks(0);
+      let text = run.marks.includes('code') ? codeSpan(rest) : escapeMarkdown(rest);
+      MARK_ORDER.filter(mark => rest && run.marks.includes(mark)).reverse().forEach(mark => {
+        const delimiters = MARK_DELIMITERS[mark];
+        text = delimiters ? delimiters[0] + text + delimiters[1] : text;
+      });
+      const href = (run.link ?? '').replace(/[ ()]/g, character => encodeURIComponent(character));
+      markdown += leading + (run.link && rest && isSafeURL(run.link) ? `[${text}](${href})` : text);
+      return;
+    }
+
+    // White space alone takes no formatting
+    const marks = rest ? MARK_ORDER.filter(mark => run.marks.includes(mark) && MARK_DELIMITERS[mark]) : [];
+    let keep = 0;
+    while (keep < open.length && marks.includes(open[keep])) {
+      keep++;
+    }
+    closeMarks(keep);
+
+    const opening = marks.filter(mark => !open.includes(mark));
+    if (opening.length > 0) {
+      markdown += leading;
+      opening.forEach(mark => {
+        markdown += MARK_DELIMITERS[mark]?.[0] ?? '';
+        open.push(mark);
+      });
+      markdown += escapeMarkdown(rest);
+    } else {
+      markdown += escapeMarkdown(run.text);
+    }
+  });
+  closeMarks(0);
+  return markdown;
+}
+
+// Text at the start of a line that would otherwise read as a heading, list or rule
+function escapeLineStart(line: string): string {
+  return line
+    .replace(/^(\s*)([#+\-=])/, '$1\\$2')
+    .replace(/^(\s*\d+)([.)])(?=\s|$)/, '$1\\$2');
+}
+
+function inlineMarkdown(block: NoteBlock): string[] {
+  return runsToMarkdown(block.runs).split('\n').map(escapeLineStart);
+}
+
+/**
+ * Write blocks as Markdown, in the dialect the note is generated in (line
+ * breaks within a paragraph are kept)
+ */
+export function toMarkdown(blocks: NoteBlock[]): string {
+  let markdown = '';
+  let previous: NoteBlock | null = null;
+  // Lists open at each depth: their kind, next number and content indent
+  const lists: Array<{ list: ListType; number: number; indent: number }> = [];
+
+  blocks.forEach(block => {
+    if (block.type !== 'html' && block.runs.length === 0) return;
+
+    if (block.type !== 'list-item') {
+      lists.length = 0;
+      const text = block.type === 'html'
+        ? (block.html ?? '').replace(/\n\s*\n/g, '\n')
+        : block.type === 'heading'
+          ? `${'#'.repeat(block.level ?? 2)} ${inlineMarkdown(block).join(' ').trim()}`
+          : inlineMarkdown(block).join('\n');
+      markdown += (previous ? '\n\n' : '') + text;
+      previous = block;
+      return;
+    }
+
+    const depth = Math.min(block.depth ?? 0, lists.length);
+    const list = block.list ?? 'bullet';
+    lists.length = Math.min(lists.length, depth + 1);
+    const isNewList = !lists[depth] || lists[depth].list !== list;
+    const indent = depth > 0 ? lists[depth - 1].indent : 0;
+    if (isNewList) {
+      lists[depth] = { list, number: block.start ?? 1, indent: 0 };
+    }
+
+    const marker = list === 'ordered' ? `${lists[depth].number++}.` : '-';
+    lists[depth].indent = indent + marker.length + 1;
+    const padding = ' '.repeat(indent);
+    const continuation = ' '.repeat(lists[depth].indent);
+    const lines = inlineMarkdown(block);
+    const text = padding + marker + ' ' + lines.map((line, index) => (index > 0 ? continuation : '') + line).join('\n');
+
+    // A list of another kind at the same depth starts after a blank line
+    const isTight = previous?.type === 'list-item' && !(isNewList && depth === 0);
+    markdown += (previous ? (isTight ? '\n' : '\n\n') : '') + text;
+    previous = block;
+  });
+  return markdown;
+}
+
+/**
+ * Marker of each list item as written out ("-", or its number), and null
+ * for other blocks
+ */
+export function getListMarkers(blocks: NoteBlock[]): Array<string | null> {
+  // Lists open at each depth, with their next number
+  const lists: Array<{ list: ListType; number: number }> = [];
+
+  return blocks.map(block => {
+    if (block.type !== 'list-item') {
+      lists.length = 0;
+      return null;
+    }
+
+    const depth = block.depth ?? 0;
+    const list = block.list ?? 'bullet';
+    lists.length = Math.min(lists.length, depth + 1);
+    if (!lists[depth] || lists[depth].list !== list) {
+      lists[depth] = { list, number: block.start ?? 1 };
+    }
+    return list === 'ordered' ? `${lists[depth].number++}.` : '-';
+  });
+}
+
+/**
+ * Lines of text in a block kept as HTML, with table cells separated by tabs
+ */
+export function getHTMLBlockLines(block: NoteBlock): string[] {
+  const inert = document.implementation.createHTMLDocument('');
+  const container = inert.createElement('div');
+  container.innerHTML = (block.html ?? '')
+    .replace(/>\s+</g, '><')
+    .replace(/<\/(td|th)>/gi, '\t$&')
+    .replace(/<\/(tr|p|li)>|<br\s*\/?>/gi, '\n$&');
+  return (container.textContent ?? '').split('\n').map(line => line.trim()).filter(Boolean);
+}
+
+/**
+ * Write blocks as plain text: list items marked and indented, and a blank
+ * line before each heading
+ */
+export function toText(blocks: NoteBlock[]): string {
+  const lines: string[] = [];
+  const markers = getListMarkers(blocks);
+
+  blocks.forEach((block, index) => {
+    if (block.type === 'html') {
+      lines.push(...getHTMLBlockLines(block));
+      return;
+    }
+
+    const text = blockText(block);
+    const marker = markers[index];
+    if (marker === null) {
+      if (block.type === 'heading' && lines.length > 0) {
+        lines.push('');
+      }
+      lines.push(text);
+      return;
+    }
+
+    const indent = '  '.repeat(block.depth ?? 0);
+    lines.push(...text.split('\n').map((line, i) => indent + (i === 0 ? `${marker} ` : ' '.repeat(marker.length + 1)) + line));
+  });
+  return lines.join('\n');
+}
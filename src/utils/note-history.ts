@@ -0,0 +1,99 @@
+/**
+ * Version history of a session's note, and merging hand edits into a
+ * regenerated note
+ */
+
+import { NoteVersion, NoteVersionSource } from '../types';
+import { getNoteLines, splitNoteSections } from './note-sections';
+
+// Oldest versions are dropped beyond this
+export const MAX_NOTE_VERSIONS = 30;
+
+export function createNoteVersion(html: string, source: NoteVersionSource, markdown?: string): NoteVersion {
+  return {
+    id: `version-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+    createdAt: new Date().toISOString(),
+    source,
+    html,
+    markdown,
+  };
+}
+
+/**
+ * Whether two notes have the same text, ignoring markup differences the
+ * editor introduces
+ */
+export function isSameNote(a: string, b: string): boolean {
+  return a === b || getNoteLines(a).join('\n') === getNoteLines(b).join('\n');
+}
+
+/**
+ * Append a version unless it matches the latest one
+ */
+export function addNoteVersion(versions: NoteVersion[], version: NoteVersion): NoteVersion[] {
+  const latest = versions[versions.length - 1];
+  if (!version.html.trim() || (latest && isSameNote(latest.html, version.html))) {
+    return versions;
+  }
+  return [...versions, version].slice(-MAX_NOTE_VERSIONS);
+}
+
+function sectionKey(heading: string): string {
+  return heading.replace(/:\s*$/, '').trim().toLowerCase();
+}
+
+/**
+ * Keep hand-edited sections when a note is regenerated
+ * Sections are matched by heading. A section edited since the base version
+ * is kept as edited, one the user added is kept in place and one the user
+ * deleted stays deleted; every other section comes from the new note.
+ * @param base - Note the edits were made to
+ * @param edited - Note as edited by hand
+ * @param generated - Newly generated note
+ * @returns Merged HTML and the headings of the sections kept from the edits
+ */
+export function mergeNoteEdits(base: string, edited: string, generated: string): { html: string; kept: string[] } {
+  const baseSections = new Map(splitNoteSections(base).map(section => [sectionKey(section.heading), section.html]));
+  const editedSections = splitNoteSections(edited);
+  const editedByKey = new Map(editedSections.map(section => [sectionKey(section.heading), section.html]));
+  const generatedSections = splitNoteSections(generated);
+  const generatedKeys = new Set(generatedSections.map(section => sectionKey(section.heading)));
+
+  const isEdited = (key: string, html: string) => {
+    const original = baseSections.get(key);
+    return original === undefined || !isSameNote(original, html);
+  };
+
+  const kept: string[] = [];
+  const merged: Array<{ key: string; html: string }> = [];
+
+  generatedSections.forEach(section => {
+    const key = sectionKey(section.heading);
+    const editedHTML = editedByKey.get(key);
+    if (editedHTML === undefined) {
+      // Deleted by hand, unless the section is new in this generation
+      if (!baseSections.has(key)) {
+        merged.push({ key, html: section.html });
+      }
+    } else if (isEdited(key, editedHTML)) {
+      merged.push({ key, html: editedHTML });
+      kept.push(section.heading);
+    } else {
+      merged.push({ key, html: section.html });
+    }
+  });
+
+  // Sections the user wrote themselves go after the section they followed
+  editedSections.forEach((section, index) => {
+    const key = sectionKey(section.heading);
+    if (generatedKeys.has(key) || baseSections.has(key)) return;
+
+    const previous = editedSections.slice(0, index).reverse()
+      .map(s => merged.findIndex(m => m.key === sectionKey(s.heading)))
+      .find(position => position >= 0);
+    merged.splice(previous === undefined ? 0 : previous + 1, 0, { key, html: section.html });
+    kept.push(section.heading);
+  });
+
+  return { html: merged.map(section => section.html).join('\n'), kept };
+}
@@ -0,0 +1,84 @@
+/**
+ * Structure of a rendered note: its heading sections and the text of its
+ * blocks
+ */
+
+const HEADING_TAGS = ['H1', 'H2', 'H3', 'H4', 'H5', 'H6'];
+
+/**
+ * A heading and everything after it up to the next heading
+ */
+export interface NoteHTMLSection {
+  // Heading text, or '' for content before the first heading
+  heading: string;
+  html: string;
+  // The section without its heading
+  body: string;
+}
+
+/**
+ * Text of a block without its nested lists or paragraphs
+ */
+export function getBlockText(element: Element): string {
+  let text = '';
+  element.childNodes.forEach(node => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      text += node.textContent ?? '';
+    } else if (node instanceof Element && !['UL', 'OL', 'P', 'LI'].includes(node.tagName)) {
+      text += node.tagName === 'BR' ? '\n' : getBlockText(node);
+    }
+  });
+  return text.trim();
+}
+
+/**
+ * One line of text per heading, paragraph and list item, in order
+ */
+export function getNoteLines(html: string): string[] {
+  const container = document.createElement('div');
+  container.innerHTML = html;
+
+  const lines: string[] = [];
+  container.querySelectorAll('h1, h2, h3, h4, h5, h6, p, li').forEach(element => {
+    const text = getBlockText(element);
+    if (!text) return;
+    if (HEADING_TAGS.includes(element.tagName)) {
+      lines.push(`${'#'.repeat(Number(element.tagName[1]))} ${text}`);
+    } else {
+      lines.push(element.tagName === 'LI' ? `- ${text}` : text);
+    }
+  });
+  return lines;
+}
+
+function toHTML(node: Node): string {
+  const wrapper = document.createElement('div');
+  wrapper.appendChild(node.cloneNode(true));
+  return wrapper.innerHTML;
+}
+
+/**
+ * Split a note at its top-level headings
+ */
+export function splitNoteSections(html: string): NoteHTMLSection[] {
+  const container = document.createElement('div');
+  container.innerHTML = html;
+
+  const sections: NoteHTMLSection[] = [];
+  let current: NoteHTMLSection = { heading: '', html: '', body: '' };
+  container.childNodes.forEach(node => {
+    if (node instanceof Element && HEADING_TAGS.includes(node.tagName)) {
+      if (current.heading || current.html.trim()) {
+        sections.push(current);
+      }
+      current = { heading: node.textContent?.trim() ?? '', html: toHTML(node), body: '' };
+      return;
+    }
+    current.html += toHTML(node);
+    current.body += toHTML(node);
+  });
+  if (current.heading || current.html.trim()) {
+    sections.push(current);
+  }
+  return sections;
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { CLAIM_ATTRIBUTE, checkClaim, clearClaimMarks, createVerificationSource, markClaims, splitTranscript } from './note-verification';
+
+const TRANSCRIPT = [
+  'Veterinarian: So Bella has been vomiting since yesterday morning?',
+  'Owner: Yes, three times, and she is not eating her breakfast.',
+  'Veterinarian: Her temperature is 39.4 and she is about five percent dehydrated.',
+].join('\n');
+
+const TEMPLATE = [
+  '## Subjective',
+  '- Presenting complaint: {{complaint}}',
+  '## Objective',
+  '- Heart rate: {{heart rate}}',
+  '- Mucous membranes: {{mucous membranes}}',
+].join('\n');
+
+const source = createVerificationSource(TRANSCRIPT, TEMPLATE, [
+  { abbreviation: 'T', expansion: 'temperature', transcription: false, generation: true },
+]);
+
+describe('createVerificationSource', () => {
+  it('indexes transcript sentences and template lines without their fields', () => {
+    expect(source.spans.map(span => span.text)).toEqual(splitTranscript(TRANSCRIPT).map(span => span.text));
+    expect(source.transcriptTokens.has('vomit')).toBe(true);
+    expect(source.templateLines.map(line => line.text)).toContain('- Heart rate:');
+  });
+});
+
+describe('splitTranscript', () => {
+  it('keeps decimal numbers within their sentence', () => {
+    const spans = splitTranscript('Temp 39.4 today. Eating well.');
+    expect(spans.map(span => span.text)).toEqual(['Temp 39.4 today.', 'Eating well.']);
+    expect(spans[1].start).toBe(17);
+  });
+});
+
+describe('checkClaim', () => {
+  it('supports a line said in the transcript, with the sentence as evidence', () => {
+    const check = checkClaim('Vomiting since yesterday morning', source);
+    expect(check.support).toBe('supported');
+    expect(check.evidence[0].text).toContain('vomiting since yesterday morning');
+    expect(check.unmatched).toEqual([]);
+  });
+
+  it('matches abbreviations the generator was told to use', () => {
+    expect(checkClaim('T 39.4', source).support).toBe('supported');
+  });
+
+  it('only partly supports a line with a number that was never said', () => {
+    const check = checkClaim('Temperature 40.1', source);
+    expect(check.support).toBe('partial');
+    expect(check.unmatched).toEqual(['40.1']);
+  });
+
+  it('flags a line with nothing in common with the transcript', () => {
+    const check = checkClaim('Radiographs show a foreign body', source);
+    expect(check.support).toBe('unsupported');
+    expect(check.evidence).toEqual([]);
+  });
+
+  it('marks a line that only repeats the template as boilerplate', () => {
+    const check = checkClaim('Heart rate:', source);
+    expect(check.support).toBe('boilerplate');
+    expect(check.templateLine).toBe('- Heart rate:');
+  });
+
+  it('checks the content after a template label against the transcript', () => {
+    expect(checkClaim('Presenting complaint: vomiting', source).support).toBe('supported');
+    expect(checkClaim('Mucous membranes: pale', source).support).toBe('unsupported');
+  });
+});
+
+describe('markClaims', () => {
+  it('marks each checked line with its result and index, and clears them again', () => {
+    const root = document.createElement('div');
+    root.innerHTML = '<h2>Plan</h2><p>Vomiting since yesterday</p><ul><li>Radiographs show a foreign body</li><li>-</li></ul>';
+
+    const checks = markClaims(root, source);
+    expect(checks.map(check => check.support)).toEqual(['supported', 'unsupported']);
+    expect(root.querySelector('p')?.className).toBe('claim-supported');
+    expect(root.querySelector(`li[${CLAIM_ATTRIBUTE}="1"]`)?.className).toBe('claim-unsupported');
+
+    clearClaimMarks(root);
+    expect(root.innerHTML).toBe('<h2>Plan</h2><p>Vomiting since yesterday</p><ul><li>Radiographs show a foreign body</li><li>-</li></ul>');
+  });
+});
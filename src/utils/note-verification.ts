@@ -0,0 +1,218 @@
+/**
+ * Checks a generated note against the transcript it came from
+ * Each bullet or paragraph of the note is matched by shared words and
+ * numbers to transcript sentences; lines whose wording comes from the
+ * template instead are marked as boilerplate. Matching is lexical, so it
+ * flags lines to review rather than proving them wrong.
+ */
+
+import { Abbreviation, ClaimCheck, ClaimSupport, TranscriptSpan } from '../types';
+import { getBlockText } from './note-sections';
+
+export const CLAIM_ATTRIBUTE = 'data-claim';
+
+const CLAIM_CLASSES: Record<ClaimSupport, string> = {
+  supported: 'claim-supported',
+  partial: 'claim-partial',
+  unsupported: 'claim-unsupported',
+  boilerplate: 'claim-boilerplate',
+};
+
+// Share of a line's words that must be found in the transcript
+const SUPPORTED_COVERAGE = 0.6;
+const PARTIAL_COVERAGE = 0.3;
+const MAX_EVIDENCE = 3;
+
+const STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'was', 'were', 'are', 'has', 'have', 'had', 'not', 'but', 'this', 'that',
+  'these', 'those', 'from', 'into', 'onto', 'per', 'any', 'all', 'also', 'been', 'being', 'its', 'his', 'her',
+  'they', 'them', 'their', 'she', 'him', 'you', 'your', 'our', 'will', 'would', 'should', 'could', 'can',
+  'may', 'might', 'did', 'does', 'doing', 'done', 'then', 'than', 'there', 'here', 'when', 'which', 'who',
+  'what', 'how', 'out', 'off', 'over', 'under', 'about', 'after', 'before', 'very', 'some', 'other', 'each',
+  'both', 'more', 'most', 'such', 'only', 'same', 'just', 'yes', 'today', 'noted', 'reported', 'patient', 'owner',
+]);
+
+const TOKEN_PATTERN = /[a-z]+|\d+(?:\.\d+)?/g;
+
+function stem(word: string): string {
+  for (const suffix of ['ing', 'ed', 'es', 's']) {
+    if (word.endsWith(suffix) && word.length - suffix.length >= 3) {
+      return word.slice(0, -suffix.length);
+    }
+  }
+  return word;
+}
+
+function isNumber(token: string): boolean {
+  return /^\d/.test(token);
+}
+
+/**
+ * Content words (stemmed) and numbers of a text
+ */
+export function tokenize(text: string): string[] {
+  return (text.toLowerCase().match(TOKEN_PATTERN) ?? [])
+    .filter(token => isNumber(token) || (token.length >= 3 && !STOPWORDS.has(token)))
+    .map(token => (isNumber(token) ? token : stem(token)));
+}
+
+/**
+ * Transcript sentences and lines with their offsets
+ */
+export function splitTranscript(transcript: string): TranscriptSpan[] {
+  const spans: TranscriptSpan[] = [];
+  // Sentence ends are punctuation followed by a space, so "101.5" stays whole
+  for (const match of transcript.matchAll(/(?:[^.!?\n]|[.!?](?=[^\s.!?]))+[.!?]*/g)) {
+    const text = match[0].trim();
+    if (text) {
+      const start = (match.index ?? 0) + match[0].indexOf(text);
+      spans.push({ start, end: start + text.length, text });
+    }
+  }
+  return spans;
+}
+
+// Fill-in fields and bracketed patient fields aren't content
+function stripTemplateFields(text: string): string {
+  return text.replace(/\{\{[^{}]*\}\}/g, ' ').replace(/\[\w+\]/g, ' ');
+}
+
+// Spell out abbreviations the generator was told to use, so they can match the spoken words
+function expandAbbreviations(text: string, abbreviations: Abbreviation[]): string {
+  const expansions = abbreviations
+    .filter(a => a.generation && new RegExp(`(^|[^\\w])${a.abbreviation.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}($|[^\\w])`).test(text))
+    .map(a => a.expansion);
+  return expansions.length > 0 ? `${text} ${expansions.join(' ')}` : text;
+}
+
+interface IndexedText {
+  text: string;
+  tokens: Set<string>;
+}
+
+function index<T extends { text: string }>(items: T[]): Array<T & { tokens: Set<string> }> {
+  return items.map(item => ({ ...item, tokens: new Set(tokenize(item.text)) }));
+}
+
+function overlap(tokens: string[], candidate: Set<string>): string[] {
+  return tokens.filter(token => candidate.has(token));
+}
+
+/**
+ * Transcript context for checking many lines of one note
+ */
+export interface VerificationSource {
+  spans: Array<TranscriptSpan & { tokens: Set<string> }>;
+  transcriptTokens: Set<string>;
+  templateLines: IndexedText[];
+  abbreviations: Abbreviation[];
+}
+
+export function createVerificationSource(transcript: string,
+                                         template: string,
+                                         abbreviations: Abbreviation[] = []): VerificationSource {
+  const spans = index(splitTranscript(transcript));
+  return {
+    spans,
+    transcriptTokens: new Set(spans.flatMap(span => [...span.tokens])),
+    templateLines: index(
+      template.split('\n')
+        .map(line => stripTemplateFields(line).trim())
+        .filter(line => line.length > 0)
+        .map(text => ({ text }))
+    ),
+    abbreviations,
+  };
+}
+
+/**
+ * Check one line of the note
+ */
+export function checkClaim(text: string, source: VerificationSource): ClaimCheck {
+  const tokens = [...new Set(tokenize(expandAbbreviations(text, source.abbreviations)))];
+
+  // Words shared with the closest template line are its labels, e.g. "Heart rate:"
+  let templateLine: IndexedText | undefined;
+  let templateWords: string[] = [];
+  for (const line of source.templateLines) {
+    const shared = overlap(tokens, line.tokens);
+    if (shared.length > templateWords.length) {
+      templateLine = line;
+      templateWords = shared;
+    }
+  }
+  const contentTokens = tokens.filter(token => !templateWords.includes(token));
+
+  // Greedily pick the transcript spans that cover the most remaining words
+  const evidence: TranscriptSpan[] = [];
+  const covered = new Set<string>();
+  const wanted = contentTokens.length > 0 ? contentTokens : tokens;
+  while (evidence.length < MAX_EVIDENCE) {
+    let best: (TranscriptSpan & { tokens: Set<string> }) | undefined;
+    let bestGain = 0;
+    for (const span of source.spans) {
+      const gain = overlap(wanted, span.tokens).filter(token => !covered.has(token)).length;
+      if (gain > bestGain) {
+        best = span;
+        bestGain = gain;
+      }
+    }
+    if (!best) break;
+    overlap(wanted, best.tokens).forEach(token => covered.add(token));
+    evidence.push({ start: best.start, end: best.end, text: best.text });
+  }
+
+  const unmatched = wanted.filter(token => !source.transcriptTokens.has(token));
+  const coverage = wanted.length > 0 ? (wanted.length - unmatched.length) / wanted.length : 1;
+
+  let support: ClaimSupport;
+  if (contentTokens.length === 0 && templateWords.length > 0 && coverage < SUPPORTED_COVERAGE) {
+    support = 'boilerplate';
+  } else if (coverage >= SUPPORTED_COVERAGE) {
+    // A number that was never said is never fully supported
+    support = unmatched.some(isNumber) ? 'partial' : 'supported';
+  } else if (coverage >= PARTIAL_COVERAGE) {
+    support = 'partial';
+  } else {
+    support = 'unsupported';
+  }
+
+  return {
+    text,
+    support,
+    evidence,
+    templateLine: support === 'boilerplate' ? templateLine?.text : undefined,
+    unmatched,
+  };
+}
+
+/**
+ * Check every bullet and paragraph in the editor, marking each with its
+ * result
+ * @returns Checks in document order; element i carries data-claim="i"
+ */
+export function markClaims(root: HTMLElement, source: VerificationSource): ClaimCheck[] {
+  clearClaimMarks(root);
+
+  const checks: ClaimCheck[] = [];
+  root.querySelectorAll('p, li').forEach(element => {
+    const text = getBlockText(element);
+    if (tokenize(text).length === 0) return;
+
+    const check = checkClaim(text, source);
+    element.setAttribute(CLAIM_ATTRIBUTE, String(checks.length));
+    element.classList.add(CLAIM_CLASSES[check.support]);
+    checks.push(check);
+  });
+  return checks;
+}
+
+export function clearClaimMarks(root: HTMLElement): void {
+  root.querySelectorAll(`[${CLAIM_ATTRIBUTE}]`).forEach(element => {
+    element.removeAttribute(CLAIM_ATTRIBUTE);
+    element.classList.remove(...Object.values(CLAIM_CLASSES), 'claim-selected');
+    if (element.classList.length === 0) {
+      element.removeAttribute('class');
+    }
+  });
+}
@@ -0,0 +1,93 @@
+/**
+ * Patient and client details
+ * Details are given to the generator as structured context, and substituted
+ * into bracketed template fields such as [PatientName] or [ClientFirstName]
+ * before the template is sent
+ */
+
+import { PatientInfo } from '../types';
+
+export const SPECIES = ['Canine', 'Feline', 'Rabbit', 'Equine', 'Avian', 'Reptile', 'Other'];
+
+export const SEXES = ['Male intact', 'Male neutered', 'Female intact', 'Female spayed', 'Unknown'];
+
+export function createPatient(): PatientInfo {
+  return {
+    name: '',
+    species: '',
+    breed: '',
+    sex: '',
+    age: '',
+    weightUnit: 'kg',
+    clientName: '',
+  };
+}
+
+/**
+ * Whether any detail has been entered
+ */
+export function hasPatientDetails(patient: PatientInfo | undefined): patient is PatientInfo {
+  if (!patient) return false;
+  return patient.weight !== undefined
+    || [patient.name, patient.species, patient.breed, patient.sex, patient.age, patient.clientName]
+      .some(value => value.trim().length > 0);
+}
+
+export function formatWeight(patient: PatientInfo): string {
+  return patient.weight !== undefined ? `${patient.weight} ${patient.weightUnit}` : '';
+}
+
+function splitClientName(clientName: string): { first: string; last: string } {
+  const parts = clientName.trim().split(/\s+/).filter(Boolean);
+  return {
+    first: parts[0] ?? '',
+    last: parts.length > 1 ? parts[parts.length - 1] : '',
+  };
+}
+
+/**
+ * Values for bracketed template fields, keyed by field name
+ */
+function getPatientFields(patient: PatientInfo): Record<string, string> {
+  const client = splitClientName(patient.clientName);
+  return {
+    PatientName: patient.name.trim(),
+    Species: patient.species.trim(),
+    Breed: patient.breed.trim(),
+    Sex: patient.sex.trim(),
+    Age: patient.age.trim(),
+    Weight: formatWeight(patient),
+    ClientName: patient.clientName.trim(),
+    ClientFirstName: client.first,
+    ClientLastName: client.last,
+  };
+}
+
+/**
+ * Replace bracketed fields like [ClientFirstName] with the patient's details;
+ * unknown fields and fields without a value are left as written
+ */
+export function fillPatientFields(template: string, patient: PatientInfo | undefined): string {
+  if (!patient) return template;
+
+  const fields = getPatientFields(patient);
+  return template.replace(/\[(\w+)\]/g, (token, name: string) => fields[name] || token);
+}
+
+/**
+ * Entered details as a JSON object for the generator, omitting blanks
+ */
+export function describePatientForPrompt(patient: PatientInfo): string {
+  const details = Object.fromEntries(
+    Object.entries({
+      patientName: patient.name.trim(),
+      species: patient.species.trim(),
+      breed: patient.breed.trim(),
+      sex: patient.sex.trim(),
+      age: patient.age.trim(),
+      weight: formatWeight(patient),
+      clientName: patient.clientName.trim(),
+    }).filter(([, value]) => value.length > 0)
+  );
+  return JSON.stringify(details, null, 2);
+}
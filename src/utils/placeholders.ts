@@ -0,0 +1,160 @@
+/**
+ * Template fill-in fields
+ * Fields are written in templates as {{Label}}, {{Label:number}},
+ * {{Label:date}} or {{Label:choice(A|B|C)}}; a "?" after the label marks a
+ * field as optional, e.g. {{Notes?}}. The generator replaces fields it can
+ * fill and leaves the rest as written, to be filled in by hand in the editor.
+ */
+
+import { PlaceholderType, TemplatePlaceholder } from '../types';
+
+const PLACEHOLDER_PATTERN = /\{\{\s*([^{}:?]+?)\s*(\?)?\s*(?::\s*(text|number|date|choice)\s*(?:\(([^(){}]*)\))?\s*)?\}\}/g;
+
+export const PLACEHOLDER_FIELD_CLASS = 'template-field';
+
+// Written in place of fields that are still empty when the note is copied
+const BLANK = '___';
+
+function matchAll(text: string): RegExpMatchArray[] {
+  return [...text.matchAll(new RegExp(PLACEHOLDER_PATTERN.source, 'g'))];
+}
+
+function toPlaceholder(match: RegExpMatchArray): TemplatePlaceholder {
+  return {
+    token: match[0],
+    label: match[1].trim(),
+    type: (match[3] ?? 'text') as PlaceholderType,
+    options: match[4] ? match[4].split('|').map(option => option.trim()).filter(Boolean) : [],
+    required: !match[2],
+  };
+}
+
+export function parsePlaceholder(token: string): TemplatePlaceholder | null {
+  const [match] = matchAll(token);
+  return match && match[0] === token ? toPlaceholder(match) : null;
+}
+
+/**
+ * Every field in a text, in order of appearance
+ */
+export function findPlaceholders(text: string): TemplatePlaceholder[] {
+  return matchAll(text).map(toPlaceholder);
+}
+
+/**
+ * Required fields still unfilled in a text, one per label
+ */
+export function findUnfilledRequired(text: string): TemplatePlaceholder[] {
+  const seen = new Set<string>();
+  return findPlaceholders(text).filter(placeholder => {
+    if (!placeholder.required || seen.has(placeholder.label)) return false;
+    seen.add(placeholder.label);
+    return true;
+  });
+}
+
+/**
+ * Format a hand-entered value for insertion into the note
+ */
+export function formatPlaceholderValue(placeholder: TemplatePlaceholder, value: string): string {
+  if (placeholder.type === 'date' && /^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const [year, month, day] = value.split('-').map(Number);
+    return new Date(year, month - 1, day).toLocaleDateString();
+  }
+  return value.trim();
+}
+
+/**
+ * Wrap fields in highlighted spans, in the editor after it renders the note
+ */
+export function highlightPlaceholderFields(root: HTMLElement): void {
+  if (!root.textContent?.includes('{{')) {
+    return;
+  }
+
+  const walker = document.createTreeWalker(root, NodeFilter.SHOW_TEXT);
+  const textNodes: Text[] = [];
+  while (walker.nextNode()) {
+    textNodes.push(walker.currentNode as Text);
+  }
+
+  textNodes.forEach(node => {
+    const text = node.textContent ?? '';
+    const matches = matchAll(text);
+    if (matches.length === 0) return;
+
+    const fragment = document.createDocumentFragment();
+    let lastIndex = 0;
+    matches.forEach(match => {
+      const placeholder = toPlaceholder(match);
+      fragment.append(text.slice(lastIndex, match.index));
+
+      const span = document.createElement('span');
+      span.className = PLACEHOLDER_FIELD_CLASS + (placeholder.required ? ' required' : '');
+      span.title = `${placeholder.label} (${placeholder.type}${placeholder.required ? ', required' : ''}). Click to fill in.`;
+      span.textContent = placeholder.token;
+      fragment.append(span);
+
+      lastIndex = (match.index ?? 0) + match[0].length;
+    });
+    fragment.append(text.slice(lastIndex));
+    node.replaceWith(fragment);
+  });
+}
+
+/**
+ * Remove the highlight from fields that have been typed over
+ */
+export function refreshPlaceholderFields(root: HTMLElement): void {
+  root.querySelectorAll(`.${PLACEHOLDER_FIELD_CLASS}`).forEach(span => {
+    if (!parsePlaceholder(span.textContent ?? '')) {
+      span.replaceWith(...Array.from(span.childNodes));
+    }
+  });
+}
+
+/**
+ * Replace fields that are still unfilled with a blank line and drop the
+ * highlighting, for copying out of the editor
+ */
+export function clearPlaceholdersFromHTML(html: string): string {
+  return clearPlaceholdersFromText(removePlaceholderHighlights(html));
+}
+
+/**
+ * Drop the highlighting but keep the fields as written, e.g. for saving
+ */
+export function removePlaceholderHighlights(html: string): string {
+  if (!html.includes(PLACEHOLDER_FIELD_CLASS)) {
+    return html;
+  }
+
+  const container = document.createElement('div');
+  container.innerHTML = html;
+  container.querySelectorAll(`.${PLACEHOLDER_FIELD_CLASS}`).forEach(span => {
+    span.replaceWith(...Array.from(span.childNodes));
+  });
+  container.normalize();
+  return container.innerHTML;
+}
+
+export function clearPlaceholdersFromText(text: string): string {
+  return text.replace(new RegExp(PLACEHOLDER_PATTERN.source, 'g'), BLANK);
+}
+
+/**
+ * Instruction telling the generator how to fill a template's fields
+ */
+export function describePlaceholdersForPrompt(placeholders: TemplatePlaceholder[]): string {
+  const choices = placeholders
+    .filter(placeholder => placeholder.type === 'choice' && placeholder.options.length > 0)
+    .map(placeholder => `"${placeholder.label}": ${placeholder.options.join(', ')}`);
+
+  let instruction = `The template contains fill-in fields written in double braces, such as {{Weight:number}}.
+    Replace a field with its value only when the transcription states it: number fields with a number, date fields with a date, choice fields with exactly one of the listed options, other fields with short text.
+    If the transcription does not give the value, leave the field exactly as written, braces included. Never guess a value.`;
+  if (choices.length > 0) {
+    instruction += `\nAllowed choices: ${choices.join('; ')}`;
+  }
+  return instruction;
+}
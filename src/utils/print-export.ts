@@ -0,0 +1,349 @@
+/**
+ * Printable and PDF export of a note or discharge instructions
+ * The print document is a standalone HTML page with its own styles, so it
+ * can be printed or downloaded as a file. PDFs are laid out in the browser
+ * with jsPDF, from the same headings, paragraphs and list items.
+ */
+
+import type { jsPDF } from 'jspdf';
+import { ClinicLetterhead, PatientInfo } from '../types';
+import { formatWeight } from './patient';
+import { escapeHTML } from './html-sanitizer';
+import { getBlockText } from './note-sections';
+
+export interface PrintDocumentOptions {
+  title: string;
+  // Body HTML, e.g. the editor content
+  html: string;
+  patient?: PatientInfo;
+  letterhead?: ClinicLetterhead;
+  date?: Date;
+}
+
+const PRINT_STYLES = `
+  @page { margin: 18mm; }
+  body { font-family: Arial, Helvetica, sans-serif; font-size: 11pt; line-height: 1.5; color: #222; margin: 0; }
+  h1 { font-size: 16pt; margin: 0 0 8pt; }
+  h2 { font-size: 13pt; margin: 14pt 0 4pt; }
+  h3, h4, h5, h6 { font-size: 11pt; margin: 10pt 0 4pt; }
+  p { margin: 0 0 6pt; }
+  ul, ol { margin: 0 0 6pt; padding-left: 18pt; }
+  .print-letterhead { display: flex; justify-content: space-between; align-items: flex-start; gap: 12pt;
+    padding-bottom: 8pt; margin-bottom: 12pt; border-bottom: 2px solid #444; }
+  .print-letterhead img { max-height: 60pt; max-width: 160pt; }
+  .print-clinic { text-align: right; font-size: 9pt; white-space: pre-line; }
+  .print-clinic strong { display: block; font-size: 13pt; }
+  .print-patient { display: flex; flex-wrap: wrap; gap: 4pt 18pt; padding: 6pt 0; margin-bottom: 12pt;
+    border-top: 1px solid #999; border-bottom: 1px solid #999; font-size: 10pt; }
+  .print-patient strong { margin-right: 4pt; }
+  h2, h3 { break-after: avoid; }
+  li, p { break-inside: avoid; }
+`;
+
+// PDF page layout, in millimetres and points
+const PDF_MARGIN = 18;
+const PDF_LOGO_HEIGHT = 18;
+const PDF_LOGO_MAX_WIDTH = 50;
+const PDF_LINE_HEIGHT = 1.4;
+const PDF_LIST_INDENT = 6;
+const PT_TO_MM = 25.4 / 72;
+
+const HEADING_SIZES: Record<string, number> = { H1: 15, H2: 13, H3: 12, H4: 11, H5: 11, H6: 11 };
+
+// The built-in PDF fonts only cover Latin-1, so common symbols outside it are spelled out
+const PDF_REPLACEMENTS: Array<[RegExp, string]> = [
+  [/[\u2018\u2019]/g, "'"],
+  [/[\u201C\u201D]/g, '"'],
+  [/[\u2013\u2014\u2212]/g, '-'],
+  [/\u2026/g, '...'],
+  [/\u2264/g, '<='],
+  [/\u2265/g, '>='],
+  [/\u2192/g, '->'],
+  [/[\u2022\u25CF]/g, '-'],
+  [/[^\n\u0020-\u00FF]/g, '?'],
+];
+
+function toPDFText(text: string): string {
+  return PDF_REPLACEMENTS.reduce((result, [pattern, replacement]) => result.replace(pattern, replacement), text);
+}
+
+function describePatientFields(patient: PatientInfo | undefined, date: Date): Array<[string, string]> {
+  if (!patient) {
+    return [['Date', date.toLocaleDateString()]];
+  }
+
+  const signalment = [patient.species, patient.breed, patient.sex, patient.age]
+    .map(value => value.trim())
+    .filter(Boolean)
+    .join(', ');
+  const fields: Array<[string, string]> = [
+    ['Patient', patient.name.trim()],
+    ['Signalment', signalment],
+    ['Weight', formatWeight(patient)],
+    ['Client', patient.clientName.trim()],
+    ['Date', date.toLocaleDateString()],
+  ];
+  return fields.filter(([, value]) => value.length > 0);
+}
+
+function hasLetterhead(letterhead: ClinicLetterhead | undefined): letterhead is ClinicLetterhead {
+  return !!letterhead && (!!letterhead.logo || [letterhead.name, letterhead.address, letterhead.phone]
+    .some(value => value.trim().length > 0));
+}
+
+function getClinicLines(letterhead: ClinicLetterhead): string[] {
+  return [...letterhead.address.split('\n'), letterhead.phone]
+    .map(line => line.trim())
+    .filter(Boolean);
+}
+
+function buildLetterheadHTML(letterhead: ClinicLetterhead): string {
+  const logo = letterhead.logo ? `<img src="${escapeHTML(letterhead.logo)}" alt="">` : '<span></span>';
+  const name = letterhead.name.trim() ? `<strong>${escapeHTML(letterhead.name.trim())}</strong>` : '';
+  const lines = getClinicLines(letterhead).map(escapeHTML).join('\n');
+  return `<header class="print-letterhead">${logo}<div class="print-clinic">${name}${lines}</div></header>`;
+}
+
+/**
+ * Standalone HTML page for printing
+ */
+export function buildPrintDocument({ title, html, patient, letterhead, date = new Date() }: PrintDocumentOptions): string {
+  const header = describePatientFields(patient, date)
+    .map(([label, value]) => `<span><strong>${label}:</strong>${escapeHTML(value)}</span>`)
+    .join('');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${escapeHTML(title)}</title>
+<style>${PRINT_STYLES}</style>
+</head>
+<body>
+${hasLetterhead(letterhead) ? buildLetterheadHTML(letterhead) : ''}
+<h1>${escapeHTML(title)}</h1>
+<div class="print-patient">${header}</div>
+<main>${html}</main>
+</body>
+</html>`;
+}
+
+/**
+ * Open the print dialog for a document without leaving the app
+ * The page is loaded into a hidden frame, which is removed after printing
+ */
+export function printDocument(documentHTML: string): void {
+  const frame = document.createElement('iframe');
+  frame.style.position = 'fixed';
+  frame.style.width = '0';
+  frame.style.height = '0';
+  frame.style.border = '0';
+  frame.setAttribute('aria-hidden', 'true');
+
+  frame.onload = () => {
+    const printWindow = frame.contentWindow;
+    if (!printWindow) return;
+    printWindow.addEventListener('afterprint', () => frame.remove());
+    printWindow.focus();
+    printWindow.print();
+  };
+  frame.srcdoc = documentHTML;
+  document.body.appendChild(frame);
+}
+
+/**
+ * A block of text in the PDF
+ */
+interface PDFBlock {
+  text: string;
+  // Heading tag, for headings
+  heading?: string;
+  listItem?: boolean;
+  // Number of an ordered list item; others get a bullet
+  marker?: string;
+  indent: number;
+}
+
+function collectListItems(list: Element, indent: number, blocks: PDFBlock[]): void {
+  let number = Number(list.getAttribute('start') ?? 1);
+  for (const item of Array.from(list.children)) {
+    if (item.tagName !== 'LI') continue;
+
+    // Items of loose lists keep their text in paragraphs
+    const text = getBlockText(item) || Array.from(item.children)
+      .filter(child => child.tagName === 'P')
+      .map(getBlockText)
+      .join('\n');
+    blocks.push({ text, marker: list.tagName === 'OL' ? `${number++}.` : undefined, indent, listItem: true });
+
+    Array.from(item.children)
+      .filter(child => child.tagName === 'UL' || child.tagName === 'OL')
+      .forEach(child => collectListItems(child, indent + 1, blocks));
+  }
+}
+
+function collectBlocks(root: Element): PDFBlock[] {
+  const blocks: PDFBlock[] = [];
+  root.childNodes.forEach(node => {
+    if (node.nodeType === Node.TEXT_NODE) {
+      const text = node.textContent?.trim();
+      if (text) blocks.push({ text, indent: 0 });
+    } else if (node instanceof Element) {
+      if (HEADING_SIZES[node.tagName]) {
+        blocks.push({ text: getBlockText(node), heading: node.tagName, indent: 0 });
+      } else if (node.tagName === 'UL' || node.tagName === 'OL') {
+        collectListItems(node, 0, blocks);
+      } else if (node.tagName === 'DIV' || node.tagName === 'MAIN') {
+        blocks.push(...collectBlocks(node));
+      } else {
+        blocks.push({ text: getBlockText(node), indent: 0 });
+      }
+    }
+  });
+  return blocks.filter(block => block.text.length > 0);
+}
+
+/**
+ * Draws text top-down, starting a new page when the current one is full
+ */
+class PDFWriter {
+  readonly pageWidth: number;
+  readonly contentWidth: number;
+  private readonly pageHeight: number;
+  y = PDF_MARGIN;
+
+  constructor(readonly doc: jsPDF) {
+    this.pageWidth = doc.internal.pageSize.getWidth();
+    this.pageHeight = doc.internal.pageSize.getHeight();
+    this.contentWidth = this.pageWidth - 2 * PDF_MARGIN;
+  }
+
+  lineHeight(fontSize: number): number {
+    return fontSize * PT_TO_MM * PDF_LINE_HEIGHT;
+  }
+
+  // Leave room for the page footer
+  ensureSpace(height: number): void {
+    if (this.y + height > this.pageHeight - PDF_MARGIN - 6) {
+      this.doc.addPage();
+      this.y = PDF_MARGIN;
+    }
+  }
+
+  write(text: string, { size = 10, bold = false, x = PDF_MARGIN, width = this.contentWidth, keepWith = 0 } = {}): void {
+    this.doc.setFont('helvetica', bold ? 'bold' : 'normal');
+    this.doc.setFontSize(size);
+    const lines: string[] = this.doc.splitTextToSize(toPDFText(text), width);
+    const lineHeight = this.lineHeight(size);
+
+    lines.forEach((line, index) => {
+      // Keep a heading on the same page as the start of what follows it
+      this.ensureSpace(lineHeight + (index === 0 ? keepWith : 0));
+      this.doc.text(line, x, this.y, { baseline: 'top' });
+      this.y += lineHeight;
+    });
+  }
+
+  rule(width = 0.3): void {
+    this.doc.setLineWidth(width);
+    this.doc.line(PDF_MARGIN, this.y, this.pageWidth - PDF_MARGIN, this.y);
+  }
+
+  footer(text: string): void {
+    const pages = this.doc.getNumberOfPages();
+    for (let page = 1; page <= pages; page++) {
+      this.doc.setPage(page);
+      this.doc.setFont('helvetica', 'normal');
+      this.doc.setFontSize(8);
+      this.doc.text(toPDFText(text), PDF_MARGIN, this.pageHeight - PDF_MARGIN + 4);
+      this.doc.text(`Page ${page} of ${pages}`, this.pageWidth - PDF_MARGIN, this.pageHeight - PDF_MARGIN + 4, { align: 'right' });
+    }
+  }
+}
+
+function drawLetterhead(writer: PDFWriter, letterhead: ClinicLetterhead): void {
+  const { doc } = writer;
+  const top = writer.y;
+  let logoBottom = top;
+
+  if (letterhead.logo) {
+    try {
+      const { width, height } = doc.getImageProperties(letterhead.logo);
+      const scale = Math.min(PDF_LOGO_HEIGHT / height, PDF_LOGO_MAX_WIDTH / width);
+      doc.addImage(letterhead.logo, PDF_MARGIN, top, width * scale, height * scale);
+      logoBottom = top + height * scale;
+    } catch (error) {
+      console.error('Failed to add logo to PDF:', error);
+    }
+  }
+
+  const right = writer.pageWidth - PDF_MARGIN;
+  let textY = top;
+  if (letterhead.name.trim()) {
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(13);
+    doc.text(toPDFText(letterhead.name.trim()), right, textY, { align: 'right', baseline: 'top' });
+    textY += writer.lineHeight(13);
+  }
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  getClinicLines(letterhead).forEach(line => {
+    doc.text(toPDFText(line), right, textY, { align: 'right', baseline: 'top' });
+    textY += writer.lineHeight(9);
+  });
+
+  writer.y = Math.max(logoBottom, textY) + 3;
+  writer.rule(0.6);
+  writer.y += 5;
+}
+
+/**
+ * Lay out a document as a PDF: letterhead, title, patient header and body
+ * Inline formatting such as bold text is not kept, only the block structure.
+ */
+export async function createPDF({ title, html, patient, letterhead, date = new Date() }: PrintDocumentOptions): Promise<Blob> {
+  // Loaded on first use to keep it out of the main bundle
+  const { jsPDF } = await import('jspdf');
+  const writer = new PDFWriter(new jsPDF({ unit: 'mm', format: 'a4' }));
+
+  if (hasLetterhead(letterhead)) {
+    drawLetterhead(writer, letterhead);
+  }
+
+  writer.write(title, { size: 16, bold: true });
+  writer.y += 2;
+  writer.rule();
+  writer.y += 2;
+  writer.write(describePatientFields(patient, date).map(([label, value]) => `${label}: ${value}`).join('     '), { size: 9.5 });
+  writer.y += 1;
+  writer.rule();
+  writer.y += 4;
+
+  const container = document.createElement('div');
+  container.innerHTML = html;
+  collectBlocks(container).forEach(block => {
+    if (block.heading) {
+      const size = HEADING_SIZES[block.heading];
+      writer.y += 2;
+      writer.write(block.text, { size, bold: true, keepWith: writer.lineHeight(10) });
+      writer.y += 1;
+    } else if (block.listItem) {
+      const x = PDF_MARGIN + block.indent * PDF_LIST_INDENT;
+      writer.ensureSpace(writer.lineHeight(10));
+      if (block.marker) {
+        writer.doc.setFont('helvetica', 'normal');
+        writer.doc.setFontSize(10);
+        writer.doc.text(block.marker, x, writer.y, { baseline: 'top' });
+      } else {
+        writer.doc.circle(x + 1.2, writer.y + writer.lineHeight(10) / 2 - 0.3, 0.6, 'F');
+      }
+      writer.write(block.text, { x: x + PDF_LIST_INDENT, width: writer.contentWidth - (x - PDF_MARGIN) - PDF_LIST_INDENT });
+    } else {
+      writer.write(block.text);
+      writer.y += 1.5;
+    }
+  });
+
+  writer.footer(`${title}${patient?.name.trim() ? ` — ${patient.name.trim()}` : ''} — ${date.toLocaleDateString()}`);
+  return writer.doc.output('blob');
+}
@@ -0,0 +1,28 @@
+import { describe, expect, it } from 'vitest';
+import { buildTranscriptionVocabulary } from './prompt-builder';
+import { Abbreviation } from '../types';
+
+const abbreviation = (short: string, expansion: string, transcription = true): Abbreviation =>
+  ({ abbreviation: short, expansion, transcription, generation: true });
+
+describe('buildTranscriptionVocabulary', () => {
+  it('lists the terms marked for transcription', () => {
+    expect(buildTranscriptionVocabulary([
+      abbreviation('BID', 'twice daily'),
+      abbreviation('NSAID', 'non-steroidal anti-inflammatory drug'),
+      abbreviation('PO', 'by mouth', false),
+    ])).toBe('Veterinary consultation. Terms used: BID (twice daily), NSAID (non-steroidal anti-inflammatory drug).');
+  });
+
+  it('is empty without terms for transcription', () => {
+    expect(buildTranscriptionVocabulary([abbreviation('PO', 'by mouth', false)])).toBe('');
+  });
+
+  it('stays short enough for the model to read all of it', () => {
+    const many = Array.from({ length: 200 }, (_, i) => abbreviation(`T${i}`, `term number ${i}`));
+    const hint = buildTranscriptionVocabulary(many);
+    expect(hint.length).toBeLessThanOrEqual(600);
+    expect(hint.endsWith('.')).toBe(true);
+    expect(hint).toContain('T0 (term number 0)');
+  });
+});
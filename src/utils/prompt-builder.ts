@@ -0,0 +1,147 @@
+/**
+ * Prompt construction shared by all LLM providers
+ */
+
+import { Abbreviation, NoteEditCommand, NoteEditRequest, NoteRequest, TemplateSection } from '../types';
+import { formatAbbreviationsForPrompt } from './abbreviations';
+import { describePlaceholdersForPrompt, findPlaceholders } from './placeholders';
+import { describePatientForPrompt, fillPatientFields, hasPatientDetails } from './patient';
+
+/**
+ * System instruction for audio transcription
+ * @param abbreviations - Dictionary; entries marked for transcription are given as context
+ */
+export function buildTranscriptionPrompt(abbreviations: Abbreviation[] = []): string {
+  const transcriptionAbbreviations = formatAbbreviationsForPrompt(abbreviations, 'transcription');
+  let prompt = `Transcribe this veterinary consultation audio into text.
+    Include all spoken content accurately, preserving medical terminology.
+    Format as plain text without adding any commentary or notes.
+    Spoken punctuation or formatting guidelines (such as "enter" or "period") should be interpreted before output, not returned verbatim.`;
+  if (transcriptionAbbreviations) {
+    prompt += `\nCommon abbreviations include ${transcriptionAbbreviations}`;
+  }
+  return prompt;
+}
+
+// Whisper-style models read only about the last 224 tokens of their prompt
+const VOCABULARY_HINT_MAX_LENGTH = 600;
+
+/**
+ * Vocabulary hint for speech-to-text models that take a prompt
+ * These models read the prompt as transcript that came before the audio, to
+ * match its spelling and style, not as instructions; so it is a short run of
+ * the terms they should recognise, cut to the length they read.
+ * @param abbreviations - Dictionary; entries marked for transcription are included
+ * @returns Hint text, or '' when no abbreviations are marked for transcription
+ */
+export function buildTranscriptionVocabulary(abbreviations: Abbreviation[] = []): string {
+  const terms = abbreviations
+    .filter(a => a.transcription)
+    .map(a => `${a.abbreviation} (${a.expansion})`);
+  if (terms.length === 0) {
+    return '';
+  }
+
+  let hint = 'Veterinary consultation. Terms used:';
+  for (const term of terms) {
+    if (hint.length + term.length + 2 > VOCABULARY_HINT_MAX_LENGTH) break;
+    hint += ` ${term},`;
+  }
+  return hint.replace(/,$/, '.');
+}
+
+/**
+ * System instruction for transcription that labels who is speaking
+ * @param abbreviations - Dictionary; entries marked for transcription are given as context
+ */
+export function buildDiarizationPrompt(abbreviations: Abbreviation[] = []): string {
+  const transcriptionAbbreviations = formatAbbreviationsForPrompt(abbreviations, 'transcription');
+  let prompt = `Transcribe this veterinary consultation audio, identifying who is speaking.
+    Return a JSON array of speaker turns in the order they were spoken, each with "speaker", "start" and "end" (seconds from the start of the audio) and "text".
+    Label speakers by role where it is clear, e.g. "Veterinarian", "Owner" or "Technician"; otherwise use "Speaker 1", "Speaker 2" and so on, consistently.
+    Include all spoken content accurately, preserving medical terminology.
+    Spoken punctuation or formatting guidelines (such as "enter" or "period") should be interpreted before output, not returned verbatim.`;
+  if (transcriptionAbbreviations) {
+    prompt += `\nCommon abbreviations include ${transcriptionAbbreviations}`;
+  }
+  return prompt;
+}
+
+/**
+ * User message parts for note generation, in the order they are sent
+ * @param request - Transcript, template, abbreviations and patient details for the note
+ */
+export function buildNoteUserParts(request: NoteRequest): string[] {
+  const generationAbbreviations = formatAbbreviationsForPrompt(request.abbreviations ?? [], 'generation');
+  let intro = "The user's transcription follows.";
+  if (generationAbbreviations) {
+    intro += `\nCommon phrases that should be abbreviated into their short form include ${generationAbbreviations}`;
+  }
+  if (request.speakers && request.speakers.length > 0) {
+    intro += `\nEach line of the transcription is prefixed with its speaker: ${request.speakers.join(', ')}.`
+      + ' Use the speakers to separate history and concerns reported by the owner (Subjective) from findings observed by the veterinary team (Objective).';
+  }
+
+  const parts = [intro, request.transcript];
+
+  if (hasPatientDetails(request.patient)) {
+    parts.push(
+      'Patient and client details entered by the clinic follow as JSON. Use them for the patient\'s name, signalment, weight and the client\'s name, unless the transcription clearly corrects them.',
+      describePatientForPrompt(request.patient),
+    );
+  }
+
+  // Add template if provided
+  if (request.templateContent && request.templateContent.trim().length > 0) {
+    const templateContent = fillPatientFields(request.templateContent, request.patient);
+    parts.push(
+      "Use the below template to structure the output, but only use content from the user's transcription",
+      templateContent,
+    );
+
+    const placeholders = findPlaceholders(templateContent);
+    if (placeholders.length > 0) {
+      parts.push(describePlaceholdersForPrompt(placeholders));
+    }
+  }
+
+  return parts;
+}
+
+/**
+ * Extra instruction for structured (JSON) note output
+ * @param sections - Template sections the note must fill
+ */
+export function buildStructuredNoteInstruction(sections: TemplateSection[]): string {
+  return `Return the note as a JSON object with exactly these properties, one per template section: ${sections.map(s => JSON.stringify(s.title)).join(', ')}.
+    Each value is that section's content in Markdown, without the heading.
+    Use an empty string for a section the transcription gives no content for; do not invent content or add other sections.`;
+}
+
+const EDIT_INSTRUCTIONS: Record<NoteEditCommand, string> = {
+  regenerate: `Write this part of the note again from the transcription above, following the template where it applies.
+    Only use content from the transcription.`,
+  shorten: `Shorten this part of the note. Keep every clinical finding, value, medication and dose; drop repetition and filler.`,
+  'client-friendly': `Rewrite this part of the note in plain language for the pet's owner.
+    Explain medical terms, spell out abbreviations and keep a warm, clear tone. Do not add facts that are not in the text.`,
+  bullets: `Convert this part of the note into a Markdown bullet list with one finding or instruction per bullet, keeping the wording.`,
+};
+
+/**
+ * User message parts for rewriting part of a note
+ * @param request - Text to rewrite and the command; regenerating also sends the transcript and template
+ */
+export function buildNoteEditParts(request: NoteEditRequest): string[] {
+  const parts = request.command === 'regenerate' ? buildNoteUserParts(request) : [];
+  const target = request.sectionTitle
+    ? `The part to rewrite is the body of the "${request.sectionTitle}" section of the note:`
+    : 'The part of the note to rewrite follows:';
+
+  parts.push(
+    EDIT_INSTRUCTIONS[request.command],
+    target,
+    request.text,
+    `Return only the replacement Markdown for this part${request.sectionTitle ? ', without the section heading' : ''}, with no commentary or code fences.`,
+  );
+  return parts;
+}
@@ -0,0 +1,143 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { RichTextEditor } from './rich-text-editor';
+
+let element: HTMLElement;
+let editor: RichTextEditor;
+
+// Change the text of the editor's first paragraph as typing would
+function type(text: string) {
+  const paragraph = element.querySelector('p');
+  if (!paragraph?.firstChild) throw new Error('No paragraph to type into');
+  paragraph.firstChild.textContent += text;
+  element.dispatchEvent(new Event('input', { bubbles: true }));
+}
+
+function selectText(node: Node, start: number, end: number) {
+  const range = document.createRange();
+  range.setStart(node, start);
+  range.setEnd(node, end);
+  window.getSelection()?.removeAllRanges();
+  window.getSelection()?.addRange(range);
+}
+
+beforeEach(() => {
+  vi.useFakeTimers();
+  element = document.createElement('div');
+  element.contentEditable = 'true';
+  document.body.append(element, document.createElement('div'));
+  editor = new RichTextEditor(element, element.nextElementSibling as HTMLElement);
+});
+
+afterEach(() => {
+  editor.destroy();
+  document.body.innerHTML = '';
+  vi.useRealTimers();
+});
+
+describe('RichTextEditor history', () => {
+  it('does not record content set into an empty editor', () => {
+    editor.setHTML('<p>Note</p>');
+    editor.undo();
+    expect(editor.getHTML()).toBe('<p>Note</p>');
+  });
+
+  it('undoes and redoes content set from outside', () => {
+    editor.setHTML('<p>First</p>');
+    vi.advanceTimersByTime(2000);
+    editor.setHTML('<p>Second</p>');
+    editor.undo();
+    expect(editor.getHTML()).toBe('<p>First</p>');
+    editor.redo();
+    expect(editor.getHTML()).toBe('<p>Second</p>');
+  });
+
+  it('groups content set in quick succession, such as a streamed note, into one step', () => {
+    editor.setHTML('<p>Old note</p>');
+    vi.advanceTimersByTime(2000);
+    editor.setHTML('<p>New</p>');
+    vi.advanceTimersByTime(200);
+    editor.setHTML('<p>New note</p>');
+    editor.undo();
+    expect(editor.getHTML()).toBe('<p>Old note</p>');
+  });
+
+  it('groups typing within a second into one step', () => {
+    editor.setHTML('<p>Eating</p>');
+    type(' less');
+    vi.advanceTimersByTime(500);
+    type(' today');
+    editor.undo();
+    expect(editor.getHTML()).toBe('<p>Eating</p>');
+  });
+
+  it('starts a new step after a pause in typing', () => {
+    editor.setHTML('<p>Eating</p>');
+    type(' less');
+    vi.advanceTimersByTime(1500);
+    type(' today');
+    editor.undo();
+    expect(editor.getHTML()).toBe('<p>Eating less</p>');
+    editor.undo();
+    expect(editor.getHTML()).toBe('<p>Eating</p>');
+  });
+
+  it('keeps an inserted calculation as its own step', () => {
+    editor.setHTML('<p>Dose</p>');
+    type(':');
+    editor.insertTextAtCursor(' 12 mg');
+    expect(editor.getHTML()).toBe('<p>Dose: 12 mg</p>');
+    editor.undo();
+    expect(editor.getHTML()).toBe('<p>Dose:</p>');
+  });
+
+  it('clears the redo history on a new change', () => {
+    editor.setHTML('<p>One</p>');
+    type(' two');
+    editor.undo();
+    type(' three');
+    editor.redo();
+    expect(editor.getHTML()).toBe('<p>One three</p>');
+  });
+});
+
+describe('RichTextEditor edit ranges', () => {
+  it('replaces the selection read for an edit', () => {
+    editor.setHTML('<p>Recheck in 2 days</p>');
+    selectText(element.querySelector('p')!.firstChild!, 11, 17);
+    const target = editor.getEditRange();
+    expect(target?.html).toBe('<p>2 days</p>');
+
+    expect(editor.replaceRange(target!, '<p>a week</p>')).toBe(true);
+    expect(editor.getHTML()).toBe('<p>Recheck in a week</p>');
+  });
+
+  it('reads the section under a collapsed cursor', () => {
+    editor.setHTML('<h2>Plan</h2><p>Rest</p><p>Fluids</p><h2>Recheck</h2><p>2 days</p>');
+    selectText(element.querySelectorAll('p')[1].firstChild!, 2, 2);
+    const target = editor.getEditRange();
+    expect(target?.html).toBe('<p>Rest</p><p>Fluids</p>');
+    expect(target?.sectionTitle).toBe('Plan');
+  });
+
+  it('does not apply an edit once the note has been replaced', () => {
+    editor.setHTML('<p>Recheck in 2 days</p>');
+    selectText(element.querySelector('p')!.firstChild!, 11, 17);
+    const target = editor.getEditRange()!;
+
+    editor.setHTML('<p>Restored version</p>');
+    expect(editor.replaceRange(target, '<p>a week</p>')).toBe(false);
+    expect(editor.getHTML()).toBe('<p>Restored version</p>');
+  });
+
+  it('ignores inserted content while read-only', () => {
+    editor.setHTML('<p>Dose</p>');
+    editor.setReadOnly(true);
+    editor.insertTextAtCursor(' 12 mg');
+    expect(editor.getHTML()).toBe('<p>Dose</p>');
+    expect(element.contentEditable).toBe('false');
+
+    editor.setReadOnly(false);
+    editor.insertTextAtCursor(' 12 mg');
+    expect(editor.getHTML()).toBe('<p>Dose 12 mg</p>');
+  });
+});
@@ -1,15 +1,102 @@
 /**
- * Rich text editor utilities for SOAP note editing
- * Provides formatting controls using contenteditable and execCommand
+ * Rich text editor for SOAP note editing
+ * The note is held as a document model (see note-document.ts). Typing is
+ * left to the browser and read back into the model; formatting, pasted and
+ * inserted content are applied to the model and rendered. Each change is a
+ * step in the editor's own undo history, and the HTML, Markdown and text
+ * read out are written from the model rather than taken from the DOM.
  */
 
+import { DocPosition, DocRange, InlineMark, NoteBlock } from '../types';
+import { sanitizeHTML } from './html-sanitizer';
+import {
+  ParsedBlock,
+  clampPosition,
+  clearMarks,
+  comparePositions,
+  createBlock,
+  documentEnd,
+  findSectionBody,
+  getMarksAt,
+  getRangeMarks,
+  indentListItems,
+  isCollapsed,
+  normalizeBlocks,
+  orderRange,
+  parseDOM,
+  parseHTML,
+  parseText,
+  positionFromDOM,
+  positionToDOM,
+  replaceRange,
+  setBlockType,
+  setMark,
+  sliceBlocks,
+  toHTML,
+  toMarkdown,
+  toText,
+  toggleList,
+} from './note-document';
+
+/**
+ * Part of the note an edit command applies to: the selection, or with no
+ * selection the body of the section holding the cursor
+ */
+export interface EditorRange {
+  range: DocRange;
+  html: string;
+  // Heading text when the range is a whole section body
+  sectionTitle?: string;
+  // The whole note when the range was read, to tell if it has changed since
+  documentHTML: string;
+}
+
+export interface EditorOptions {
+  // Runs on the editor after each render, e.g. to highlight fields; what it adds is not part of the note
+  decorate?: (root: HTMLElement) => void;
+}
+
+interface HistoryEntry {
+  blocks: NoteBlock[];
+  selection: DocRange | null;
+}
+
+const HISTORY_LIMIT = 100;
+
+// Typing, or content set in quick succession, is undone as one step
+const GROUP_INTERVAL_MS = 1000;
+
+function collapsedAt(position: DocPosition): DocRange {
+  return { from: position, to: position };
+}
+
 export class RichTextEditor {
   private editor: HTMLElement;
   private toolbar: HTMLElement;
-
-  constructor(editorElement: HTMLElement, toolbarElement: HTMLElement) {
+  private options: EditorOptions;
+  private blocks: NoteBlock[] = [createBlock()];
+  // Blocks as last read from or rendered into the editor, with their DOM nodes
+  private parsed: ParsedBlock[] = [];
+  // Last selection in the editor, kept while focus is elsewhere
+  private savedSelection: DocRange | null = null;
+  // Selection before the typing now in progress, restored by undoing it
+  private typingSelection: DocRange | null = null;
+  private undoStack: HistoryEntry[] = [];
+  private redoStack: HistoryEntry[] = [];
+  // Last change that later ones of the same kind are grouped with
+  private lastChange: { kind: 'typing' | 'set'; time: number } | null = null;
+  // Marks toggled with nothing selected, for the text typed next
+  private pendingMarks: { marks: InlineMark[]; position: DocPosition } | null = null;
+  // Set while the editor reports its own changes, which it needn't read back
+  private isNotifying = false;
+  // Set while an edit command is waiting on the note as it is
+  private readOnly = false;
+  private listeners = new AbortController();
+
+  constructor(editorElement: HTMLElement, toolbarElement: HTMLElement, options: EditorOptions = {}) {
     this.editor = editorElement;
     this.toolbar = toolbarElement;
+    this.options = options;
 
     this.init();
   }
@@ -19,26 +106,41 @@ export class RichTextEditor {
    */
   private init(): void {
     if (!this.editor || !this.toolbar) return;
+    const { signal } = this.listeners;
+
+    this.blocks = normalizeBlocks(parseDOM(this.editor).map(parsed => parsed.block));
+    this.render();
 
     // Attach toolbar button handlers
     this.attachToolbarHandlers();
 
     // Update toolbar button states on selection change
-    document.addEventListener('selectionchange', () => {
-      if (this.isEditorFocused()) {
-        this.updateToolbarState();
-      }
-    });
+    document.addEventListener('selectionchange', this.handleSelectionChange, { signal });
 
     // Keyboard shortcuts
-    this.editor.addEventListener('keydown', (e) => {
-      this.handleKeyboardShortcuts(e);
-    });
+    this.editor.addEventListener('keydown', (e) => this.handleKeyboardShortcuts(e), { signal });
+
+    this.editor.addEventListener('beforeinput', (e) => this.handleBeforeInput(e), { signal });
+    this.editor.addEventListener('input', () => {
+      if (!this.isNotifying) {
+        this.sync();
+      }
+    }, { signal });
 
     // Prevent default drop behavior to avoid unwanted formatting
-    this.editor.addEventListener('drop', (e) => {
-      e.preventDefault();
-    });
+    this.editor.addEventListener('drop', (e) => e.preventDefault(), { signal });
+
+    // Pasted HTML is cleaned before it reaches the document
+    this.editor.addEventListener('paste', (e) => this.handlePaste(e), { signal });
+
+    this.updateToolbarState();
+  }
+
+  /**
+   * Remove the editor's listeners, including the one on the document
+   */
+  destroy(): void {
+    this.listeners.abort();
   }
 
   /**
@@ -48,10 +150,25 @@ export class RichTextEditor {
     return this.editor.contains(document.activeElement);
   }
 
+  private handleSelectionChange = (): void => {
+    if (!this.isEditorFocused()) return;
+
+    this.sync();
+    const selection = this.readSelection();
+    if (selection) {
+      this.savedSelection = selection;
+      if (this.pendingMarks && (!isCollapsed(selection) || comparePositions(selection.from, this.pendingMarks.position) !== 0)) {
+        this.pendingMarks = null;
+      }
+    }
+    this.updateToolbarState();
+  };
+
   /**
    * Attach toolbar button handlers
    */
   private attachToolbarHandlers(): void {
+    const { signal } = this.listeners;
     const buttons = this.toolbar.querySelectorAll('.toolbar-btn[data-command]');
 
     buttons.forEach(button => {
@@ -64,16 +181,16 @@ export class RichTextEditor {
           this.executeCommand(command, value);
           this.editor.focus();
         }
-      });
+      }, { signal });
     });
 
     // Clean formatting button
-    const cleanBtn = document.getElementById('clean-formatting-btn');
+    const cleanBtn = this.toolbar.querySelector('#clean-formatting-btn');
     if (cleanBtn) {
       cleanBtn.addEventListener('click', (e) => {
         e.preventDefault();
-        this.cleanFormatting();
-      });
+        this.executeCommand('removeFormat');
+      }, { signal });
     }
   }
 
@@ -81,11 +198,48 @@ export class RichTextEditor {
    * Execute formatting command
    */
   private executeCommand(command: string, value: string | null = null): void {
-    try {
-      document.execCommand(command, false, value || undefined);
-      this.updateToolbarState();
-    } catch (error) {
-      console.error('Command execution failed:', command, error);
+    if (this.readOnly) return;
+
+    switch (command) {
+      case 'bold':
+      case 'italic':
+      case 'underline':
+        this.toggleMark(command);
+        break;
+      case 'strikeThrough':
+        this.toggleMark('strike');
+        break;
+      case 'insertUnorderedList':
+        this.changeSelection(range => toggleList(this.blocks, range, 'bullet'));
+        break;
+      case 'insertOrderedList':
+        this.changeSelection(range => toggleList(this.blocks, range, 'ordered'));
+        break;
+      case 'formatBlock': {
+        const tag = (value ?? 'p').replace(/[<>]/g, '').toLowerCase();
+        const heading = /^h([1-6])$/.exec(tag);
+        this.changeSelection(range =>
+          heading ? setBlockType(this.blocks, range, 'heading', Number(heading[1])) : setBlockType(this.blocks, range, 'paragraph')
+        );
+        break;
+      }
+      case 'indent':
+        this.changeSelection(range => indentListItems(this.blocks, range, 1));
+        break;
+      case 'outdent':
+        this.changeSelection(range => indentListItems(this.blocks, range, -1));
+        break;
+      case 'removeFormat':
+        this.changeSelection(range => clearMarks(this.blocks, range));
+        break;
+      case 'undo':
+        this.undo();
+        break;
+      case 'redo':
+        this.redo();
+        break;
+      default:
+        console.error('Command execution failed:', command);
     }
   }
 
@@ -93,117 +247,431 @@ export class RichTextEditor {
    * Update toolbar button active states
    */
   private updateToolbarState(): void {
-    const buttons = this.toolbar.querySelectorAll('.toolbar-btn[data-command]');
+    const range = this.readSelection() ?? this.savedSelection;
+    const buttons = this.toolbar.querySelectorAll<HTMLButtonElement>('.toolbar-btn[data-command]');
 
     buttons.forEach(button => {
       const command = button.getAttribute('data-command');
-
-      if (command) {
-        try {
-          const isActive = document.queryCommandState(command);
-          button.classList.toggle('active', isActive);
-        } catch (error) {
-          // Some commands don't support queryCommandState
-          button.classList.remove('active');
-        }
+      if (command === 'undo' || command === 'redo') {
+        button.disabled = (command === 'undo' ? this.undoStack : this.redoStack).length === 0;
+        return;
       }
+      button.classList.toggle('active', !!command && !!range && this.isCommandActive(command, button.getAttribute('data-value'), range));
     });
   }
 
+  private isCommandActive(command: string, value: string | null, range: DocRange): boolean {
+    const block = this.blocks[range.from.block];
+    if (!block) return false;
+
+    switch (command) {
+      case 'bold':
+      case 'italic':
+      case 'underline': {
+        const marks = isCollapsed(range)
+          ? this.pendingMarks?.marks ?? getMarksAt(this.blocks, range.from)
+          : getRangeMarks(this.blocks, range);
+        return marks.includes(command);
+      }
+      case 'insertUnorderedList':
+        return block.type === 'list-item' && block.list === 'bullet';
+      case 'insertOrderedList':
+        return block.type === 'list-item' && block.list === 'ordered';
+      case 'formatBlock': {
+        const tag = (value ?? '').replace(/[<>]/g, '').toLowerCase();
+        return tag === 'p' ? block.type === 'paragraph' : block.type === 'heading' && tag === `h${block.level}`;
+      }
+      default:
+        return false;
+    }
+  }
+
   /**
    * Handle keyboard shortcuts
    */
   private handleKeyboardShortcuts(e: KeyboardEvent): void {
-    // Ctrl/Cmd + B for bold
-    if ((e.ctrlKey || e.metaKey) && e.key === 'b') {
+    const isModified = e.ctrlKey || e.metaKey;
+    const key = e.key.toLowerCase();
+
+    // Ctrl/Cmd + B, I or U for bold, italic or underline
+    if (isModified && !e.shiftKey && (key === 'b' || key === 'i' || key === 'u')) {
       e.preventDefault();
-      this.executeCommand('bold');
+      this.toggleMark(key === 'b' ? 'bold' : key === 'i' ? 'italic' : 'underline');
     }
 
-    // Ctrl/Cmd + I for italic
-    if ((e.ctrlKey || e.metaKey) && e.key === 'i') {
+    // Ctrl/Cmd + Z for undo
+    if (isModified && key === 'z' && !e.shiftKey) {
       e.preventDefault();
-      this.executeCommand('italic');
+      this.undo();
     }
 
-    // Ctrl/Cmd + U for underline
-    if ((e.ctrlKey || e.metaKey) && e.key === 'u') {
+    // Ctrl/Cmd + Y or Ctrl/Cmd + Shift + Z for redo
+    if (isModified && (key === 'y' || (key === 'z' && e.shiftKey))) {
       e.preventDefault();
-      this.executeCommand('underline');
+      this.redo();
     }
 
-    // Ctrl/Cmd + Z for undo
-    if ((e.ctrlKey || e.metaKey) && e.key === 'z' && !e.shiftKey) {
+    // Tab and Shift + Tab nest list items
+    if (e.key === 'Tab' && !isModified && !e.altKey) {
+      this.sync();
+      const range = this.readSelection();
+      if (range && this.blocks.slice(orderRange(range).from.block, orderRange(range).to.block + 1).some(block => block.type === 'list-item')) {
+        e.preventDefault();
+        this.executeCommand(e.shiftKey ? 'outdent' : 'indent');
+      }
+    }
+  }
+
+  /**
+   * Keep the browser's own undo and formatting out of the document, and
+   * note where typing starts
+   */
+  private handleBeforeInput(e: InputEvent): void {
+    const commands: Record<string, string> = {
+      historyUndo: 'undo',
+      historyRedo: 'redo',
+      formatBold: 'bold',
+      formatItalic: 'italic',
+      formatUnderline: 'underline',
+      formatStrikeThrough: 'strikeThrough',
+    };
+    const command = commands[e.inputType];
+    if (command) {
       e.preventDefault();
-      this.executeCommand('undo');
+      this.executeCommand(command);
+      return;
     }
 
-    // Ctrl/Cmd + Y or Ctrl/Cmd + Shift + Z for redo
-    if ((e.ctrlKey || e.metaKey) && (e.key === 'y' || (e.key === 'z' && e.shiftKey))) {
+    const range = this.readSelection();
+    if (e.inputType === 'insertText' && e.data && this.pendingMarks && range) {
       e.preventDefault();
-      this.executeCommand('redo');
+      const run = { text: e.data, marks: this.pendingMarks.marks };
+      this.pendingMarks = null;
+      this.insertBlocks([createBlock('paragraph', [run])], range);
+      return;
     }
+
+    if (!this.typingSelection) {
+      this.typingSelection = range;
+    }
+  }
+
+  /**
+   * Insert clipboard content as sanitized HTML, or as plain text
+   */
+  private handlePaste(e: ClipboardEvent): void {
+    const data = e.clipboardData;
+    if (!data) return;
+
+    e.preventDefault();
+    const html = data.getData('text/html');
+    this.insertBlocks(html ? parseHTML(sanitizeHTML(html)) : parseText(data.getData('text/plain')));
   }
 
   /**
-   * Clean formatting from selected text
+   * Read typing back from the editor into the model
    */
-  private cleanFormatting(): void {
+  private sync(): void {
+    this.parsed = parseDOM(this.editor);
+    const before = this.blocks;
+    this.blocks = normalizeBlocks(this.parsed.map(parsed => parsed.block));
+
+    if (toHTML(before) !== toHTML(this.blocks)) {
+      this.record('typing', before, this.typingSelection ?? this.savedSelection);
+    }
+    this.typingSelection = null;
+  }
+
+  /**
+   * Write the model into the editor
+   */
+  private render(): void {
+    const isEmpty = this.blocks.length === 1 && this.blocks[0].type === 'paragraph' && this.blocks[0].runs.length === 0;
+    // An empty editor shows its placeholder
+    this.editor.innerHTML = isEmpty ? '' : toHTML(this.blocks, { view: true });
+    this.options.decorate?.(this.editor);
+    this.parsed = parseDOM(this.editor);
+  }
+
+  private readSelection(): DocRange | null {
     const selection = window.getSelection();
-    if (!selection || !selection.rangeCount) return;
+    if (!selection || selection.rangeCount === 0) return null;
 
     const range = selection.getRangeAt(0);
-    const selectedContent = range.extractContents();
+    if (!this.editor.contains(range.commonAncestorContainer)) return null;
+    return this.rangeFromDOM(range);
+  }
 
-    // Get plain text from selection
-    const plainText = selectedContent.textContent || '';
+  private rangeFromDOM(range: Range): DocRange {
+    return {
+      from: clampPosition(this.blocks, positionFromDOM(this.parsed, range.startContainer, range.startOffset)),
+      to: clampPosition(this.blocks, positionFromDOM(this.parsed, range.endContainer, range.endOffset)),
+    };
+  }
 
-    // Create text node and insert
-    const textNode = document.createTextNode(plainText);
-    range.insertNode(textNode);
+  private rangeToDOM(range: DocRange): Range {
+    const start = positionToDOM(this.parsed, this.editor, range.from);
+    const end = positionToDOM(this.parsed, this.editor, range.to);
+    const domRange = document.createRange();
+    domRange.setStart(start.node, start.offset);
+    domRange.setEnd(end.node, end.offset);
+    return domRange;
+  }
+
+  private select(range: DocRange): void {
+    this.savedSelection = range;
+    const selection = window.getSelection();
+    if (selection && this.isEditorFocused()) {
+      const domRange = this.rangeToDOM(range);
+      selection.removeAllRanges();
+      selection.addRange(domRange);
+    }
+  }
+
+  /**
+   * Let listeners on the editor know its content changed, as typing does
+   */
+  private notifyChange(): void {
+    this.isNotifying = true;
+    try {
+      this.editor.dispatchEvent(new Event('input', { bubbles: true }));
+    } finally {
+      this.isNotifying = false;
+    }
+  }
 
-    // Restore selection
-    range.setStartAfter(textNode);
-    range.setEndAfter(textNode);
-    selection.removeAllRanges();
-    selection.addRange(range);
+  private record(kind: 'typing' | 'set' | 'command', blocks: NoteBlock[], selection: DocRange | null): void {
+    const now = Date.now();
+    const last = this.lastChange;
+    if (kind !== 'command' && last?.kind === kind && now - last.time < GROUP_INTERVAL_MS) {
+      last.time = now;
+    } else {
+      this.undoStack.push({ blocks, selection });
+      if (this.undoStack.length > HISTORY_LIMIT) {
+        this.undoStack.shift();
+      }
+      this.lastChange = kind === 'command' ? null : { kind, time: now };
+    }
+    this.redoStack = [];
+    this.updateToolbarState();
+  }
 
+  /**
+   * Apply a change to the model as one undoable step
+   * @param change - Returns the new blocks and the selection after the change
+   * @param range - Range the change applies to; the selection by default
+   */
+  private transact(
+    change: (range: DocRange) => { blocks: NoteBlock[]; selection: DocRange },
+    range: DocRange | null = null
+  ): void {
+    if (this.readOnly) return;
+
+    this.sync();
+    const target = range ?? this.readSelection() ?? this.savedSelection ?? collapsedAt(documentEnd(this.blocks));
+    const clamped = { from: clampPosition(this.blocks, target.from), to: clampPosition(this.blocks, target.to) };
+
+    const result = change(clamped);
+    this.record('command', this.blocks, clamped);
+    this.blocks = result.blocks;
+    this.render();
     this.editor.focus();
+    this.select(result.selection);
+    this.updateToolbarState();
+    this.notifyChange();
+  }
+
+  /**
+   * Change the blocks under the selection, keeping it selected
+   */
+  private changeSelection(change: (range: DocRange) => NoteBlock[]): void {
+    this.transact(range => ({ blocks: change(range), selection: range }));
+  }
+
+  private insertBlocks(blocks: NoteBlock[], range: DocRange | null = null): void {
+    this.transact(target => {
+      const result = replaceRange(this.blocks, target, blocks);
+      return { blocks: result.blocks, selection: collapsedAt(result.position) };
+    }, range);
+  }
+
+  /**
+   * Toggle a mark on the selection; with nothing selected, on the text typed next
+   */
+  private toggleMark(mark: InlineMark): void {
+    this.sync();
+    const range = this.readSelection() ?? this.savedSelection;
+    if (!range) return;
+
+    if (isCollapsed(range)) {
+      const marks = this.pendingMarks?.marks ?? getMarksAt(this.blocks, range.from);
+      this.pendingMarks = {
+        marks: marks.includes(mark) ? marks.filter(other => other !== mark) : [...marks, mark],
+        position: range.from,
+      };
+      this.updateToolbarState();
+      return;
+    }
+
+    const enabled = !getRangeMarks(this.blocks, range).includes(mark);
+    this.changeSelection(target => setMark(this.blocks, target, mark, enabled));
+  }
+
+  private restore(entry: HistoryEntry): void {
+    this.blocks = entry.blocks;
+    this.lastChange = null;
+    this.pendingMarks = null;
+    this.render();
+    this.editor.focus();
+    this.select(entry.selection
+      ? { from: clampPosition(this.blocks, entry.selection.from), to: clampPosition(this.blocks, entry.selection.to) }
+      : collapsedAt(documentEnd(this.blocks)));
+    this.updateToolbarState();
+    this.notifyChange();
+  }
+
+  /**
+   * Undo the last change, including content set from outside the editor
+   */
+  undo(): void {
+    this.sync();
+    const entry = this.undoStack.pop();
+    if (!entry) return;
+    this.redoStack.push({ blocks: this.blocks, selection: this.readSelection() ?? this.savedSelection });
+    this.restore(entry);
+  }
+
+  redo(): void {
+    this.sync();
+    const entry = this.redoStack.pop();
+    if (!entry) return;
+    this.undoStack.push({ blocks: this.blocks, selection: this.readSelection() ?? this.savedSelection });
+    this.restore(entry);
   }
 
   /**
    * Get clean HTML content
    */
   getHTML(): string {
-    return this.editor.innerHTML;
+    this.sync();
+    return toHTML(this.blocks);
   }
 
   /**
-   * Set HTML content
+   * Set HTML content, as a step that can be undone; content set in quick
+   * succession, such as a streamed note, is one step
    */
   setHTML(html: string): void {
-    this.editor.innerHTML = html;
+    this.sync();
+    const blocks = parseHTML(html);
+    const current = toHTML(this.blocks);
+    if (current && current !== toHTML(blocks)) {
+      this.record('set', this.blocks, this.savedSelection);
+    }
+    this.blocks = blocks;
+    this.pendingMarks = null;
+    this.render();
+    this.updateToolbarState();
   }
 
   /**
    * Get plain text content
    */
   getText(): string {
-    return this.editor.innerText || '';
+    this.sync();
+    return toText(this.blocks);
+  }
+
+  /**
+   * Get the content as Markdown
+   */
+  getMarkdown(): string {
+    this.sync();
+    return toMarkdown(this.blocks);
   }
 
   /**
    * Clear editor content
    */
   clear(): void {
-    this.editor.innerHTML = '';
+    this.setHTML('');
   }
 
   /**
    * Insert HTML at cursor
    */
   insertHTML(html: string): void {
-    this.executeCommand('insertHTML', html);
+    this.insertBlocks(parseHTML(html));
+  }
+
+  /**
+   * Insert plain text at the last cursor position in the editor (or at the
+   * end if it has not had the cursor), as an undoable edit
+   */
+  insertTextAtCursor(text: string): void {
+    this.sync();
+    this.insertBlocks(parseText(text), this.savedSelection ?? collapsedAt(documentEnd(this.blocks)));
+  }
+
+  /**
+   * The selected text, or if the selection is collapsed, the body of the
+   * section under the cursor (everything between its heading and the next)
+   * @returns null when nothing is selected and the cursor isn't in a section
+   */
+  getEditRange(): EditorRange | null {
+    this.sync();
+    const selection = this.readSelection() ?? this.savedSelection;
+    if (!selection) return null;
+
+    let range = orderRange(selection);
+    let sectionTitle: string | undefined;
+    if (isCollapsed(range)) {
+      const section = findSectionBody(this.blocks, range.from);
+      if (!section) return null;
+      range = section.range;
+      sectionTitle = section.title;
+    }
+
+    return {
+      range,
+      html: toHTML(sliceBlocks(this.blocks, range)),
+      sectionTitle,
+      documentHTML: toHTML(this.blocks),
+    };
+  }
+
+  /**
+   * Replace a range read with getEditRange with HTML, as an undoable edit
+   * @returns false, changing nothing, if the note has changed since the range was read
+   */
+  replaceRange(target: EditorRange, html: string): boolean {
+    this.sync();
+    if (toHTML(this.blocks) !== target.documentHTML) return false;
+
+    this.insertBlocks(parseHTML(html), target.range);
+    return true;
+  }
+
+  /**
+   * Stop the note being changed from the editor: typing, the toolbar and
+   * inserted content are ignored until it is made editable again. Content
+   * set with setHTML still replaces the note.
+   */
+  setReadOnly(readOnly: boolean): void {
+    this.readOnly = readOnly;
+    this.editor.contentEditable = String(!readOnly);
+  }
+
+  /**
+   * Replace a node inside the editor with plain text, as an undoable edit
+   */
+  replaceNodeWithText(node: Node, text: string): void {
+    if (!this.editor.contains(node)) return;
+
+    this.sync();
+    const range = document.createRange();
+    range.selectNode(node);
+    this.insertBlocks(parseText(text), this.rangeFromDOM(range));
   }
 
   /**
@@ -0,0 +1,14 @@
+import { describe, expect, it } from 'vitest';
+import { renameSpeakerInText } from './speakers';
+
+describe('renameSpeakerInText', () => {
+  it('renames line labels only', () => {
+    expect(renameSpeakerInText('Speaker 1: Hello\nSpeaker 2: Speaker 1: is here', 'Speaker 1', 'Owner'))
+      .toBe('Owner: Hello\nSpeaker 2: Speaker 1: is here');
+  });
+
+  it('keeps "$" in the new name as written', () => {
+    expect(renameSpeakerInText('Speaker 1: Hello', 'Speaker 1', 'Dr $& $1 $`'))
+      .toBe('Dr $& $1 $`: Hello');
+  });
+});
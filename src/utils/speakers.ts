@@ -0,0 +1,81 @@
+/**
+ * Helpers for diarized transcripts
+ * Speaker turns are written into the transcript as "Label: text" lines so the
+ * transcript stays plain, editable text
+ */
+
+import { AudioSegment, SpeakerTurn } from '../types';
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Validate speaker turns parsed from a provider response
+ * @throws If the response is not a list of turns
+ */
+export function normalizeSpeakerTurns(raw: unknown): SpeakerTurn[] {
+  if (!Array.isArray(raw)) {
+    throw new Error('Diarized transcription did not return a list of speaker turns');
+  }
+
+  return raw
+    .filter((turn): turn is Record<string, unknown> => typeof turn === 'object' && turn !== null)
+    .map(turn => ({
+      speaker: String(turn.speaker ?? '').trim() || 'Unknown',
+      start: Number(turn.start) || 0,
+      end: Number(turn.end) || 0,
+      text: String(turn.text ?? '').trim(),
+    }))
+    .filter(turn => turn.text.length > 0);
+}
+
+/**
+ * Transcript text for speaker turns, one line per change of speaker
+ */
+export function formatSpeakerTurns(turns: SpeakerTurn[]): string {
+  const lines: string[] = [];
+  let previous: string | null = null;
+
+  turns.forEach(turn => {
+    if (turn.speaker === previous) {
+      lines[lines.length - 1] += ` ${turn.text}`;
+    } else {
+      lines.push(`${turn.speaker}: ${turn.text}`);
+      previous = turn.speaker;
+    }
+  });
+
+  return lines.join('\n');
+}
+
+/**
+ * Distinct speaker labels across a session's audio, in order of first appearance
+ */
+export function getSpeakers(audio: AudioSegment[]): string[] {
+  const speakers = new Set<string>();
+  audio.forEach(segment => segment.turns?.forEach(turn => speakers.add(turn.speaker)));
+  return [...speakers];
+}
+
+/**
+ * Rename a speaker's line labels in transcript text
+ */
+export function renameSpeakerInText(text: string, from: string, to: string): string {
+  // A function replacer, so "$" in the name is not read as a pattern
+  return text.replace(new RegExp(`^${escapeRegExp(from)}:`, 'gm'), () => `${to}:`);
+}
+
+/**
+ * Rename a speaker in a segment's turns and text
+ */
+export function renameSpeakerInSegment(segment: AudioSegment, from: string, to: string): AudioSegment {
+  if (!segment.turns?.some(turn => turn.speaker === from)) {
+    return segment;
+  }
+  return {
+    ...segment,
+    turns: segment.turns.map(turn => (turn.speaker === from ? { ...turn, speaker: to } : turn)),
+    text: segment.text && renameSpeakerInText(segment.text, from, to),
+  };
+}
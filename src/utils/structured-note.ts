@@ -0,0 +1,113 @@
+/**
+ * Structured note output
+ * Templates are split into sections at their "## " headings; in structured
+ * mode the model returns one JSON property per section, which is checked
+ * against the template before being turned into Markdown
+ */
+
+import { NoteIssue, NoteSection, TemplateSection } from '../types';
+
+const HEADING_PATTERN = /^##\s+(.+?)\s*$/;
+
+function toTitle(heading: string): string {
+  return heading.replace(/:\s*$/, '').trim();
+}
+
+/**
+ * Sections defined by a template's "## " headings, in order
+ */
+export function getTemplateSections(content: string): TemplateSection[] {
+  const sections: TemplateSection[] = [];
+  const guidance: string[][] = [];
+
+  content.split('\n').forEach(line => {
+    const match = line.match(HEADING_PATTERN);
+    if (match) {
+      sections.push({ title: toTitle(match[1]), heading: match[1], guidance: '' });
+      guidance.push([]);
+    } else if (sections.length > 0) {
+      guidance[guidance.length - 1].push(line);
+    }
+  });
+
+  return sections
+    .map((section, index) => ({ ...section, guidance: guidance[index].join('\n').trim() }))
+    .filter((section, index, all) => section.title && all.findIndex(s => s.title === section.title) === index);
+}
+
+/**
+ * JSON Schema for a structured note: one string property per section
+ */
+export function buildNoteJsonSchema(sections: TemplateSection[]): Record<string, unknown> {
+  return {
+    type: 'object',
+    properties: Object.fromEntries(sections.map(section => [
+      section.title,
+      { type: 'string', description: section.guidance || `Content of the ${section.title} section` },
+    ])),
+    required: sections.map(section => section.title),
+    additionalProperties: false,
+  };
+}
+
+/**
+ * Check a model response against the template's sections
+ * @param raw - Parsed JSON returned by the model
+ * @returns Sections in template order, and any missing, empty or invented sections
+ */
+export function validateStructuredNote(
+  raw: unknown,
+  sections: TemplateSection[]
+): { sections: NoteSection[]; issues: NoteIssue[] } {
+  if (typeof raw !== 'object' || raw === null || Array.isArray(raw)) {
+    throw new Error('Structured note was not a JSON object');
+  }
+
+  const values = raw as Record<string, unknown>;
+  const issues: NoteIssue[] = [];
+
+  const noteSections = sections.map(section => {
+    const value = values[section.title];
+    if (value === undefined || value === null) {
+      issues.push({ type: 'missing', section: section.title });
+    }
+    const content = typeof value === 'string' ? value.trim() : '';
+    if (value !== undefined && value !== null && !content) {
+      issues.push({ type: 'empty', section: section.title });
+    }
+    return { title: section.title, heading: section.heading, content };
+  });
+
+  const known = new Set(sections.map(section => section.title));
+  Object.keys(values)
+    .filter(key => !known.has(key))
+    .forEach(key => issues.push({ type: 'unexpected', section: key }));
+
+  return { sections: noteSections, issues };
+}
+
+/**
+ * Markdown for a structured note, using the template's own headings
+ */
+export function structuredNoteToMarkdown(sections: NoteSection[]): string {
+  return sections
+    .map(section => `## ${section.heading}\n${section.content}`)
+    .join('\n\n');
+}
+
+/**
+ * Human-readable summary of note issues
+ */
+export function describeNoteIssues(issues: NoteIssue[]): string[] {
+  const byType = (type: NoteIssue['type']) => issues.filter(i => i.type === type).map(i => i.section);
+  const messages: string[] = [];
+
+  const missing = byType('missing');
+  const empty = byType('empty');
+  const unexpected = byType('unexpected');
+  if (missing.length) messages.push(`Missing sections: ${missing.join(', ')}`);
+  if (empty.length) messages.push(`Empty sections: ${empty.join(', ')}`);
+  if (unexpected.length) messages.push(`Sections not in the template (dropped): ${unexpected.join(', ')}`);
+
+  return messages;
+}
@@ -0,0 +1,85 @@
+/**
+ * WAV export for recorded audio
+ * Decodes compressed audio with the Web Audio API and writes 16-bit PCM WAV
+ */
+
+/**
+ * Decode audio blobs to PCM, all at the same sample rate
+ */
+async function decodeBlobs(blobs: Blob[]): Promise<AudioBuffer[]> {
+  const context = new AudioContext();
+  try {
+    return await Promise.all(blobs.map(async blob => context.decodeAudioData(await blob.arrayBuffer())));
+  } catch (error) {
+    throw new Error('Audio could not be decoded for WAV export');
+  } finally {
+    context.close();
+  }
+}
+
+function writeString(view: DataView, offset: number, value: string): void {
+  for (let i = 0; i < value.length; i++) {
+    view.setUint8(offset + i, value.charCodeAt(i));
+  }
+}
+
+/**
+ * Encode decoded buffers back to back as one WAV file
+ * @param buffers - Buffers sharing a sample rate
+ */
+function encodeWav(buffers: AudioBuffer[]): Blob {
+  const sampleRate = buffers[0].sampleRate;
+  const channels = Math.max(...buffers.map(b => b.numberOfChannels));
+  const totalFrames = buffers.reduce((sum, b) => sum + b.length, 0);
+  const bytesPerSample = 2;
+  const dataSize = totalFrames * channels * bytesPerSample;
+
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+
+  // RIFF header
+  writeString(view, 0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(view, 8, 'WAVE');
+
+  // fmt chunk: PCM
+  writeString(view, 12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true);
+  view.setUint16(22, channels, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * channels * bytesPerSample, true);
+  view.setUint16(32, channels * bytesPerSample, true);
+  view.setUint16(34, bytesPerSample * 8, true);
+
+  // data chunk: interleaved samples
+  writeString(view, 36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  let offset = 44;
+  buffers.forEach(buffer => {
+    const channelData = Array.from({ length: channels }, (_, c) =>
+      buffer.getChannelData(Math.min(c, buffer.numberOfChannels - 1))
+    );
+    for (let frame = 0; frame < buffer.length; frame++) {
+      for (let c = 0; c < channels; c++) {
+        const sample = Math.max(-1, Math.min(1, channelData[c][frame]));
+        view.setInt16(offset, sample < 0 ? sample * 0x8000 : sample * 0x7fff, true);
+        offset += bytesPerSample;
+      }
+    }
+  });
+
+  return new Blob([view], { type: 'audio/wav' });
+}
+
+/**
+ * Convert one or more audio blobs into a single WAV file, in order
+ * @param blobs - Recorded or uploaded audio in any browser-decodable format
+ * @returns WAV blob
+ */
+export async function exportAsWav(blobs: Blob[]): Promise<Blob> {
+  if (blobs.length === 0) {
+    throw new Error('No audio to export');
+  }
+  return encodeWav(await decodeBlobs(blobs));
+}